@@ -8,7 +8,9 @@ import { Handler, schedule } from '@netlify/functions';
  * unnecessary data accumulation.
  * 
  * The function calculates a cutoff date (2 months ago) and deletes all records
- * where start_time is before that date.
+ * where start_time is before that date. Appointments in the trash (deleted_at set)
+ * are kept until they have been there for TRASH_RETENTION_DAYS, then purged -
+ * whatever their start_time.
  * 
  * This function runs as a serverless cron job on Netlify at 3:00 AM UTC daily.
  * 
@@ -18,9 +20,12 @@ import { Handler, schedule } from '@netlify/functions';
 const SUPABASE_URL = process.env.VITE_SUPABASE_URL!;
 const SUPABASE_ANON_KEY = process.env.VITE_SUPABASE_ANON_KEY!;
 
+// Keep in sync with TRASH_RETENTION_DAYS in src/services/scheduleRepository.ts
+const TRASH_RETENTION_DAYS = 30;
+
 /**
  * Main handler for the cleanup function
- * Deletes all appointments and breaks older than 2 months
+ * Deletes all appointments and breaks older than 2 months and purges the trash
  */
 const cleanupHandler: Handler = async (event, context) => {
   console.log('[Cleanup] Starting automatic data cleanup...');
@@ -40,13 +45,19 @@ const cleanupHandler: Handler = async (event, context) => {
     cutoffDate.setMonth(cutoffDate.getMonth() - 2);
     const cutoffISOString = cutoffDate.toISOString();
 
+    // Calculate trash cutoff (appointments deleted before this are purged)
+    const trashCutoffDate = new Date();
+    trashCutoffDate.setDate(trashCutoffDate.getDate() - TRASH_RETENTION_DAYS);
+    const trashCutoffISOString = trashCutoffDate.toISOString();
+
     console.log('[Cleanup] Cutoff date:', cutoffISOString);
+    console.log('[Cleanup] Trash cutoff date:', trashCutoffISOString);
     console.log('[Cleanup] Deleting all records with start_time before this date...');
 
-    // Delete old appointments
+    // Delete old appointments (trashed ones wait for the trash retention period)
     console.log('[Cleanup] Deleting old appointments...');
     const deleteAppointmentsResponse = await fetch(
-      `${SUPABASE_URL}/rest/v1/appointments?start_time=lt.${cutoffISOString}`,
+      `${SUPABASE_URL}/rest/v1/appointments?start_time=lt.${cutoffISOString}&deleted_at=is.null`,
       {
         method: 'DELETE',
         headers: {
@@ -68,6 +79,31 @@ const cleanupHandler: Handler = async (event, context) => {
       console.log('[Cleanup] Deleted appointments:', deletedAppointmentsCount);
     }
 
+    // Purge appointments that have been in the trash for the whole retention period
+    console.log('[Cleanup] Purging trash...');
+    const purgeTrashResponse = await fetch(
+      `${SUPABASE_URL}/rest/v1/appointments?deleted_at=lt.${trashCutoffISOString}`,
+      {
+        method: 'DELETE',
+        headers: {
+          'apikey': SUPABASE_ANON_KEY,
+          'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+          'Content-Type': 'application/json',
+          'Prefer': 'return=representation'
+        }
+      }
+    );
+
+    let purgedTrashCount = 0;
+    if (!purgeTrashResponse.ok) {
+      const errorText = await purgeTrashResponse.text();
+      console.error('[Cleanup] Failed to purge trash:', errorText);
+    } else {
+      const purgedAppointments = await purgeTrashResponse.json();
+      purgedTrashCount = Array.isArray(purgedAppointments) ? purgedAppointments.length : 0;
+      console.log('[Cleanup] Purged trashed appointments:', purgedTrashCount);
+    }
+
     // Delete old breaks
     console.log('[Cleanup] Deleting old breaks...');
     const deleteBreaksResponse = await fetch(
@@ -94,7 +130,7 @@ const cleanupHandler: Handler = async (event, context) => {
     }
 
     console.log('[Cleanup] Cleanup completed successfully');
-    console.log(`[Cleanup] Total records deleted: ${deletedAppointmentsCount + deletedBreaksCount}`);
+    console.log(`[Cleanup] Total records deleted: ${deletedAppointmentsCount + purgedTrashCount + deletedBreaksCount}`);
 
     return {
       statusCode: 200,
@@ -103,9 +139,11 @@ const cleanupHandler: Handler = async (event, context) => {
         message: 'Data cleanup completed successfully',
         timestamp: new Date().toISOString(),
         cutoffDate: cutoffISOString,
+        trashCutoffDate: trashCutoffISOString,
         deletedAppointments: deletedAppointmentsCount,
+        purgedTrash: purgedTrashCount,
         deletedBreaks: deletedBreaksCount,
-        totalDeleted: deletedAppointmentsCount + deletedBreaksCount
+        totalDeleted: deletedAppointmentsCount + purgedTrashCount + deletedBreaksCount
       })
     };
 
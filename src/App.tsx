@@ -1,38 +1,203 @@
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useEffect } from 'react';
 import { useAppointments } from './hooks/useAppointments';
+import { useBreakPolicy } from './hooks/useBreakPolicy';
+import { useWorkingHours } from './hooks/useWorkingHours';
+import { useTimeOff } from './hooks/useTimeOff';
+import { useDaySummaries } from './hooks/useDaySummaries';
+import { useClients } from './hooks/useClients';
+import { useServices } from './hooks/useServices';
+import { useAppointmentSeries } from './hooks/useAppointmentSeries';
+import { useTrash } from './hooks/useTrash';
+import { useAuditLog } from './hooks/useAuditLog';
+import { useGroupMove } from './hooks/useGroupMove';
+import { useScheduleTemplates } from './hooks/useScheduleTemplates';
 import { AppointmentForm } from './components/AppointmentForm';
 import { AppointmentEditForm } from './components/AppointmentEditForm';
+import { BreakPolicySettings } from './components/BreakPolicySettings';
+import { WorkingHoursSettings } from './components/WorkingHoursSettings';
+import { ServiceCatalogSettings } from './components/ServiceCatalogSettings';
+import { TimeOffForm } from './components/TimeOffForm';
+import { ClientProfile } from './components/ClientProfile';
+import { TrashPanel } from './components/TrashPanel';
+import { ChangeLogPanel } from './components/ChangeLogPanel';
+import { TemplatesPanel } from './components/TemplatesPanel';
 import { ScheduleView } from './components/ScheduleView';
+import { WeekView } from './components/WeekView';
+import { MonthView } from './components/MonthView';
 import { ScheduleMiniMapHorizontal } from './components/ScheduleMiniMapHorizontal';
-import { startOfDay, isSameDay, parseISO } from 'date-fns';
-import type { Appointment } from './types';
+import { startOfDay, endOfWeek, isSameDay, parseISO, format, startOfWeek } from 'date-fns';
+import { DEFAULT_DAY_HOURS, getDayHours } from './services/workingHours';
+import { getTimeOffForDay } from './services/timeOff';
+import type {
+  Appointment,
+  AppointmentFormData,
+  BreakPolicy,
+  ClientUpdates,
+  NewService,
+  NewTimeOff,
+  ScheduleTemplate,
+  ScheduleViewMode,
+  SeriesScope,
+  ServiceUpdates,
+  TemplatePlan,
+  TemplateResolution,
+  WorkingHours,
+} from './types';
 
 /**
  * Main App component for the Massage Planner
  * Manages the overall state and coordinates between components
  */
 function App() {
+  // Selected date state (defaults to today)
+  const [selectedDate, setSelectedDate] = useState<Date>(startOfDay(new Date()));
+  const [viewMode, setViewMode] = useState<ScheduleViewMode>('day');
+  const { breakPolicy, saveBreakPolicy } = useBreakPolicy();
+  const { workingHours, saveWorkingHours } = useWorkingHours();
+
+  // Working window of the selected day (days off keep the default window for display)
+  const dayHours = getDayHours(workingHours, selectedDate);
+  const { startHour, endHour } = dayHours ?? DEFAULT_DAY_HOURS;
+
+  const { timeOff, loadMonth, createTimeOff, deleteTimeOff } = useTimeOff();
+  const {
+    clients,
+    visitSummaries,
+    refreshVisitSummaries,
+    findClientByName,
+    createClient,
+    updateClient,
+    fetchClientHistory,
+  } = useClients();
+  const { services, activeServices, createService, updateService } = useServices();
+
+  useEffect(() => {
+    loadMonth(selectedDate);
+  }, [selectedDate, loadMonth]);
+
   const {
     appointments,
     breaks,
     isLoading,
     error,
+    syncMode,
+    lastRemoteUpdate,
+    isOnline,
+    mutationStatus,
+    pendingMutationCount,
+    failedMutationCount,
+    retryFailedMutations,
+    discardFailedMutations,
+    conflicts,
+    resolveConflict,
     createAppointment,
     updateAppointment,
     deleteAppointment,
     updateBreak,
     deleteBreak,
+    applyScheduleDiff,
+    undo,
+    redo,
+    undoLabel,
+    redoLabel,
     pauseAutoGeneration,
     resumeAutoGeneration,
-  } = useAppointments();
+    prefetchDays,
+    prefetchWeek,
+  } = useAppointments(selectedDate, breakPolicy, workingHours);
 
-  // Selected date state (defaults to today)
-  const [selectedDate, setSelectedDate] = useState<Date>(startOfDay(new Date()));
+  const { checkSeries, createSeries, updateOccurrences, deleteOccurrences } = useAppointmentSeries({
+    appointments,
+    applyScheduleDiff,
+    workingHours,
+    services,
+  });
+
+  const { trash, loadTrash, findRestoreConflict, removeFromTrash } = useTrash({
+    appointments,
+    workingHours,
+    services,
+  });
+
+  const { fetchRecordAuditLog, fetchDayAuditLog } = useAuditLog();
+
+  const { moveToDate } = useGroupMove({
+    appointments,
+    applyScheduleDiff,
+    workingHours,
+    services,
+  });
+
+  const { templates, saveTemplate, deleteTemplate, planTemplateApplication, applyTemplate } =
+    useScheduleTemplates({
+      appointments,
+      applyScheduleDiff,
+      workingHours,
+      services,
+    });
+
+  // Per-day totals for the month view, refetched whenever local appointments change
+  const daySummaries = useDaySummaries(viewMode === 'month' ? selectedDate : null, appointments);
+
+  // The week view needs every day of the week (and time off of both months it may span)
+  useEffect(() => {
+    if (viewMode !== 'week') return;
+    prefetchWeek(selectedDate);
+    loadMonth(startOfWeek(selectedDate, { weekStartsOn: 1 }));
+    loadMonth(endOfWeek(selectedDate, { weekStartsOn: 1 }));
+  }, [viewMode, selectedDate, prefetchWeek, loadMonth]);
 
   const [showForm, setShowForm] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showTimeOffForm, setShowTimeOffForm] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
+  const [showChangeLog, setShowChangeLog] = useState(false);
+  const [showTemplates, setShowTemplates] = useState(false);
   const [editingAppointment, setEditingAppointment] = useState<Appointment | null>(null);
+  const [profileClientId, setProfileClientId] = useState<string | null>(null);
+  const [showRemoteUpdate, setShowRemoteUpdate] = useState(false);
+
+  // Fresh "last visit" details for the name suggestions whenever the form opens
+  useEffect(() => {
+    if (showForm) refreshVisitSummaries();
+  }, [showForm, refreshVisitSummaries]);
+
+  // Keep the open trash current as appointments are deleted and restored
+  useEffect(() => {
+    if (!showTrash) return;
+    loadTrash().catch(() => undefined);
+  }, [showTrash, appointments, loadTrash]);
+
+  // Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y) undo and redo schedule edits; text fields keep their own undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement;
+      if (target.closest('input, textarea, select, [contenteditable="true"]')) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
 
-  // Filter appointments and breaks by selected date
+  // Briefly show the "updated by another device" indicator after a remote change
+  useEffect(() => {
+    if (!lastRemoteUpdate) return;
+    setShowRemoteUpdate(true);
+    const timeout = setTimeout(() => setShowRemoteUpdate(false), 5000);
+    return () => clearTimeout(timeout);
+  }, [lastRemoteUpdate]);
+
+  // Filter the cached days down to the selected date
   const filteredAppointments = useMemo(() => {
     return appointments.filter(apt => {
       const aptDate = parseISO(apt.start_time);
@@ -47,30 +212,97 @@ function App() {
     });
   }, [breaks, selectedDate]);
 
+  // Conflicting edits take over the form panel one at a time
+  const activeConflict = conflicts[0];
+  const profileClient = clients.find((client) => client.id === profileClientId);
+  const isFormVisible = showForm || !!activeConflict || !!profileClient;
+
+  /**
+   * Id of the client with the given name, creating the client if it is new
+   * (appointments are still saved by name alone if the directory can't be reached)
+   */
+  const resolveClientId = async (name: string): Promise<string | null> => {
+    const existing = findClientByName(name);
+    if (existing) return existing.id;
+    try {
+      const created = await createClient({ name: name.trim() });
+      return created.id;
+    } catch (err) {
+      return null;
+    }
+  };
+
+  /**
+   * Series template matching the appointment form (for a repeating appointment)
+   */
+  const toSeriesTemplate = (appointment: AppointmentFormData) => ({
+    rule: appointment.recurrence!,
+    start_time: appointment.start_time,
+    duration_minutes: appointment.duration_minutes,
+    client_name: appointment.client_name,
+    client_id: appointment.client_id ?? null,
+    service_id: appointment.service_id ?? null,
+    notes: appointment.notes,
+  });
+
+  /**
+   * Create a one-off appointment, linking it to the client with that name
+   */
+  const createSingleAppointment = async (appointment: AppointmentFormData) => {
+    await createAppointment({
+      client_name: appointment.client_name,
+      client_id: appointment.client_id ?? (await resolveClientId(appointment.client_name)),
+      service_id: appointment.service_id ?? null,
+      start_time: appointment.start_time,
+      duration_minutes: appointment.duration_minutes,
+      notes: appointment.notes,
+      end_time: '', // Will be calculated
+    });
+  };
+
+  /**
+   * Create an appointment from an empty slot of the timeline
+   */
+  const handleQuickCreate = async (appointment: AppointmentFormData) => {
+    try {
+      await createSingleAppointment(appointment);
+    } catch (err) {
+      console.error('Failed to create appointment:', err);
+      alert('Не вдалося створити запис. Спробуйте ще раз.');
+    }
+  };
+
   /**
    * Handle form submission for creating/editing appointments
    */
-  const handleFormSubmit = async (appointment: any) => {
+  const handleFormSubmit = async (appointment: any, scope: SeriesScope = 'this') => {
     try {
       if (editingAppointment) {
-        await updateAppointment(editingAppointment.id, {
+        // Only send the editable fields so an edit doesn't conflict with a move made elsewhere
+        const nameChanged = appointment.client_name !== editingAppointment.client_name;
+        const updates = {
           client_name: appointment.client_name,
-          start_time: appointment.start_time,
-          duration_minutes: appointment.duration_minutes,
           notes: appointment.notes,
-          end_time: '', // Will be recalculated
-        });
+          ...(nameChanged && { client_id: await resolveClientId(appointment.client_name) }),
+        };
+        if (scope === 'this') {
+          await updateAppointment(editingAppointment.id, updates);
+        } else {
+          await updateOccurrences(editingAppointment, scope, updates);
+        }
         
         setEditingAppointment(null);
-      } else {
-        // Create the appointment
-        await createAppointment({
-          client_name: appointment.client_name,
-          start_time: appointment.start_time,
-          duration_minutes: appointment.duration_minutes,
-          notes: appointment.notes,
-          end_time: '', // Will be calculated
+      } else if (appointment.recurrence) {
+        // Dates that turned out to be taken are skipped (the form already listed them)
+        const created = await createSeries({
+          ...toSeriesTemplate(appointment),
+          client_id: appointment.client_id ?? (await resolveClientId(appointment.client_name)),
         });
+        if (created === 0) {
+          alert('Усі дати повторення зайняті — жодного запису не створено');
+        }
+      } else {
+        await createSingleAppointment(appointment);
       }
       setShowForm(false);
     } catch (err) {
@@ -79,6 +311,185 @@ function App() {
     }
   };
 
+  /**
+   * Delete occurrences of a recurring appointment
+   */
+  const handleDeleteOccurrences = async (appointment: Appointment, scope: SeriesScope) => {
+    if (scope === 'this') {
+      deleteAppointment(appointment.id);
+      return;
+    }
+    try {
+      await deleteOccurrences(appointment, scope);
+    } catch (err) {
+      alert('Не вдалося видалити повторювані записи. Спробуйте ще раз.');
+    }
+  };
+
+  /**
+   * Put a deleted appointment back at its old time, unless the time was taken meanwhile
+   */
+  const handleRestoreAppointment = async (appointment: Appointment) => {
+    try {
+      const conflict = await findRestoreConflict(appointment);
+      if (conflict) {
+        alert(`Неможливо відновити запис: ${conflict}`);
+        return;
+      }
+      // Creating it again with the same id takes it out of the trash
+      await applyScheduleDiff(
+        { appointments: { create: [{ ...appointment, deleted_at: null }] } },
+        'Відновлення запису'
+      );
+      removeFromTrash(appointment.id);
+    } catch (err) {
+      alert('Не вдалося відновити запис. Спробуйте ще раз.');
+    }
+  };
+
+  /**
+   * Move selected appointments to another day, keeping their times
+   * Returns whether they were moved
+   */
+  const handleMoveAppointmentsToDate = async (group: Appointment[], date: Date): Promise<boolean> => {
+    try {
+      const conflict = await moveToDate(group, date);
+      if (conflict) {
+        alert(`Неможливо перенести записи: ${conflict}`);
+        return false;
+      }
+      return true;
+    } catch (err) {
+      alert('Не вдалося перенести записи. Спробуйте ще раз.');
+      return false;
+    }
+  };
+
+  /**
+   * Save the selected day or week as a template; returns whether it was saved
+   */
+  const handleSaveTemplate = async (name: string, span: ScheduleTemplate['span']): Promise<boolean> => {
+    try {
+      if (await saveTemplate(name, span, selectedDate)) return true;
+      alert(span === 'week' ? 'Цього тижня немає записів для шаблону' : 'Цього дня немає записів для шаблону');
+      return false;
+    } catch (err) {
+      alert('Не вдалося зберегти шаблон. Спробуйте ще раз.');
+      return false;
+    }
+  };
+
+  /**
+   * Delete a saved template
+   */
+  const handleDeleteTemplate = async (id: string) => {
+    try {
+      await deleteTemplate(id);
+    } catch (err) {
+      alert('Не вдалося видалити шаблон. Спробуйте ще раз.');
+    }
+  };
+
+  /**
+   * Check what applying a template to a date range would book
+   */
+  const handlePlanTemplate = async (template: ScheduleTemplate, from: Date, to: Date) => {
+    try {
+      return await planTemplateApplication(template, from, to);
+    } catch (err) {
+      alert('Не вдалося перевірити дати. Спробуйте ще раз.');
+      return null;
+    }
+  };
+
+  /**
+   * Apply a checked template; returns whether it was applied
+   */
+  const handleApplyTemplate = async (
+    template: ScheduleTemplate,
+    from: Date,
+    to: Date,
+    plan: TemplatePlan,
+    resolutions: TemplateResolution[]
+  ): Promise<boolean> => {
+    try {
+      await applyTemplate(template, from, to, plan, resolutions);
+      return true;
+    } catch (err) {
+      alert('Не вдалося застосувати шаблон. Спробуйте ще раз.');
+      return false;
+    }
+  };
+
+  /**
+   * Save working hours settings
+   */
+  const handleSaveWorkingHours = async (hours: WorkingHours) => {
+    setShowSettings(false);
+    try {
+      await saveWorkingHours(hours);
+    } catch (err) {
+      alert('Не вдалося зберегти робочі години. Спробуйте ще раз.');
+    }
+  };
+
+  /**
+   * Save the break auto-generation settings and close the settings panel
+   */
+  const handleSaveBreakPolicy = async (policy: BreakPolicy) => {
+    setShowSettings(false);
+    try {
+      await saveBreakPolicy(policy);
+    } catch (err) {
+      alert('Не вдалося зберегти налаштування перерв. Спробуйте ще раз.');
+    }
+  };
+
+  /**
+   * Add a service to the catalog
+   */
+  const handleCreateService = async (service: NewService) => {
+    try {
+      await createService(service);
+    } catch (err) {
+      alert('Не вдалося зберегти послугу. Спробуйте ще раз.');
+    }
+  };
+
+  /**
+   * Change a catalog service
+   */
+  const handleUpdateService = async (id: string, updates: ServiceUpdates) => {
+    try {
+      await updateService(id, updates);
+    } catch (err) {
+      alert('Не вдалося зберегти послугу. Спробуйте ще раз.');
+    }
+  };
+
+  /**
+   * Save a new time off block
+   */
+  const handleCreateTimeOff = async (block: NewTimeOff) => {
+    setShowTimeOffForm(false);
+    try {
+      await createTimeOff(block);
+    } catch (err) {
+      alert('Не вдалося зберегти недоступність. Спробуйте ще раз.');
+    }
+  };
+
+  /**
+   * Delete a time off block
+   */
+  const handleDeleteTimeOff = async (id: string) => {
+    try {
+      await deleteTimeOff(id);
+    } catch (err) {
+      alert('Не вдалося видалити недоступність. Спробуйте ще раз.');
+    }
+  };
+
   /**
    * Handle editing an appointment
    */
@@ -87,6 +498,42 @@ function App() {
     setShowForm(true);
   };
 
+  /**
+   * Open the profile of an appointment's client, linking the appointment to a
+   * client record first if it only has a name
+   */
+  const handleOpenClientProfile = async (appointment: Appointment) => {
+    if (appointment.client_id && clients.some((client) => client.id === appointment.client_id)) {
+      setProfileClientId(appointment.client_id);
+      return;
+    }
+
+    const clientId = await resolveClientId(appointment.client_name);
+    if (!clientId) {
+      alert('Не вдалося відкрити профіль клієнта. Спробуйте ще раз.');
+      return;
+    }
+    if (appointment.client_id !== clientId) {
+      updateAppointment(appointment.id, { client_id: clientId }).catch((err) => {
+        console.error('Failed to link appointment to client:', err);
+      });
+    }
+    setProfileClientId(clientId);
+  };
+
+  /**
+   * Save changes to the open client profile
+   */
+  const handleSaveClient = async (updates: ClientUpdates) => {
+    if (!profileClientId) return;
+    try {
+      await updateClient(profileClientId, updates);
+      setProfileClientId(null);
+    } catch (err) {
+      alert('Не вдалося зберегти профіль клієнта. Спробуйте ще раз.');
+    }
+  };
+
   /**
    * Cancel form
    */
@@ -115,6 +562,26 @@ function App() {
             Планер масажів
           </h1>
           <div className="flex items-center gap-2">
+            <button
+              onClick={undo}
+              disabled={!undoLabel}
+              className="px-3 py-2.5 border border-gray-300 rounded-md hover:bg-gray-50 transition-colors flex items-center justify-center disabled:opacity-40 disabled:cursor-not-allowed"
+              title={undoLabel ? `Скасувати: ${undoLabel} (Ctrl+Z)` : 'Немає дій для скасування'}
+            >
+              <svg className="w-6 h-6 text-gray-700" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 15L3 9m0 0l6-6M3 9h12a6 6 0 010 12h-3" />
+              </svg>
+            </button>
+            <button
+              onClick={redo}
+              disabled={!redoLabel}
+              className="px-3 py-2.5 border border-gray-300 rounded-md hover:bg-gray-50 transition-colors flex items-center justify-center disabled:opacity-40 disabled:cursor-not-allowed"
+              title={redoLabel ? `Повторити: ${redoLabel} (Ctrl+Shift+Z)` : 'Немає дій для повторення'}
+            >
+              <svg className="w-6 h-6 text-gray-700" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 15l6-6m0 0l-6-6m6 6H9a6 6 0 000 12h3" />
+              </svg>
+            </button>
             <button
               onClick={() => {
                 const event = new CustomEvent('openCalendar');
@@ -128,6 +595,52 @@ function App() {
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
               </svg>
             </button>
+            <button
+              onClick={() => setShowTimeOffForm(!showTimeOffForm)}
+              className="px-3 py-2.5 border border-gray-300 rounded-md hover:bg-gray-50 transition-colors flex items-center justify-center"
+              title="Недоступність"
+            >
+              <svg className="w-6 h-6 text-gray-700" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728A9 9 0 015.636 5.636m12.728 12.728L5.636 5.636" />
+              </svg>
+            </button>
+            <button
+              onClick={() => setShowTrash(!showTrash)}
+              className="px-3 py-2.5 border border-gray-300 rounded-md hover:bg-gray-50 transition-colors flex items-center justify-center"
+              title="Кошик"
+            >
+              <svg className="w-6 h-6 text-gray-700" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+              </svg>
+            </button>
+            <button
+              onClick={() => setShowTemplates(!showTemplates)}
+              className="px-3 py-2.5 border border-gray-300 rounded-md hover:bg-gray-50 transition-colors flex items-center justify-center"
+              title="Шаблони"
+            >
+              <svg className="w-6 h-6 text-gray-700" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 5a1 1 0 011-1h14a1 1 0 011 1v2a1 1 0 01-1 1H5a1 1 0 01-1-1V5zM4 13a1 1 0 011-1h6a1 1 0 011 1v6a1 1 0 01-1 1H5a1 1 0 01-1-1v-6zM16 13a1 1 0 011-1h2a1 1 0 011 1v6a1 1 0 01-1 1h-2a1 1 0 01-1-1v-6z" />
+              </svg>
+            </button>
+            <button
+              onClick={() => setShowChangeLog(!showChangeLog)}
+              className="px-3 py-2.5 border border-gray-300 rounded-md hover:bg-gray-50 transition-colors flex items-center justify-center"
+              title="Журнал змін"
+            >
+              <svg className="w-6 h-6 text-gray-700" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-3 7h3m-3 4h3m-6-4h.01M9 16h.01" />
+              </svg>
+            </button>
+            <button
+              onClick={() => setShowSettings(!showSettings)}
+              className="px-3 py-2.5 border border-gray-300 rounded-md hover:bg-gray-50 transition-colors flex items-center justify-center"
+              title="Налаштування"
+            >
+              <svg className="w-6 h-6 text-gray-700" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+              </svg>
+            </button>
             <button
               onClick={() => setShowForm(!showForm)}
               className="px-5 py-2.5 bg-primary-600 text-white rounded-md hover:bg-primary-700 transition-colors font-medium text-base whitespace-nowrap"
@@ -138,6 +651,17 @@ function App() {
         </div>
       </header>
 
+      {/* Remote update indicator */}
+      {showRemoteUpdate && lastRemoteUpdate && (
+        <div
+          className="fixed top-20 lg:top-4 right-4 z-50 flex items-center gap-2 px-3 py-2 bg-blue-50 border border-blue-200 rounded-full shadow text-sm text-blue-800"
+          title={syncMode === 'polling' ? 'Синхронізація кожні 30 с' : 'Синхронізація в реальному часі'}
+        >
+          <span className="w-2 h-2 rounded-full bg-blue-500 flex-shrink-0" />
+          Оновлено з іншого пристрою о {format(lastRemoteUpdate, 'HH:mm')}
+        </div>
+      )}
+
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6 pb-32 pt-20 lg:pt-6 lg:pb-6">
         {/* Header - Desktop Only */}
@@ -146,6 +670,26 @@ function App() {
             Планер масажів
           </h1>
           <div className="flex gap-2 flex-wrap">
+            <button
+              onClick={undo}
+              disabled={!undoLabel}
+              className="px-4 py-3 border border-gray-300 rounded-md hover:bg-gray-50 transition-colors flex items-center justify-center disabled:opacity-40 disabled:cursor-not-allowed"
+              title={undoLabel ? `Скасувати: ${undoLabel} (Ctrl+Z)` : 'Немає дій для скасування'}
+            >
+              <svg className="w-6 h-6 text-gray-700" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 15L3 9m0 0l6-6M3 9h12a6 6 0 010 12h-3" />
+              </svg>
+            </button>
+            <button
+              onClick={redo}
+              disabled={!redoLabel}
+              className="px-4 py-3 border border-gray-300 rounded-md hover:bg-gray-50 transition-colors flex items-center justify-center disabled:opacity-40 disabled:cursor-not-allowed"
+              title={redoLabel ? `Повторити: ${redoLabel} (Ctrl+Shift+Z)` : 'Немає дій для повторення'}
+            >
+              <svg className="w-6 h-6 text-gray-700" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 15l6-6m0 0l-6-6m6 6H9a6 6 0 000 12h3" />
+              </svg>
+            </button>
             <button
               onClick={() => {
                 const event = new CustomEvent('openCalendar');
@@ -159,6 +703,52 @@ function App() {
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
               </svg>
             </button>
+            <button
+              onClick={() => setShowTimeOffForm(!showTimeOffForm)}
+              className="px-4 py-3 border border-gray-300 rounded-md hover:bg-gray-50 transition-colors flex items-center justify-center"
+              title="Недоступність"
+            >
+              <svg className="w-6 h-6 text-gray-700" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728A9 9 0 015.636 5.636m12.728 12.728L5.636 5.636" />
+              </svg>
+            </button>
+            <button
+              onClick={() => setShowTrash(!showTrash)}
+              className="px-4 py-3 border border-gray-300 rounded-md hover:bg-gray-50 transition-colors flex items-center justify-center"
+              title="Кошик"
+            >
+              <svg className="w-6 h-6 text-gray-700" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+              </svg>
+            </button>
+            <button
+              onClick={() => setShowTemplates(!showTemplates)}
+              className="px-4 py-3 border border-gray-300 rounded-md hover:bg-gray-50 transition-colors flex items-center justify-center"
+              title="Шаблони"
+            >
+              <svg className="w-6 h-6 text-gray-700" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 5a1 1 0 011-1h14a1 1 0 011 1v2a1 1 0 01-1 1H5a1 1 0 01-1-1V5zM4 13a1 1 0 011-1h6a1 1 0 011 1v6a1 1 0 01-1 1H5a1 1 0 01-1-1v-6zM16 13a1 1 0 011-1h2a1 1 0 011 1v6a1 1 0 01-1 1h-2a1 1 0 01-1-1v-6z" />
+              </svg>
+            </button>
+            <button
+              onClick={() => setShowChangeLog(!showChangeLog)}
+              className="px-4 py-3 border border-gray-300 rounded-md hover:bg-gray-50 transition-colors flex items-center justify-center"
+              title="Журнал змін"
+            >
+              <svg className="w-6 h-6 text-gray-700" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-3 7h3m-3 4h3m-6-4h.01M9 16h.01" />
+              </svg>
+            </button>
+            <button
+              onClick={() => setShowSettings(!showSettings)}
+              className="px-4 py-3 border border-gray-300 rounded-md hover:bg-gray-50 transition-colors flex items-center justify-center"
+              title="Налаштування"
+            >
+              <svg className="w-6 h-6 text-gray-700" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+              </svg>
+            </button>
             <button
               onClick={() => setShowForm(!showForm)}
               className="px-5 py-3 bg-primary-600 text-white rounded-md hover:bg-primary-700 transition-colors font-medium text-base sm:text-lg whitespace-nowrap"
@@ -167,20 +757,132 @@ function App() {
             </button>
           </div>
         </div>
+        {showTimeOffForm && (
+          <TimeOffForm
+            onSubmit={handleCreateTimeOff}
+            onCancel={() => setShowTimeOffForm(false)}
+            currentDate={selectedDate}
+          />
+        )}
+
+        {showTrash && (
+          <TrashPanel
+            trash={trash}
+            services={services}
+            onRestore={handleRestoreAppointment}
+            onClose={() => setShowTrash(false)}
+          />
+        )}
+
+        {showTemplates && (
+          <TemplatesPanel
+            templates={templates}
+            selectedDate={selectedDate}
+            onSave={handleSaveTemplate}
+            onDelete={handleDeleteTemplate}
+            onPlan={handlePlanTemplate}
+            onApply={handleApplyTemplate}
+            onClose={() => setShowTemplates(false)}
+          />
+        )}
+
+        {showChangeLog && (
+          <ChangeLogPanel
+            initialDate={selectedDate}
+            loadDayLog={fetchDayAuditLog}
+            refreshKey={appointments}
+            onClose={() => setShowChangeLog(false)}
+          />
+        )}
+
+        {showSettings && (
+          <>
+            <WorkingHoursSettings
+              workingHours={workingHours}
+              onSave={handleSaveWorkingHours}
+              onCancel={() => setShowSettings(false)}
+            />
+            <ServiceCatalogSettings
+              services={services}
+              onCreate={handleCreateService}
+              onUpdate={handleUpdateService}
+            />
+            <BreakPolicySettings
+              policy={breakPolicy}
+              onSave={handleSaveBreakPolicy}
+              onCancel={() => setShowSettings(false)}
+            />
+          </>
+        )}
+
         {error && (
           <div className="mb-4 p-4 bg-red-50 border border-red-200 rounded-md">
             <p className="text-red-800 text-sm">{error}</p>
           </div>
         )}
 
+        {/* Offline queue status */}
+        {(!isOnline || pendingMutationCount > 0) && (
+          <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-md">
+            <p className="text-amber-800 text-sm">
+              {isOnline ? 'Синхронізація змін...' : "Немає з'єднання."}{' '}
+              {pendingMutationCount > 0 && `Змін очікує збереження: ${pendingMutationCount}`}
+            </p>
+          </div>
+        )}
+        {failedMutationCount > 0 && (
+          <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md flex flex-wrap items-center justify-between gap-2">
+            <p className="text-red-800 text-sm">
+              Не вдалося зберегти змін: {failedMutationCount}
+            </p>
+            <div className="flex gap-2">
+              <button
+                onClick={retryFailedMutations}
+                className="px-3 py-1.5 bg-red-600 text-white text-sm rounded-md hover:bg-red-700 transition-colors"
+              >
+                Повторити
+              </button>
+              <button
+                onClick={discardFailedMutations}
+                className="px-3 py-1.5 border border-red-300 text-red-700 text-sm rounded-md hover:bg-red-100 transition-colors"
+              >
+                Відхилити
+              </button>
+            </div>
+          </div>
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           {/* Form Section */}
-          {showForm && (
+          {isFormVisible && (
             <div className="lg:col-span-1">
-              {editingAppointment ? (
+              {activeConflict ? (
+                <AppointmentEditForm
+                  key={activeConflict.mutationId}
+                  onSubmit={handleFormSubmit}
+                  initialData={activeConflict.mine}
+                  conflict={activeConflict}
+                  services={services}
+                  onResolveConflict={(updates) => resolveConflict(activeConflict, updates)}
+                />
+              ) : profileClient ? (
+                <ClientProfile
+                  key={profileClient.id}
+                  client={profileClient}
+                  onSave={handleSaveClient}
+                  onClose={() => setProfileClientId(null)}
+                  loadHistory={fetchClientHistory}
+                  refreshKey={appointments}
+                />
+              ) : editingAppointment ? (
                 <AppointmentEditForm
+                  key={editingAppointment.id}
                   onSubmit={handleFormSubmit}
                   onCancel={handleCancelForm}
+                  isRecurring={!!editingAppointment.series_id}
+                  appointmentId={editingAppointment.id}
+                  loadAuditLog={fetchRecordAuditLog}
+                  refreshKey={appointments}
                   initialData={{
                     client_name: editingAppointment.client_name,
                     start_time: editingAppointment.start_time,
@@ -193,40 +895,95 @@ function App() {
                   onSubmit={handleFormSubmit}
                   onCancel={handleCancelForm}
                   currentDate={selectedDate}
+                  startHour={startHour}
+                  endHour={endHour}
+                  isDayOff={!dayHours}
+                  timeOff={timeOff}
+                  clients={clients}
+                  clientVisitSummaries={visitSummaries}
+                  onCreateClient={(name) => createClient({ name: name.trim() })}
+                  services={activeServices}
+                  onCheckRecurrence={(appointment) => checkSeries(toSeriesTemplate(appointment))}
                 />
               )}
             </div>
           )}
 
           {/* Schedule Section */}
-          <div className={showForm ? 'lg:col-span-2' : 'lg:col-span-3'}>
-            <ScheduleView
-              appointments={filteredAppointments}
-              breaks={filteredBreaks}
-              selectedDate={selectedDate}
-              onDateChange={setSelectedDate}
-              onUpdateAppointment={updateAppointment}
-              onUpdateBreak={updateBreak}
-              onDeleteAppointment={deleteAppointment}
-              onDeleteBreak={deleteBreak}
-              onEditAppointment={handleEditAppointment}
-              pauseAutoGeneration={pauseAutoGeneration}
-              resumeAutoGeneration={resumeAutoGeneration}
-            />
+          <div className={isFormVisible ? 'lg:col-span-2' : 'lg:col-span-3'}>
+            {viewMode === 'month' ? (
+              <MonthView
+                summaries={daySummaries}
+                timeOff={timeOff}
+                workingHours={workingHours}
+                selectedDate={selectedDate}
+                onDateChange={setSelectedDate}
+                onViewModeChange={setViewMode}
+              />
+            ) : viewMode === 'week' ? (
+              <WeekView
+                appointments={appointments}
+                breaks={breaks}
+                timeOff={timeOff}
+                services={services}
+                workingHours={workingHours}
+                selectedDate={selectedDate}
+                onDateChange={setSelectedDate}
+                onViewModeChange={setViewMode}
+                onUpdateAppointment={updateAppointment}
+                onEditAppointment={handleEditAppointment}
+                pauseAutoGeneration={pauseAutoGeneration}
+                resumeAutoGeneration={resumeAutoGeneration}
+                mutationStatus={mutationStatus}
+              />
+            ) : (
+              <ScheduleView
+                appointments={filteredAppointments}
+                breaks={filteredBreaks}
+                timeOff={timeOff}
+                services={services}
+                selectedDate={selectedDate}
+                onDateChange={setSelectedDate}
+                onPrefetchDate={prefetchDays}
+                onUpdateAppointment={updateAppointment}
+                onUpdateBreak={updateBreak}
+                onDeleteAppointment={deleteAppointment}
+                onDeleteBreak={deleteBreak}
+                onDeleteTimeOff={handleDeleteTimeOff}
+                onCalendarMonthChange={loadMonth}
+                onViewModeChange={setViewMode}
+                onApplyDiff={applyScheduleDiff}
+                onEditAppointment={handleEditAppointment}
+                onOpenClientProfile={handleOpenClientProfile}
+                onDeleteOccurrences={handleDeleteOccurrences}
+                onQuickCreate={handleQuickCreate}
+                onMoveAppointmentsToDate={handleMoveAppointmentsToDate}
+                pauseAutoGeneration={pauseAutoGeneration}
+                resumeAutoGeneration={resumeAutoGeneration}
+                mutationStatus={mutationStatus}
+                startHour={startHour}
+                endHour={endHour}
+                isDayOff={!dayHours}
+              />
+            )}
           </div>
         </div>
       </main>
 
-      {/* Horizontal Minimap - Mobile Footer */}
-      <div className="lg:hidden fixed bottom-0 left-0 right-0 z-40">
-        <ScheduleMiniMapHorizontal
-          appointments={filteredAppointments}
-          breaks={filteredBreaks}
-          startHour={8}
-          endHour={19}
-          scheduleContainerId="schedule-container"
-        />
-      </div>
+      {/* Horizontal Minimap - Mobile Footer (day view only) */}
+      {viewMode === 'day' && (
+        <div className="lg:hidden fixed bottom-0 left-0 right-0 z-40">
+          <ScheduleMiniMapHorizontal
+            appointments={filteredAppointments}
+            breaks={filteredBreaks}
+            timeOff={getTimeOffForDay(timeOff, selectedDate)}
+            selectedDate={selectedDate}
+            startHour={startHour}
+            endHour={endHour}
+            scheduleContainerId="schedule-container"
+          />
+        </div>
+      )}
     </div>
   );
 }
@@ -1,32 +1,88 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { createPortal } from 'react-dom';
-import type { Appointment } from '../types';
-import { format, parseISO } from 'date-fns';
+import type { Appointment, AppointmentStatus, SeriesScope, Service, SyncStatus } from '../types';
+import { addMinutes, format, parseISO } from 'date-fns';
 import { uk } from 'date-fns/locale';
+import {
+  STATUS_ACTION_LABELS,
+  STATUS_LABELS,
+  getNextStatuses,
+  getStatus,
+  isActiveAppointment,
+} from '../services/appointmentStatus';
+import { SERIES_SCOPE_LABELS } from '../services/recurrence';
 
 interface AppointmentBlockProps {
   appointment: Appointment;
+  service?: Service; // Colors the block; without one the default color is used
   onEdit: (appointment: Appointment) => void;
-  onDelete: (id: string) => void;
-  onDragStart: (id: string, startTime: string, clientY: number) => void;
-  onUpdateStartTime: (id: string, minutesShift: number) => void;
-  canShiftTime: (id: string, minutesShift: number) => boolean;
-  onBulkShiftAfter: (id: string, minutesShift: number) => void;
-  onBulkShiftBefore: (id: string, minutesShift: number) => void;
-  canBulkShiftAfter: (id: string, minutesShift: number) => boolean;
-  canBulkShiftBefore: (id: string, minutesShift: number) => boolean;
+  onDragStart: (id: string, startTime: string, clientY: number, clientX: number) => void;
+  // Menu actions (not needed in compact mode, which has no menu)
+  onDelete?: (id: string) => void;
+  onDeleteOccurrences?: (appointment: Appointment, scope: SeriesScope) => void; // Occurrences of a series
+  onOpenClient?: (appointment: Appointment) => void;
+  onChangeStatus?: (id: string, status: AppointmentStatus) => void;
+  onCopy?: (id: string) => void;
+  onCut?: (id: string) => void;
+  onUpdateStartTime?: (id: string, minutesShift: number) => void;
+  canShiftTime?: (id: string, minutesShift: number) => boolean;
+  onBulkShiftAfter?: (id: string, minutesShift: number) => void;
+  onBulkShiftBefore?: (id: string, minutesShift: number) => void;
+  canBulkShiftAfter?: (id: string, minutesShift: number) => boolean;
+  canBulkShiftBefore?: (id: string, minutesShift: number) => boolean;
+  onResizeStart?: (id: string, clientY: number) => void; // Shows the bottom-edge resize handle
+  previewDuration?: number; // Live duration while the block is being resized
+  isSelected?: boolean; // Part of the multi-selection
+  onToggleSelect?: (id: string) => void; // Shift/Ctrl/Cmd-click adds or removes the block
   pixelsPerHour?: number;
   scrollContainerId?: string;
+  syncStatus?: SyncStatus;
+  compact?: boolean; // Small single-line rendering for the week view
 }
 
+/**
+ * Colors of a block by status (cancelled and no-show blocks drop the service color)
+ */
+const STATUS_BLOCK_CLASSES: Record<AppointmentStatus, string> = {
+  booked: 'bg-primary-500 text-white border-primary-700',
+  confirmed: 'bg-primary-500 text-white border-primary-700',
+  arrived: 'bg-primary-500 text-white border-primary-700 ring-2 ring-amber-400',
+  in_progress: 'bg-primary-500 text-white border-primary-700 ring-4 ring-green-500',
+  completed: 'bg-primary-500 text-white border-primary-700 opacity-60',
+  cancelled: 'bg-gray-200 text-gray-500 border-gray-400 border-dashed opacity-80',
+  no_show: 'bg-red-50 text-red-700 border-red-400 border-dashed opacity-80',
+};
+
+/**
+ * Minimap bar color of an appointment by status
+ */
+export const getStatusMiniMapClass = (appointment: Appointment): string => {
+  switch (getStatus(appointment)) {
+    case 'cancelled':
+      return 'bg-gray-300';
+    case 'no_show':
+      return 'bg-red-300';
+    case 'completed':
+      return 'bg-primary-300';
+    default:
+      return 'bg-primary-500';
+  }
+};
+
 /**
  * Individual appointment block in the schedule
  * Displays appointment details and handles drag/resize interactions
  */
 export const AppointmentBlock: React.FC<AppointmentBlockProps> = ({
   appointment,
+  service,
   onEdit,
   onDelete,
+  onDeleteOccurrences,
+  onOpenClient,
+  onChangeStatus,
+  onCopy,
+  onCut,
   onDragStart,
   onUpdateStartTime,
   canShiftTime,
@@ -34,10 +90,17 @@ export const AppointmentBlock: React.FC<AppointmentBlockProps> = ({
   onBulkShiftBefore,
   canBulkShiftAfter,
   canBulkShiftBefore,
+  onResizeStart,
+  previewDuration,
+  isSelected = false,
+  onToggleSelect,
   pixelsPerHour = 80,
   scrollContainerId,
+  syncStatus,
+  compact = false,
 }) => {
-  const heightPixels = (appointment.duration_minutes / 60) * pixelsPerHour;
+  const duration = previewDuration ?? appointment.duration_minutes;
+  const heightPixels = (duration / 60) * pixelsPerHour;
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const [menuPosition, setMenuPosition] = useState({ top: 0, left: 0 });
   const menuRef = useRef<HTMLDivElement>(null);
@@ -109,17 +172,61 @@ export const AppointmentBlock: React.FC<AppointmentBlockProps> = ({
   const handleMouseDown = (e: React.MouseEvent) => {
     const target = e.target as HTMLElement;
     if (target.tagName === 'BUTTON' || target.closest('button')) return;
-    onDragStart(appointment.id, appointment.start_time, e.clientY);
+    if (onToggleSelect && (e.shiftKey || e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      onToggleSelect(appointment.id);
+      return;
+    }
+    onDragStart(appointment.id, appointment.start_time, e.clientY, e.clientX);
+  };
+
+  const handleTouchStart = (e: React.TouchEvent) => {
+    const touch = e.touches[0];
+    if (touch) onDragStart(appointment.id, appointment.start_time, touch.clientY, touch.clientX);
   };
 
+  const status = getStatus(appointment);
+  const isActive = isActiveAppointment(appointment);
+  const nextStatuses = getNextStatuses(appointment);
+  const serviceStyle =
+    service && isActive ? { backgroundColor: service.color, borderColor: service.color } : undefined;
+  const endTime = addMinutes(parseISO(appointment.start_time), duration);
+  const timeRange = `${format(parseISO(appointment.start_time), 'HH:mm', { locale: uk })} - ${format(endTime, 'HH:mm', { locale: uk })}`;
+
+  if (compact) {
+    return (
+      <div
+        className={`appointment-block absolute left-0 right-0 rounded shadow border select-none mx-0.5 px-1 overflow-hidden md:cursor-move ${STATUS_BLOCK_CLASSES[status]}${isSelected ? ' outline outline-4 outline-offset-1 outline-sky-500' : ''}`}
+        style={{ height: `${heightPixels}px`, minHeight: '16px', ...serviceStyle }}
+        onMouseDown={handleMouseDown}
+        onTouchStart={handleTouchStart}
+        title={`${appointment.client_name} (${timeRange})${service ? `, ${service.name}` : ''}${status !== 'booked' ? ` · ${STATUS_LABELS[status]}` : ''}`}
+      >
+        <div className={`text-xs font-medium truncate ${isActive ? '' : 'line-through'}`}>
+          {appointment.client_name}
+        </div>
+        <div className="text-[10px] opacity-90 truncate">{timeRange}</div>
+        {syncStatus && (
+          <span
+            className={`absolute top-0.5 right-0.5 w-2 h-2 rounded-full ${
+              syncStatus === 'failed' ? 'bg-red-600' : 'bg-white/80'
+            }`}
+          />
+        )}
+      </div>
+    );
+  }
+
   return (
     <div
-      className="appointment-block absolute left-0 right-0 bg-primary-500 text-white rounded-md shadow-lg border-2 border-primary-700 select-none mx-1 md:cursor-move"
+      className={`appointment-block absolute left-0 right-0 rounded-md shadow-lg border-2 select-none mx-1 md:cursor-move ${STATUS_BLOCK_CLASSES[status]}${isSelected ? ' outline outline-4 outline-offset-1 outline-sky-500' : ''}`}
       style={{
         height: `${heightPixels}px`,
         minHeight: '40px',
         overflow: 'visible',
+        ...serviceStyle,
       }}
+      title={service?.name}
       onMouseDown={handleMouseDown}
     >
       <div className="p-2 h-full relative flex items-center">
@@ -141,9 +248,9 @@ export const AppointmentBlock: React.FC<AppointmentBlockProps> = ({
                   <button
                     onClick={(e) => {
                       e.stopPropagation();
-                      onBulkShiftBefore(appointment.id, -10);
+                      onBulkShiftBefore?.(appointment.id, -10);
                     }}
-                    disabled={!canBulkShiftBefore(appointment.id, -10)}
+                    disabled={!canBulkShiftBefore?.(appointment.id, -10)}
                     className="w-full text-left px-3 py-2 text-sm hover:bg-gray-100 transition-colors disabled:text-gray-400 disabled:cursor-not-allowed disabled:hover:bg-white"
                   >
                     На 10 хв раніше
@@ -151,9 +258,9 @@ export const AppointmentBlock: React.FC<AppointmentBlockProps> = ({
                   <button
                     onClick={(e) => {
                       e.stopPropagation();
-                      onBulkShiftBefore(appointment.id, -5);
+                      onBulkShiftBefore?.(appointment.id, -5);
                     }}
-                    disabled={!canBulkShiftBefore(appointment.id, -5)}
+                    disabled={!canBulkShiftBefore?.(appointment.id, -5)}
                     className="w-full text-left px-3 py-2 text-sm hover:bg-gray-100 transition-colors disabled:text-gray-400 disabled:cursor-not-allowed disabled:hover:bg-white"
                   >
                     На 5 хв раніше
@@ -161,9 +268,9 @@ export const AppointmentBlock: React.FC<AppointmentBlockProps> = ({
                   <button
                     onClick={(e) => {
                       e.stopPropagation();
-                      onBulkShiftAfter(appointment.id, 5);
+                      onBulkShiftAfter?.(appointment.id, 5);
                     }}
-                    disabled={!canBulkShiftAfter(appointment.id, 5)}
+                    disabled={!canBulkShiftAfter?.(appointment.id, 5)}
                     className="w-full text-left px-3 py-2 text-sm hover:bg-gray-100 transition-colors disabled:text-gray-400 disabled:cursor-not-allowed disabled:hover:bg-white"
                   >
                     На 5 хв пізніше
@@ -171,9 +278,9 @@ export const AppointmentBlock: React.FC<AppointmentBlockProps> = ({
                   <button
                     onClick={(e) => {
                       e.stopPropagation();
-                      onBulkShiftAfter(appointment.id, 10);
+                      onBulkShiftAfter?.(appointment.id, 10);
                     }}
-                    disabled={!canBulkShiftAfter(appointment.id, 10)}
+                    disabled={!canBulkShiftAfter?.(appointment.id, 10)}
                     className="w-full text-left px-3 py-2 text-sm hover:bg-gray-100 transition-colors disabled:text-gray-400 disabled:cursor-not-allowed disabled:hover:bg-white"
                   >
                     На 10 хв пізніше
@@ -184,9 +291,9 @@ export const AppointmentBlock: React.FC<AppointmentBlockProps> = ({
                   <button
                     onClick={(e) => {
                       e.stopPropagation();
-                      onUpdateStartTime(appointment.id, -10);
+                      onUpdateStartTime?.(appointment.id, -10);
                     }}
-                    disabled={!canShiftTime(appointment.id, -10)}
+                    disabled={!canShiftTime?.(appointment.id, -10)}
                     className="w-full text-left px-3 py-2 text-sm hover:bg-gray-100 transition-colors disabled:text-gray-400 disabled:cursor-not-allowed disabled:hover:bg-white"
                   >
                     На 10 хв раніше
@@ -194,9 +301,9 @@ export const AppointmentBlock: React.FC<AppointmentBlockProps> = ({
                   <button
                     onClick={(e) => {
                       e.stopPropagation();
-                      onUpdateStartTime(appointment.id, -5);
+                      onUpdateStartTime?.(appointment.id, -5);
                     }}
-                    disabled={!canShiftTime(appointment.id, -5)}
+                    disabled={!canShiftTime?.(appointment.id, -5)}
                     className="w-full text-left px-3 py-2 text-sm hover:bg-gray-100 transition-colors disabled:text-gray-400 disabled:cursor-not-allowed disabled:hover:bg-white"
                   >
                     На 5 хв раніше
@@ -204,9 +311,9 @@ export const AppointmentBlock: React.FC<AppointmentBlockProps> = ({
                   <button
                     onClick={(e) => {
                       e.stopPropagation();
-                      onUpdateStartTime(appointment.id, 5);
+                      onUpdateStartTime?.(appointment.id, 5);
                     }}
-                    disabled={!canShiftTime(appointment.id, 5)}
+                    disabled={!canShiftTime?.(appointment.id, 5)}
                     className="w-full text-left px-3 py-2 text-sm hover:bg-gray-100 transition-colors disabled:text-gray-400 disabled:cursor-not-allowed disabled:hover:bg-white"
                   >
                     На 5 хв пізніше
@@ -214,15 +321,42 @@ export const AppointmentBlock: React.FC<AppointmentBlockProps> = ({
                   <button
                     onClick={(e) => {
                       e.stopPropagation();
-                      onUpdateStartTime(appointment.id, 10);
+                      onUpdateStartTime?.(appointment.id, 10);
                     }}
-                    disabled={!canShiftTime(appointment.id, 10)}
+                    disabled={!canShiftTime?.(appointment.id, 10)}
                     className="w-full text-left px-3 py-2 text-sm hover:bg-gray-100 transition-colors disabled:text-gray-400 disabled:cursor-not-allowed disabled:hover:bg-white"
                   >
                     На 10 хв пізніше
                   </button>
                 </div>
               </div>
+              {onChangeStatus && nextStatuses.length > 0 && (
+                <>
+                  <div className="border-t border-gray-100 my-1"></div>
+                  <div className="px-3 py-1 text-xs font-semibold text-gray-500">
+                    Статус: {STATUS_LABELS[status]}
+                  </div>
+                  <div className="flex flex-wrap gap-1 px-3 pb-2">
+                    {nextStatuses.map((next) => (
+                      <button
+                        key={next}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onChangeStatus(appointment.id, next);
+                          setIsMenuOpen(false);
+                        }}
+                        className={`px-2 py-1 text-xs rounded border transition-colors ${
+                          next === 'cancelled' || next === 'no_show'
+                            ? 'border-red-200 text-red-600 hover:bg-red-50'
+                            : 'border-gray-300 hover:bg-gray-100'
+                        }`}
+                      >
+                        {STATUS_ACTION_LABELS[next]}
+                      </button>
+                    ))}
+                  </div>
+                </>
+              )}
               <div className="border-t border-gray-100 my-1"></div>
               <button
                 onClick={(e) => {
@@ -234,16 +368,75 @@ export const AppointmentBlock: React.FC<AppointmentBlockProps> = ({
               >
                 Редагувати
               </button>
-              <button
-                onClick={(e) => {
-                  e.stopPropagation();
-                  onDelete(appointment.id);
-                  setIsMenuOpen(false);
-                }}
-                className="w-full text-left px-3 py-2 text-sm hover:bg-red-50 text-red-600 transition-colors"
-              >
-                Видалити
-              </button>
+              {onOpenClient && (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onOpenClient(appointment);
+                    setIsMenuOpen(false);
+                  }}
+                  className="w-full text-left px-3 py-2 text-sm hover:bg-gray-100 transition-colors"
+                >
+                  Профіль клієнта
+                </button>
+              )}
+              {(onCopy || onCut) && (
+                <div className="grid grid-cols-2 divide-x divide-gray-200">
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onCopy?.(appointment.id);
+                      setIsMenuOpen(false);
+                    }}
+                    className="w-full text-left px-3 py-2 text-sm hover:bg-gray-100 transition-colors"
+                  >
+                    Копіювати
+                  </button>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onCut?.(appointment.id);
+                      setIsMenuOpen(false);
+                    }}
+                    className="w-full text-left px-3 py-2 text-sm hover:bg-gray-100 transition-colors"
+                  >
+                    Вирізати
+                  </button>
+                </div>
+              )}
+              {appointment.series_id && onDeleteOccurrences ? (
+                <>
+                  <div className="px-3 py-1 text-xs font-semibold text-gray-500">
+                    Видалити повторюваний запис
+                  </div>
+                  <div className="flex flex-wrap gap-1 px-3 pb-2">
+                    {(Object.keys(SERIES_SCOPE_LABELS) as SeriesScope[]).map((scope) => (
+                      <button
+                        key={scope}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onDeleteOccurrences(appointment, scope);
+                          setIsMenuOpen(false);
+                        }}
+                        className="px-2 py-1 text-xs rounded border border-red-200 text-red-600 hover:bg-red-50 transition-colors"
+                      >
+                        {SERIES_SCOPE_LABELS[scope]}
+                      </button>
+                    ))}
+                  </div>
+                </>
+              ) : (
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onDelete?.(appointment.id);
+                    setIsMenuOpen(false);
+                  }}
+                  className="w-full text-left px-3 py-2 text-sm hover:bg-red-50 text-red-600 transition-colors"
+                >
+                  Видалити
+                </button>
+              )}
             </div>,
             document.body
           )}
@@ -252,17 +445,41 @@ export const AppointmentBlock: React.FC<AppointmentBlockProps> = ({
         <div className="flex items-start gap-2 w-full justify-between">
           <div className="flex flex-col gap-1 flex-1 min-w-0">
             <div className="flex flex-col sm:flex-row sm:items-center sm:gap-2">
-              <div className="font-medium text-xl sm:text-2xl break-all">
+              <div className={`font-medium text-xl sm:text-2xl break-all ${isActive ? '' : 'line-through'}`}>
                 {appointment.client_name}
+                {appointment.series_id && (
+                  <span className="ml-1 text-base opacity-75" title="Повторюваний запис">
+                    ↻
+                  </span>
+                )}
               </div>
               <div className="flex items-center gap-2">
                 <div className="text-lg sm:text-xl">
-                  {format(parseISO(appointment.start_time), 'HH:mm', { locale: uk })} -{' '}
-                  {format(parseISO(appointment.end_time), 'HH:mm', { locale: uk })}
+                  {timeRange}
                 </div>
                 <div className="text-lg sm:text-xl opacity-75 whitespace-nowrap">
-                  ({appointment.duration_minutes} хв)
+                  ({duration} хв)
                 </div>
+                {status !== 'booked' && (
+                  <span
+                    className={`px-2 py-0.5 rounded-full text-xs font-semibold whitespace-nowrap ${
+                      isActive ? 'bg-white/80 text-gray-800' : 'bg-white text-current border border-current'
+                    }`}
+                  >
+                    {STATUS_LABELS[status]}
+                  </span>
+                )}
+                {/* Offline sync badge */}
+                {syncStatus && (
+                  <span
+                    className={`px-2 py-0.5 rounded-full text-xs font-semibold whitespace-nowrap ${
+                      syncStatus === 'failed' ? 'bg-red-600 text-white' : 'bg-white/80 text-primary-700'
+                    }`}
+                    title={syncStatus === 'failed' ? 'Не вдалося зберегти зміни' : 'Очікує синхронізації'}
+                  >
+                    {syncStatus === 'failed' ? 'Не збережено' : 'Очікує'}
+                  </span>
+                )}
               </div>
             </div>
             {appointment.notes && (
@@ -321,6 +538,25 @@ export const AppointmentBlock: React.FC<AppointmentBlockProps> = ({
           </button>
         </div>
       </div>
+
+      {/* Resize handle */}
+      {onResizeStart && (
+        <div
+          className="absolute bottom-0 left-0 right-0 h-3 flex items-center justify-center cursor-ns-resize touch-none"
+          onMouseDown={(e) => {
+            e.stopPropagation();
+            e.preventDefault();
+            onResizeStart(appointment.id, e.clientY);
+          }}
+          onTouchStart={(e) => {
+            e.stopPropagation();
+            if (e.touches[0]) onResizeStart(appointment.id, e.touches[0].clientY);
+          }}
+          title="Змінити тривалість"
+        >
+          <div className="w-10 h-1 rounded-full bg-white/70" />
+        </div>
+      )}
     </div>
   );
 };
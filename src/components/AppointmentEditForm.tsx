@@ -1,20 +1,86 @@
-import React, { useState } from 'react';
-import type { AppointmentFormData } from '../types';
+import React, { useState, useEffect } from 'react';
+import { format, parseISO } from 'date-fns';
+import { uk } from 'date-fns/locale';
+import type {
+  Appointment,
+  AppointmentConflict,
+  AppointmentFormData,
+  AppointmentUpdates,
+  AuditEntry,
+  ConflictField,
+  SeriesScope,
+  Service,
+} from '../types';
+import { diffAppointmentFields } from '../services/scheduleRepository';
+import { findService } from '../services/serviceCatalog';
+import { STATUS_LABELS, getStatus } from '../services/appointmentStatus';
+import { SERIES_SCOPE_LABELS } from '../services/recurrence';
+import { AuditTimeline } from './AuditTimeline';
 
 interface AppointmentEditFormProps {
-  onSubmit: (appointment: AppointmentFormData) => void;
+  onSubmit: (appointment: AppointmentFormData, scope?: SeriesScope) => void;
   onCancel?: () => void;
   initialData: Partial<AppointmentFormData>;
+  isRecurring?: boolean; // Occurrence of a series - asks which occurrences the edit applies to
+  conflict?: AppointmentConflict;
+  services?: Service[]; // Catalog used to name the services of a conflict
+  onResolveConflict?: (updates: AppointmentUpdates) => void;
+  appointmentId?: string;
+  loadAuditLog?: (appointmentId: string) => Promise<AuditEntry[]>;
+  refreshKey?: unknown; // Reloads the change history when it changes
 }
 
+const CONFLICT_FIELD_LABELS: Record<ConflictField, string> = {
+  client: 'Клієнт',
+  service: 'Послуга',
+  time: 'Час',
+  notes: 'Примітки',
+  status: 'Статус',
+};
+
+/**
+ * Display value of a conflicting field
+ */
+const formatConflictValue = (
+  appointment: Appointment,
+  field: ConflictField,
+  services: Service[]
+): string => {
+  switch (field) {
+    case 'client':
+      return appointment.client_id
+        ? appointment.client_name
+        : `${appointment.client_name} (без профілю)`;
+    case 'service':
+      return findService(services, appointment.service_id)?.name ?? '—';
+    case 'time':
+      return `${format(parseISO(appointment.start_time), 'd MMMM, HH:mm', { locale: uk })} (${appointment.duration_minutes} хв)`;
+    case 'notes':
+      return appointment.notes || '—';
+    case 'status':
+      return STATUS_LABELS[getStatus(appointment)];
+  }
+};
+
 /**
  * Form component for editing appointments
- * Only allows editing client name and notes (not time or massage type)
+ * Only allows editing client name and notes (not time or massage type).
+ * Occurrences of a recurring series can apply the edit to following or all occurrences.
+ * Below the form, the appointment's logged changes are listed (who, when, what).
+ * When an edit conflicts with a change made on another device, shows both
+ * versions instead and lets the user pick which value to keep per field.
  */
 export const AppointmentEditForm: React.FC<AppointmentEditFormProps> = ({
   onSubmit,
   onCancel,
   initialData,
+  isRecurring = false,
+  conflict,
+  services = [],
+  onResolveConflict,
+  appointmentId,
+  loadAuditLog,
+  refreshKey,
 }) => {
   const [formData, setFormData] = useState<AppointmentFormData>({
     client_name: initialData?.client_name || '',
@@ -22,6 +88,133 @@ export const AppointmentEditForm: React.FC<AppointmentEditFormProps> = ({
     duration_minutes: initialData?.duration_minutes || 45,
     notes: initialData?.notes || '',
   });
+  const [scope, setScope] = useState<SeriesScope>('this');
+  const [keepMine, setKeepMine] = useState<Partial<Record<ConflictField, boolean>>>({});
+  const [auditLog, setAuditLog] = useState<AuditEntry[] | null>(null);
+
+  useEffect(() => {
+    if (!appointmentId || !loadAuditLog) return;
+    let isCancelled = false;
+
+    loadAuditLog(appointmentId)
+      .then((entries) => {
+        if (!isCancelled) setAuditLog(entries);
+      })
+      .catch(() => {
+        if (!isCancelled) setAuditLog([]);
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [appointmentId, loadAuditLog, refreshKey]);
+
+  if (conflict && onResolveConflict) {
+    const { mine, theirs } = conflict;
+    const fields = diffAppointmentFields(mine, theirs);
+
+    const handleResolve = (e: React.FormEvent) => {
+      e.preventDefault();
+
+      // Local values win unless the user picked the other device's version
+      const updates: AppointmentUpdates = {};
+      for (const field of fields) {
+        if (keepMine[field] === false) continue;
+        switch (field) {
+          case 'client':
+            updates.client_name = mine.client_name;
+            updates.client_id = mine.client_id ?? null;
+            break;
+          case 'service':
+            updates.service_id = mine.service_id ?? null;
+            break;
+          case 'time':
+            updates.start_time = mine.start_time;
+            updates.duration_minutes = mine.duration_minutes;
+            break;
+          case 'notes':
+            updates.notes = mine.notes;
+            break;
+          case 'status':
+            updates.status = mine.status;
+            updates.status_timestamps = mine.status_timestamps;
+            break;
+        }
+      }
+      onResolveConflict(updates);
+    };
+
+    return (
+      <form
+        onSubmit={handleResolve}
+        className="bg-white rounded-lg shadow-md p-4 sm:p-6 space-y-4"
+      >
+        <h2 className="text-xl sm:text-2xl font-semibold text-gray-800">
+          Конфлікт змін
+        </h2>
+        <p className="text-sm text-gray-600">
+          Цей запис змінили на іншому пристрої. Оберіть, які значення залишити.
+        </p>
+
+        {fields.map((field) => {
+          const isMine = keepMine[field] !== false;
+          const optionClass = (selected: boolean) =>
+            `w-full text-left px-3 py-2 rounded-md border transition-colors ${
+              selected
+                ? 'border-primary-500 bg-primary-50 ring-2 ring-primary-500'
+                : 'border-gray-300 hover:bg-gray-50'
+            }`;
+
+          return (
+            <div key={field}>
+              <div className="block text-sm font-medium text-gray-700 mb-1">
+                {CONFLICT_FIELD_LABELS[field]}
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                <button
+                  type="button"
+                  onClick={() => setKeepMine((prev) => ({ ...prev, [field]: true }))}
+                  className={optionClass(isMine)}
+                >
+                  <div className="text-xs text-gray-500">Мої зміни</div>
+                  <div className="text-sm text-gray-800 break-words">
+                    {formatConflictValue(mine, field, services)}
+                  </div>
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setKeepMine((prev) => ({ ...prev, [field]: false }))}
+                  className={optionClass(!isMine)}
+                >
+                  <div className="text-xs text-gray-500">Інший пристрій</div>
+                  <div className="text-sm text-gray-800 break-words">
+                    {formatConflictValue(theirs, field, services)}
+                  </div>
+                </button>
+              </div>
+            </div>
+          );
+        })}
+
+        {/* Action Buttons */}
+        <div className="flex gap-3 pt-2">
+          <button
+            type="submit"
+            className="flex-1 bg-primary-600 text-white py-2 px-4 rounded-md hover:bg-primary-700 transition-colors font-medium"
+          >
+            Зберегти вибране
+          </button>
+          <button
+            type="button"
+            onClick={() => onResolveConflict({})}
+            className="flex-1 bg-gray-200 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-300 transition-colors font-medium"
+          >
+            Відкинути мої зміни
+          </button>
+        </div>
+      </form>
+    );
+  }
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -31,7 +224,7 @@ export const AppointmentEditForm: React.FC<AppointmentEditFormProps> = ({
       return;
     }
 
-    onSubmit(formData);
+    onSubmit(formData, isRecurring ? scope : undefined);
   };
 
   const handleChange = (
@@ -100,6 +293,31 @@ export const AppointmentEditForm: React.FC<AppointmentEditFormProps> = ({
         </div>
       </div>
 
+      {/* Series scope */}
+      {isRecurring && (
+        <div>
+          <div className="block text-sm font-medium text-gray-700 mb-1">
+            Повторюваний запис: змінити
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            {(Object.keys(SERIES_SCOPE_LABELS) as SeriesScope[]).map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setScope(option)}
+                className={`px-2 py-2 text-sm rounded-md border transition-colors ${
+                  scope === option
+                    ? 'border-primary-500 bg-primary-50 ring-2 ring-primary-500'
+                    : 'border-gray-300 hover:bg-gray-50'
+                }`}
+              >
+                {SERIES_SCOPE_LABELS[option]}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Action Buttons */}
       <div className="flex gap-3 pt-2">
         <button
@@ -118,6 +336,22 @@ export const AppointmentEditForm: React.FC<AppointmentEditFormProps> = ({
           </button>
         )}
       </div>
+
+      {/* Change history */}
+      {loadAuditLog && (
+        <div className="pt-2 border-t border-gray-100">
+          <div className="text-sm font-medium text-gray-700 mb-2">Історія змін</div>
+          {auditLog === null ? (
+            <p className="text-sm text-gray-500">Завантаження...</p>
+          ) : auditLog.length > 0 ? (
+            <div className="max-h-64 overflow-y-auto">
+              <AuditTimeline entries={auditLog} />
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">Змін ще не записано.</p>
+          )}
+        </div>
+      )}
     </form>
   );
 };
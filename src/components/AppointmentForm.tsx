@@ -1,14 +1,46 @@
-import React, { useState } from 'react';
-import type { AppointmentFormData } from '../types';
-import { format } from 'date-fns';
+import React, { useState, useEffect } from 'react';
+import type {
+  AppointmentFormData,
+  BookingConflict,
+  Client,
+  ClientVisitSummary,
+  RecurrenceRule,
+  Service,
+  TimeOff,
+} from '../types';
+import { format, getDate, parseISO } from 'date-fns';
+import { uk } from 'date-fns/locale';
+import { formatHour } from '../services/workingHours';
+import { findTimeOffOverlap } from '../services/timeOff';
+import { findClosestService, formatPrice } from '../services/serviceCatalog';
+import { ClientNameInput } from './ClientNameInput';
 
 interface AppointmentFormProps {
   onSubmit: (appointment: AppointmentFormData) => void;
   onCancel?: () => void;
   initialData?: Partial<AppointmentFormData>;
   currentDate: Date;
+  startHour?: number;
+  endHour?: number;
+  isDayOff?: boolean;
+  timeOff?: TimeOff[];
+  clients?: Client[];
+  clientVisitSummaries?: Record<string, ClientVisitSummary>;
+  onCreateClient?: (name: string) => Promise<Client>;
+  services?: Service[]; // Active catalog entries; without any the two classic types are offered
+  onCheckRecurrence?: (appointment: AppointmentFormData) => Promise<BookingConflict[]>; // Enables repeating
 }
 
+const MASSAGE_DURATIONS = [45, 75];
+
+/**
+ * Classic massage type closest to a client's usual duration
+ */
+const closestMassageDuration = (minutes: number): number =>
+  MASSAGE_DURATIONS.reduce((best, duration) =>
+    Math.abs(duration - minutes) < Math.abs(best - minutes) ? duration : best
+  );
+
 /**
  * Form component for creating/editing appointments
  * Automatically calculates end time based on start time and duration
@@ -18,6 +50,15 @@ export const AppointmentForm: React.FC<AppointmentFormProps> = ({
   onCancel,
   initialData,
   currentDate,
+  startHour = 8,
+  endHour = 19,
+  isDayOff = false,
+  timeOff = [],
+  clients = [],
+  clientVisitSummaries,
+  onCreateClient,
+  services = [],
+  onCheckRecurrence,
 }) => {
   // Initialize with time from initialData or default to current hour
   const getInitialTime = () => {
@@ -37,17 +78,40 @@ export const AppointmentForm: React.FC<AppointmentFormProps> = ({
 
   const initialTime = getInitialTime();
 
-  const [formData, setFormData] = useState<AppointmentFormData>({
-    client_name: initialData?.client_name || '',
-    start_time: initialData?.start_time || '',
-    duration_minutes: initialData?.duration_minutes || 45,
-    notes: initialData?.notes || '',
+  const [formData, setFormData] = useState<AppointmentFormData>(() => {
+    const initialService =
+      services.find((service) => service.id === initialData?.service_id) ?? services[0];
+    return {
+      client_name: initialData?.client_name || '',
+      start_time: initialData?.start_time || '',
+      duration_minutes: initialData?.duration_minutes || initialService?.duration_minutes || 45,
+      notes: initialData?.notes || '',
+      service_id: initialService?.id ?? null,
+    };
   });
 
+  // The catalog may load after the form opened; start from its first service then
+  useEffect(() => {
+    if (services.length === 0) return;
+    setFormData((prev) =>
+      services.some((service) => service.id === prev.service_id)
+        ? prev
+        : { ...prev, service_id: services[0].id, duration_minutes: services[0].duration_minutes }
+    );
+  }, [services]);
+
   const [hourInput, setHourInput] = useState(initialTime.hour);
   const [minuteInput, setMinuteInput] = useState(initialTime.minute);
+  // Occurrences that will be skipped; shown once before a repeating appointment is created
+  const [recurrenceConflicts, setRecurrenceConflicts] = useState<BookingConflict[] | null>(null);
+  const [isCheckingRecurrence, setIsCheckingRecurrence] = useState(false);
+
+  // Any change means the conflicts have to be checked again
+  useEffect(() => {
+    setRecurrenceConflicts(null);
+  }, [formData, hourInput, minuteInput, currentDate]);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
     if (!formData.client_name.trim()) {
@@ -60,15 +124,60 @@ export const AppointmentForm: React.FC<AppointmentFormProps> = ({
       return;
     }
 
+    if (isDayOff) {
+      alert('Неможливо створити запис: це вихідний день');
+      return;
+    }
+
     // Use currentDate with selected time
     try {
       const dateTime = new Date(currentDate);
       dateTime.setHours(parseInt(hourInput), parseInt(minuteInput), 0, 0);
+
+      // The appointment has to end within working hours
+      const endOfDay = new Date(currentDate);
+      endOfDay.setHours(endHour, 0, 0, 0);
+      const endTime = new Date(dateTime.getTime() + formData.duration_minutes * 60000);
+      if (endTime > endOfDay) {
+        alert(`Запис виходить за межі робочого часу (до ${formatHour(endHour)})`);
+        return;
+      }
+
+      const blocked = findTimeOffOverlap(timeOff, dateTime, endTime);
+      if (blocked) {
+        alert(`Неможливо створити запис: цей час недоступний${blocked.reason ? ` (${blocked.reason})` : ''}`);
+        return;
+      }
       
       const updatedFormData = {
         ...formData,
         start_time: dateTime.toISOString(),
       };
+
+      const { recurrence } = formData;
+      if (recurrence && onCheckRecurrence) {
+        if (recurrence.until && recurrence.until < format(currentDate, 'yyyy-MM-dd')) {
+          alert('Дата закінчення повторення не може бути раніше за дату запису');
+          return;
+        }
+
+        // Review the skipped dates first; the next submit creates the series without them
+        if (!recurrenceConflicts) {
+          setIsCheckingRecurrence(true);
+          try {
+            const conflicts = await onCheckRecurrence(updatedFormData);
+            if (conflicts.length > 0) {
+              setRecurrenceConflicts(conflicts);
+              return;
+            }
+          } catch (err) {
+            alert('Не вдалося перевірити повторення. Спробуйте ще раз.');
+            return;
+          } finally {
+            setIsCheckingRecurrence(false);
+          }
+        }
+      }
       
       onSubmit(updatedFormData);
     } catch (error) {
@@ -86,6 +195,58 @@ export const AppointmentForm: React.FC<AppointmentFormProps> = ({
     }));
   };
 
+  /**
+   * Fill in the picked client's usual massage type and notes
+   */
+  const handleSelectClient = (client: Client) => {
+    const usualDuration =
+      client.preferred_duration_minutes ?? clientVisitSummaries?.[client.id]?.usualDurationMinutes;
+    const service = usualDuration ? findClosestService(services, usualDuration) : undefined;
+    setFormData((prev) => ({
+      ...prev,
+      client_name: client.name,
+      client_id: client.id,
+      ...(service
+        ? { service_id: service.id, duration_minutes: service.duration_minutes }
+        : usualDuration && services.length === 0
+          ? { duration_minutes: closestMassageDuration(usualDuration) }
+          : {}),
+      notes: prev.notes || client.notes || '',
+    }));
+  };
+
+  /**
+   * Pick a catalog service (its default duration comes with it)
+   */
+  const handleServiceChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const service = services.find((item) => item.id === e.target.value);
+    if (!service) return;
+    setFormData((prev) => ({
+      ...prev,
+      service_id: service.id,
+      duration_minutes: service.duration_minutes,
+    }));
+  };
+
+  /**
+   * Change the repeat rule (null stops repeating)
+   */
+  const updateRecurrence = (updates: Partial<RecurrenceRule> | null) => {
+    setFormData((prev) => ({
+      ...prev,
+      recurrence:
+        updates === null
+          ? null
+          : { ...(prev.recurrence ?? { frequency: 'weekly', interval: 1 }), ...updates },
+    }));
+  };
+
+  const recurrenceEnd = formData.recurrence?.until
+    ? 'until'
+    : formData.recurrence?.count
+      ? 'count'
+      : 'never';
+
   const handleHourChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
     setHourInput(e.target.value);
   };
@@ -111,16 +272,15 @@ export const AppointmentForm: React.FC<AppointmentFormProps> = ({
         >
           Ім'я клієнта
         </label>
-        <input
-          type="text"
-          id="client_name"
-          name="client_name"
+        <ClientNameInput
           value={formData.client_name}
-          onChange={handleChange}
-          placeholder="Введіть ім'я клієнта"
-          maxLength={40}
-          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
-          required
+          onChange={(name) =>
+            setFormData((prev) => ({ ...prev, client_name: name, client_id: undefined }))
+          }
+          onSelectClient={handleSelectClient}
+          clients={clients}
+          visitSummaries={clientVisitSummaries}
+          onCreateClient={onCreateClient}
         />
         <div className="text-xs text-gray-500 mt-1 text-right">
           {formData.client_name.length}/40
@@ -164,8 +324,8 @@ export const AppointmentForm: React.FC<AppointmentFormProps> = ({
             className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
             required
           >
-            {Array.from({ length: 12 }, (_, i) => {
-              const hour = (i + 8).toString().padStart(2, '0');
+            {Array.from({ length: endHour - startHour }, (_, i) => {
+              const hour = (i + startHour).toString().padStart(2, '0');
               return (
                 <option key={hour} value={hour}>
                   {hour}
@@ -202,25 +362,163 @@ export const AppointmentForm: React.FC<AppointmentFormProps> = ({
         >
           Тип масажу
         </label>
-        <select
-          id="duration_minutes"
-          name="duration_minutes"
-          value={formData.duration_minutes}
-          onChange={handleChange}
-          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
-        >
-          <option value={45}>Короткий, 30~45 хв</option>
-          <option value={75}>Довгий, 60~75 хв</option>
-        </select>
+        {services.length > 0 ? (
+          <select
+            id="duration_minutes"
+            name="service_id"
+            value={formData.service_id ?? ''}
+            onChange={handleServiceChange}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+          >
+            {services.map((service) => (
+              <option key={service.id} value={service.id}>
+                {service.name}, {service.duration_minutes} хв
+                {service.price != null ? ` — ${formatPrice(service.price)}` : ''}
+              </option>
+            ))}
+          </select>
+        ) : (
+          <select
+            id="duration_minutes"
+            name="duration_minutes"
+            value={formData.duration_minutes}
+            onChange={handleChange}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+          >
+            <option value={45}>Короткий, 30~45 хв</option>
+            <option value={75}>Довгий, 60~75 хв</option>
+          </select>
+        )}
       </div>
 
+      {/* Repeat */}
+      {onCheckRecurrence && (
+        <div>
+          <label
+            htmlFor="recurrence_frequency"
+            className="block text-sm font-medium text-gray-700 mb-1"
+          >
+            Повторювати
+          </label>
+          <select
+            id="recurrence_frequency"
+            value={formData.recurrence?.frequency ?? ''}
+            onChange={(e) =>
+              updateRecurrence(
+                e.target.value ? { frequency: e.target.value as RecurrenceRule['frequency'] } : null
+              )
+            }
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+          >
+            <option value="">Не повторювати</option>
+            <option value="weekly">Щотижня, {format(currentDate, 'EEEE', { locale: uk })}</option>
+            <option value="monthly_weekday">
+              Щомісяця, {Math.ceil(getDate(currentDate) / 7)}-й{' '}
+              {format(currentDate, 'EEEE', { locale: uk })}
+            </option>
+          </select>
+
+          {formData.recurrence && (
+            <div className="grid grid-cols-2 gap-4 mt-3">
+              <div>
+                <label
+                  htmlFor="recurrence_interval"
+                  className="block text-sm font-medium text-gray-700 mb-1"
+                >
+                  {formData.recurrence.frequency === 'weekly' ? 'Кожні N тижнів' : 'Кожні N місяців'}
+                </label>
+                <input
+                  type="number"
+                  id="recurrence_interval"
+                  min={1}
+                  max={12}
+                  value={formData.recurrence.interval}
+                  onChange={(e) =>
+                    updateRecurrence({ interval: Math.max(1, parseInt(e.target.value, 10) || 1) })
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                />
+              </div>
+              <div>
+                <label
+                  htmlFor="recurrence_end"
+                  className="block text-sm font-medium text-gray-700 mb-1"
+                >
+                  Закінчення
+                </label>
+                <select
+                  id="recurrence_end"
+                  value={recurrenceEnd}
+                  onChange={(e) =>
+                    updateRecurrence(
+                      e.target.value === 'until'
+                        ? { until: format(currentDate, 'yyyy-MM-dd'), count: null }
+                        : e.target.value === 'count'
+                          ? { until: null, count: 10 }
+                          : { until: null, count: null }
+                    )
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                >
+                  <option value="never">Ніколи</option>
+                  <option value="until">До дати</option>
+                  <option value="count">Після N разів</option>
+                </select>
+              </div>
+              {recurrenceEnd === 'until' && (
+                <input
+                  type="date"
+                  aria-label="Дата закінчення"
+                  value={formData.recurrence.until ?? ''}
+                  min={format(currentDate, 'yyyy-MM-dd')}
+                  onChange={(e) => updateRecurrence({ until: e.target.value || null })}
+                  className="col-span-2 w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                  required
+                />
+              )}
+              {recurrenceEnd === 'count' && (
+                <input
+                  type="number"
+                  aria-label="Кількість повторень"
+                  min={2}
+                  max={100}
+                  value={formData.recurrence.count ?? ''}
+                  onChange={(e) =>
+                    updateRecurrence({ count: Math.max(2, parseInt(e.target.value, 10) || 2) })
+                  }
+                  className="col-span-2 w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                  required
+                />
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {recurrenceConflicts && (
+        <div className="p-3 bg-amber-50 border border-amber-200 rounded-md">
+          <p className="text-sm font-medium text-amber-800 mb-1">
+            Ці дати не вільні й будуть пропущені:
+          </p>
+          <ul className="text-sm text-amber-800 space-y-0.5 max-h-40 overflow-y-auto">
+            {recurrenceConflicts.map((conflict) => (
+              <li key={conflict.start_time}>
+                {format(parseISO(conflict.start_time), 'EEEEEE, d MMMM', { locale: uk })} —{' '}
+                {conflict.reason}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Action Buttons */}
       <div className="flex gap-3 pt-2">
         <button
           type="submit"
-          className="flex-1 bg-primary-600 text-white py-2 px-4 rounded-md hover:bg-primary-700 transition-colors font-medium"
+          disabled={isCheckingRecurrence}
+          className="flex-1 bg-primary-600 text-white py-2 px-4 rounded-md hover:bg-primary-700 transition-colors font-medium disabled:opacity-60"
         >
-          Створити Запис
+          {recurrenceConflicts ? 'Створити без конфліктних дат' : 'Створити Запис'}
         </button>
         {onCancel && (
           <button
@@ -0,0 +1,47 @@
+import React from 'react';
+import { format, parseISO } from 'date-fns';
+import { uk } from 'date-fns/locale';
+import type { AuditEntry } from '../types';
+import { describeAuditEntry } from '../services/auditLog';
+
+interface AuditTimelineProps {
+  entries: AuditEntry[];
+  showItem?: boolean; // Name the changed appointment (for logs mixing several items)
+}
+
+/**
+ * Name of the appointment or break an entry is about
+ */
+const getItemName = (entry: AuditEntry): string => {
+  const item = entry.after ?? entry.before;
+  return item && 'client_name' in item ? item.client_name : 'Перерва';
+};
+
+/**
+ * Logged changes, one per row: when, who and from which device, then what changed
+ */
+export const AuditTimeline: React.FC<AuditTimelineProps> = ({ entries, showItem = false }) => (
+  <ol className="border-l-2 border-gray-200 space-y-3 ml-1">
+    {entries.map((entry) => {
+      const [action, ...details] = describeAuditEntry(entry);
+      return (
+        <li key={entry.id} className="relative pl-4">
+          <span className="absolute -left-[5px] top-1.5 w-2 h-2 rounded-full bg-gray-400" />
+          <div className="text-sm text-gray-800">
+            <span className="font-medium">{action}</span>
+            {showItem && ` · ${getItemName(entry)}`}
+          </div>
+          {details.map((line) => (
+            <div key={line} className="text-xs text-gray-600 break-words">
+              {line}
+            </div>
+          ))}
+          <div className="text-xs text-gray-400">
+            {format(parseISO(entry.created_at), 'd MMMM yyyy, HH:mm:ss', { locale: uk })}
+            {` · ${entry.actor} · ${entry.device}`}
+          </div>
+        </li>
+      );
+    })}
+  </ol>
+);
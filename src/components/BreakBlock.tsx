@@ -1,16 +1,19 @@
 import React from 'react';
 import type { Break } from '../types';
-import { format, parseISO } from 'date-fns';
+import { addMinutes, format, parseISO } from 'date-fns';
 import { uk } from 'date-fns/locale';
 
 interface BreakBlockProps {
   breakItem: Break;
-  onDelete: (id: string) => void;
-  onDragStart: (id: string, startTime: string, clientY: number) => void;
-  onUpdateStartTime: (id: string, minutesShift: number) => void;
-  canShiftTime: (id: string, minutesShift: number) => boolean;
+  onDelete?: (id: string) => void;
+  onDragStart?: (id: string, startTime: string, clientY: number) => void;
+  onUpdateStartTime?: (id: string, minutesShift: number) => void;
+  canShiftTime?: (id: string, minutesShift: number) => boolean;
+  onResizeStart?: (id: string, clientY: number) => void; // Shows the bottom-edge resize handle
+  previewDuration?: number; // Live duration while the block is being resized
   pixelsPerHour?: number;
   scrollContainerId?: string;
+  compact?: boolean; // Small non-draggable rendering for the week view
 }
 
 /**
@@ -20,14 +23,28 @@ interface BreakBlockProps {
 export const BreakBlock: React.FC<BreakBlockProps> = ({
   breakItem,
   onDragStart,
+  onResizeStart,
+  previewDuration,
   pixelsPerHour = 80,
+  compact = false,
 }) => {
-  const heightPixels = (breakItem.duration_minutes / 60) * pixelsPerHour;
+  const duration = previewDuration ?? breakItem.duration_minutes;
+  const heightPixels = (duration / 60) * pixelsPerHour;
 
   const handleMouseDown = (e: React.MouseEvent) => {
-    onDragStart(breakItem.id, breakItem.start_time, e.clientY);
+    onDragStart?.(breakItem.id, breakItem.start_time, e.clientY);
   };
 
+  if (compact) {
+    return (
+      <div
+        className="absolute left-0 right-0 bg-amber-100 border border-amber-300 rounded select-none mx-0.5"
+        style={{ height: `${heightPixels}px` }}
+        title={`Перерва ${format(parseISO(breakItem.start_time), 'HH:mm', { locale: uk })} - ${format(parseISO(breakItem.end_time), 'HH:mm', { locale: uk })}`}
+      />
+    );
+  }
+
   return (
     <div
       className="appointment-block absolute left-0 right-0 bg-amber-100 border-2 border-amber-300 text-amber-800 rounded-md select-none mx-1 md:cursor-move"
@@ -46,14 +63,33 @@ export const BreakBlock: React.FC<BreakBlockProps> = ({
           <div className="flex items-center gap-2">
             <div className="text-lg sm:text-xl">
               {format(parseISO(breakItem.start_time), 'HH:mm', { locale: uk })} -{' '}
-              {format(parseISO(breakItem.end_time), 'HH:mm', { locale: uk })}
+              {format(addMinutes(parseISO(breakItem.start_time), duration), 'HH:mm', { locale: uk })}
             </div>
             <div className="text-lg sm:text-xl opacity-75 whitespace-nowrap">
-              ({breakItem.duration_minutes} хв)
+              ({duration} хв)
             </div>
           </div>
         </div>
       </div>
+
+      {/* Resize handle */}
+      {onResizeStart && (
+        <div
+          className="absolute bottom-0 left-0 right-0 h-3 flex items-center justify-center cursor-ns-resize touch-none"
+          onMouseDown={(e) => {
+            e.stopPropagation();
+            e.preventDefault();
+            onResizeStart(breakItem.id, e.clientY);
+          }}
+          onTouchStart={(e) => {
+            e.stopPropagation();
+            if (e.touches[0]) onResizeStart(breakItem.id, e.touches[0].clientY);
+          }}
+          title="Змінити тривалість"
+        >
+          <div className="w-10 h-1 rounded-full bg-amber-400" />
+        </div>
+      )}
     </div>
   );
 };
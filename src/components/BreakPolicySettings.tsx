@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import type { BreakPolicy } from '../types';
+
+interface BreakPolicySettingsProps {
+  policy: BreakPolicy;
+  onSave: (policy: BreakPolicy) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Settings form for break auto-generation
+ * (breaks are planned inside each day's working hours, set in the working hours form)
+ */
+export const BreakPolicySettings: React.FC<BreakPolicySettingsProps> = ({
+  policy,
+  onSave,
+  onCancel,
+}) => {
+  const [formData, setFormData] = useState<BreakPolicy>(policy);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (formData.minBreakMinutes > formData.maxGapMinutes) {
+      alert('Мінімальна перерва не може бути довшою за максимальний проміжок');
+      return;
+    }
+
+    onSave(formData);
+  };
+
+  const handleNumberChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({
+      ...prev,
+      [name]: Math.max(1, parseInt(value, 10) || 1),
+    }));
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="bg-white rounded-lg shadow-md p-4 sm:p-6 space-y-4 mb-6"
+    >
+      <h2 className="text-xl sm:text-2xl font-semibold text-gray-800">
+        Налаштування перерв
+      </h2>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        {/* Gap thresholds */}
+        <div>
+          <label
+            htmlFor="maxGapMinutes"
+            className="block text-sm font-medium text-gray-700 mb-1"
+          >
+            Максимальний проміжок (хв)
+          </label>
+          <input
+            type="number"
+            id="maxGapMinutes"
+            name="maxGapMinutes"
+            min={1}
+            value={formData.maxGapMinutes}
+            onChange={handleNumberChange}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+          />
+        </div>
+        <div>
+          <label
+            htmlFor="minBreakMinutes"
+            className="block text-sm font-medium text-gray-700 mb-1"
+          >
+            Мінімальна перерва (хв)
+          </label>
+          <input
+            type="number"
+            id="minBreakMinutes"
+            name="minBreakMinutes"
+            min={1}
+            value={formData.minBreakMinutes}
+            onChange={handleNumberChange}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+          />
+        </div>
+      </div>
+
+      {/* Manual breaks */}
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={formData.protectManualBreaks}
+          onChange={(e) =>
+            setFormData((prev) => ({ ...prev, protectManualBreaks: e.target.checked }))
+          }
+          className="h-4 w-4 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
+        />
+        Не змінювати перерви, переміщені вручну
+      </label>
+
+      {/* Action Buttons */}
+      <div className="flex gap-3 pt-2">
+        <button
+          type="submit"
+          className="flex-1 bg-primary-600 text-white py-2 px-4 rounded-md hover:bg-primary-700 transition-colors font-medium"
+        >
+          Зберегти
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="flex-1 bg-gray-200 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-300 transition-colors font-medium"
+        >
+          Скасувати
+        </button>
+      </div>
+    </form>
+  );
+};
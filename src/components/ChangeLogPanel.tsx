@@ -0,0 +1,121 @@
+import React, { useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import type { AuditEntry } from '../types';
+import { getActorName, saveActorName, UNKNOWN_ACTOR } from '../services/auditLog';
+import { AuditTimeline } from './AuditTimeline';
+
+interface ChangeLogPanelProps {
+  initialDate: Date;
+  loadDayLog: (date: Date) => Promise<AuditEntry[]>;
+  refreshKey?: unknown; // Reloads the log when it changes
+  onClose: () => void;
+}
+
+/**
+ * "Журнал змін": every schedule change made on a day, with who made it and from where
+ * Breaks are mostly rearranged automatically, so they are hidden unless asked for.
+ */
+export const ChangeLogPanel: React.FC<ChangeLogPanelProps> = ({
+  initialDate,
+  loadDayLog,
+  refreshKey,
+  onClose,
+}) => {
+  const [date, setDate] = useState(format(initialDate, 'yyyy-MM-dd'));
+  const [entries, setEntries] = useState<AuditEntry[] | null>(null);
+  const [showBreaks, setShowBreaks] = useState(false);
+  const [actor, setActor] = useState(() => {
+    const name = getActorName();
+    return name === UNKNOWN_ACTOR ? '' : name;
+  });
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    loadDayLog(parseISO(date))
+      .then((loaded) => {
+        if (!isCancelled) setEntries(loaded);
+      })
+      .catch(() => {
+        if (!isCancelled) setEntries([]);
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [date, loadDayLog, refreshKey]);
+
+  const handleSaveActor = () => {
+    try {
+      saveActorName(actor);
+    } catch {
+      alert("Не вдалося зберегти ім'я");
+    }
+  };
+
+  const visible = (entries ?? [])
+    .filter((entry) => showBreaks || entry.table_name === 'appointments')
+    .reverse();
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4 sm:p-6 space-y-4 mb-6">
+      <div className="flex items-center justify-between gap-3">
+        <h2 className="text-xl sm:text-2xl font-semibold text-gray-800">Журнал змін</h2>
+        <button
+          type="button"
+          onClick={onClose}
+          className="px-3 py-1.5 text-sm border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+        >
+          Закрити
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3">
+        <div>
+          <label htmlFor="change_log_date" className="block text-sm font-medium text-gray-700 mb-1">
+            Дата змін
+          </label>
+          <input
+            type="date"
+            id="change_log_date"
+            value={date}
+            onChange={(e) => e.target.value && setDate(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+          />
+        </div>
+        <div className="flex-1 min-w-[12rem]">
+          <label htmlFor="change_log_actor" className="block text-sm font-medium text-gray-700 mb-1">
+            Хто працює на цьому пристрої
+          </label>
+          <input
+            type="text"
+            id="change_log_actor"
+            value={actor}
+            onChange={(e) => setActor(e.target.value)}
+            onBlur={handleSaveActor}
+            placeholder="Ваше ім'я"
+            maxLength={40}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+          />
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-700 py-2">
+          <input
+            type="checkbox"
+            checked={showBreaks}
+            onChange={(e) => setShowBreaks(e.target.checked)}
+            className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+          />
+          Показувати перерви
+        </label>
+      </div>
+
+      {entries === null ? (
+        <p className="text-sm text-gray-500">Завантаження...</p>
+      ) : visible.length > 0 ? (
+        <AuditTimeline entries={visible} showItem />
+      ) : (
+        <p className="text-sm text-gray-500">Цього дня змін не було.</p>
+      )}
+    </div>
+  );
+};
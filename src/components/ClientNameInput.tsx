@@ -0,0 +1,155 @@
+import React, { useState, useMemo } from 'react';
+import type { Client, ClientVisitSummary } from '../types';
+import { format, parseISO } from 'date-fns';
+import { uk } from 'date-fns/locale';
+import { normalizeClientName } from '../services/scheduleRepository';
+import { searchClients } from '../services/clientSearch';
+
+interface ClientNameInputProps {
+  value: string;
+  onChange: (name: string) => void;
+  onSelectClient: (client: Client) => void;
+  clients: Client[];
+  visitSummaries?: Record<string, ClientVisitSummary>;
+  onCreateClient?: (name: string) => Promise<Client>;
+}
+
+/**
+ * Client name field with suggestions from the client directory
+ * Matches across Cyrillic and Latin spellings and small typos; when nothing
+ * matches exactly it offers to create the client right away.
+ */
+export const ClientNameInput: React.FC<ClientNameInputProps> = ({
+  value,
+  onChange,
+  onSelectClient,
+  clients,
+  visitSummaries = {},
+  onCreateClient,
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(-1);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const matches = useMemo(() => searchClients(clients, value), [clients, value]);
+  const hasExactMatch = matches.some(
+    (client) => normalizeClientName(client.name) === normalizeClientName(value)
+  );
+  const canCreate = !!onCreateClient && !!value.trim() && !hasExactMatch;
+  const isDropdownVisible = isOpen && (matches.length > 0 || canCreate);
+
+  const handleSelect = (client: Client) => {
+    onSelectClient(client);
+    setIsOpen(false);
+    setHighlighted(-1);
+  };
+
+  const handleCreate = async () => {
+    if (!onCreateClient || isCreating) return;
+    setIsCreating(true);
+    try {
+      handleSelect(await onCreateClient(value));
+    } catch (err) {
+      alert('Не вдалося створити клієнта. Спробуйте ще раз.');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!isDropdownVisible) return;
+
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlighted((prev) => Math.min(prev + 1, matches.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted((prev) => Math.max(prev - 1, -1));
+    } else if (e.key === 'Enter' && highlighted >= 0 && matches[highlighted]) {
+      e.preventDefault();
+      handleSelect(matches[highlighted]);
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+    }
+  };
+
+  /**
+   * "Останній візит 3 березня · зазвичай 75 хв"
+   */
+  const describeClient = (client: Client): string | null => {
+    const summary = visitSummaries[client.id];
+    const parts: string[] = [];
+    if (summary?.lastVisit) {
+      parts.push(`Останній візит ${format(parseISO(summary.lastVisit), 'd MMMM yyyy', { locale: uk })}`);
+    }
+    const usualDuration = client.preferred_duration_minutes ?? summary?.usualDurationMinutes;
+    if (usualDuration) parts.push(`зазвичай ${usualDuration} хв`);
+    return parts.length > 0 ? parts.join(' · ') : null;
+  };
+
+  return (
+    <div className="relative">
+      <input
+        type="text"
+        id="client_name"
+        name="client_name"
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setIsOpen(true);
+          setHighlighted(-1);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={handleKeyDown}
+        placeholder="Введіть ім'я клієнта"
+        maxLength={40}
+        autoComplete="off"
+        role="combobox"
+        aria-expanded={isDropdownVisible}
+        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+        required
+      />
+
+      {isDropdownVisible && (
+        <ul
+          role="listbox"
+          className="absolute z-30 left-0 right-0 mt-1 bg-white border border-gray-200 rounded-md shadow-lg max-h-72 overflow-y-auto"
+          // Keep focus in the input so the click lands before the blur closes the list
+          onMouseDown={(e) => e.preventDefault()}
+        >
+          {matches.map((client, index) => {
+            const description = describeClient(client);
+            return (
+              <li key={client.id} role="option" aria-selected={index === highlighted}>
+                <button
+                  type="button"
+                  onClick={() => handleSelect(client)}
+                  onMouseEnter={() => setHighlighted(index)}
+                  className={`w-full text-left px-3 py-2 transition-colors ${
+                    index === highlighted ? 'bg-primary-50' : 'hover:bg-gray-50'
+                  }`}
+                >
+                  <div className="text-sm font-medium text-gray-800">{client.name}</div>
+                  {description && <div className="text-xs text-gray-500">{description}</div>}
+                </button>
+              </li>
+            );
+          })}
+          {canCreate && (
+            <li className={matches.length > 0 ? 'border-t border-gray-100' : undefined}>
+              <button
+                type="button"
+                onClick={handleCreate}
+                disabled={isCreating}
+                className="w-full text-left px-3 py-2 text-sm text-primary-700 hover:bg-primary-50 transition-colors disabled:text-gray-400"
+              >
+                + Новий клієнт «{value.trim()}»
+              </button>
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,269 @@
+import React, { useState, useEffect } from 'react';
+import type { Appointment, Client, ClientUpdates } from '../types';
+import { format, parseISO } from 'date-fns';
+import { uk } from 'date-fns/locale';
+import { STATUS_LABELS, getStatus, isActiveAppointment } from '../services/appointmentStatus';
+
+interface ClientProfileProps {
+  client: Client;
+  onSave: (updates: ClientUpdates) => void;
+  onClose: () => void;
+  loadHistory: (clientId: string) => Promise<Appointment[]>;
+  refreshKey?: unknown; // Reloads the visit history when it changes
+}
+
+/**
+ * One visit in the history lists
+ */
+const VisitRow: React.FC<{ appointment: Appointment }> = ({ appointment }) => (
+  <li className="flex items-center justify-between gap-2 py-1.5 text-sm">
+    <span className="text-gray-800">
+      {format(parseISO(appointment.start_time), 'd MMMM yyyy, HH:mm', { locale: uk })}
+    </span>
+    <span className="text-gray-500 whitespace-nowrap">
+      {isActiveAppointment(appointment)
+        ? `${appointment.duration_minutes} хв`
+        : STATUS_LABELS[getStatus(appointment)]}
+    </span>
+  </li>
+);
+
+/**
+ * Client profile panel
+ * Edits the client's contact details and preferences and lists their
+ * upcoming and past visits with a short summary.
+ */
+export const ClientProfile: React.FC<ClientProfileProps> = ({
+  client,
+  onSave,
+  onClose,
+  loadHistory,
+  refreshKey,
+}) => {
+  const [formData, setFormData] = useState({
+    name: client.name,
+    phone: client.phone || '',
+    email: client.email || '',
+    birthday: client.birthday || '',
+    notes: client.notes || '',
+    preferred_duration_minutes: client.preferred_duration_minutes ?? 0,
+  });
+  const [history, setHistory] = useState<Appointment[] | null>(null);
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    loadHistory(client.id)
+      .then((appointments) => {
+        if (!isCancelled) setHistory(appointments);
+      })
+      .catch(() => {
+        if (!isCancelled) setHistory([]);
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [client.id, loadHistory, refreshKey]);
+
+  const now = new Date();
+  const pastVisits = (history ?? []).filter((apt) => parseISO(apt.start_time) < now).reverse();
+  const upcomingVisits = (history ?? []).filter((apt) => parseISO(apt.start_time) >= now);
+  // Cancellations and no-shows stay in the lists but aren't visits
+  const attendedVisits = pastVisits.filter(isActiveAppointment);
+  const lastVisit = attendedVisits[0];
+
+  const handleChange = (
+    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>
+  ) => {
+    const { name, value } = e.target;
+    setFormData((prev) => ({
+      ...prev,
+      [name]: name === 'preferred_duration_minutes' ? parseInt(value, 10) : value,
+    }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = formData.name.trim();
+    if (!name) {
+      alert("Введіть ім'я клієнта");
+      return;
+    }
+
+    onSave({
+      name,
+      // Cleared fields are sent as null so they are cleared in storage too
+      phone: formData.phone.trim() || null,
+      email: formData.email.trim() || null,
+      birthday: formData.birthday || null,
+      notes: formData.notes.trim() || null,
+      preferred_duration_minutes: formData.preferred_duration_minutes || null,
+    });
+  };
+
+  const inputClassName =
+    'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent';
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4 sm:p-6 space-y-4 mb-6">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-xl sm:text-2xl font-semibold text-gray-800">Профіль клієнта</h2>
+        <button
+          type="button"
+          onClick={onClose}
+          className="p-2 hover:bg-gray-100 rounded transition-colors"
+          title="Закрити"
+        >
+          <svg className="w-5 h-5 text-gray-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 gap-3">
+        <div className="p-3 bg-primary-50 rounded-md">
+          <div className="text-xs text-gray-600">Усього візитів</div>
+          <div className="text-xl font-semibold text-primary-700">
+            {history ? attendedVisits.length : '…'}
+          </div>
+        </div>
+        <div className="p-3 bg-primary-50 rounded-md">
+          <div className="text-xs text-gray-600">Останній візит</div>
+          <div className="text-sm font-semibold text-primary-700 mt-1">
+            {lastVisit
+              ? format(parseISO(lastVisit.start_time), 'd MMMM yyyy', { locale: uk })
+              : '—'}
+          </div>
+        </div>
+      </div>
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <label htmlFor="client_profile_name" className="block text-sm font-medium text-gray-700 mb-1">
+            Ім'я *
+          </label>
+          <input
+            type="text"
+            id="client_profile_name"
+            name="name"
+            value={formData.name}
+            onChange={handleChange}
+            maxLength={40}
+            className={inputClassName}
+            required
+          />
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="client_profile_phone" className="block text-sm font-medium text-gray-700 mb-1">
+              Телефон
+            </label>
+            <input
+              type="tel"
+              id="client_profile_phone"
+              name="phone"
+              value={formData.phone}
+              onChange={handleChange}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label htmlFor="client_profile_email" className="block text-sm font-medium text-gray-700 mb-1">
+              Email
+            </label>
+            <input
+              type="email"
+              id="client_profile_email"
+              name="email"
+              value={formData.email}
+              onChange={handleChange}
+              className={inputClassName}
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="client_profile_birthday" className="block text-sm font-medium text-gray-700 mb-1">
+              День народження
+            </label>
+            <input
+              type="date"
+              id="client_profile_birthday"
+              name="birthday"
+              value={formData.birthday}
+              onChange={handleChange}
+              className={inputClassName}
+            />
+          </div>
+          <div>
+            <label htmlFor="client_profile_duration" className="block text-sm font-medium text-gray-700 mb-1">
+              Улюблений масаж
+            </label>
+            <select
+              id="client_profile_duration"
+              name="preferred_duration_minutes"
+              value={formData.preferred_duration_minutes}
+              onChange={handleChange}
+              className={inputClassName}
+            >
+              <option value={0}>—</option>
+              <option value={45}>Короткий, 30~45 хв</option>
+              <option value={75}>Довгий, 60~75 хв</option>
+            </select>
+          </div>
+        </div>
+
+        <div>
+          <label htmlFor="client_profile_notes" className="block text-sm font-medium text-gray-700 mb-1">
+            Примітки
+          </label>
+          <textarea
+            id="client_profile_notes"
+            name="notes"
+            value={formData.notes}
+            onChange={handleChange}
+            rows={3}
+            className={inputClassName}
+          />
+        </div>
+
+        <button
+          type="submit"
+          className="w-full bg-primary-600 text-white py-2 px-4 rounded-md hover:bg-primary-700 transition-colors font-medium"
+        >
+          Зберегти
+        </button>
+      </form>
+
+      {/* Visit history */}
+      <div>
+        <h3 className="text-sm font-semibold text-gray-700 mb-1">Майбутні візити</h3>
+        {upcomingVisits.length > 0 ? (
+          <ul className="divide-y divide-gray-100">
+            {upcomingVisits.map((apt) => (
+              <VisitRow key={apt.id} appointment={apt} />
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500">Немає</p>
+        )}
+      </div>
+      <div>
+        <h3 className="text-sm font-semibold text-gray-700 mb-1">Минулі візити</h3>
+        {pastVisits.length > 0 ? (
+          <ul className="divide-y divide-gray-100 max-h-64 overflow-y-auto">
+            {pastVisits.map((apt) => (
+              <VisitRow key={apt.id} appointment={apt} />
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500">{history ? 'Немає' : 'Завантаження...'}</p>
+        )}
+      </div>
+    </div>
+  );
+};
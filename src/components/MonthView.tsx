@@ -0,0 +1,205 @@
+import React from 'react';
+import type { DaySummary, ScheduleViewMode, TimeOff, WorkingHours } from '../types';
+import { TIME_OFF_HATCH_STYLE } from './TimeOffBlock';
+import { ViewModeToggle } from './ViewModeToggle';
+import {
+  parseISO,
+  format,
+  addMonths,
+  subMonths,
+  startOfDay,
+  startOfMonth,
+  endOfMonth,
+  startOfWeek,
+  endOfWeek,
+  eachDayOfInterval,
+  isSameDay,
+  isSameMonth,
+  isToday,
+} from 'date-fns';
+import { uk } from 'date-fns/locale';
+import { getDayHours } from '../services/workingHours';
+import { getTimeOffForDay } from '../services/timeOff';
+
+interface MonthViewProps {
+  summaries: Record<string, DaySummary>;
+  timeOff?: TimeOff[];
+  workingHours: WorkingHours;
+  selectedDate: Date;
+  onDateChange: (date: Date) => void;
+  onViewModeChange: (mode: ScheduleViewMode) => void;
+}
+
+/**
+ * "3 записи" / "5 записів" with Ukrainian plural forms
+ */
+const formatAppointmentCount = (count: number): string => {
+  const lastDigit = count % 10;
+  const lastTwoDigits = count % 100;
+  if (lastDigit === 1 && lastTwoDigits !== 11) return `${count} запис`;
+  if (lastDigit >= 2 && lastDigit <= 4 && (lastTwoDigits < 12 || lastTwoDigits > 14)) {
+    return `${count} записи`;
+  }
+  return `${count} записів`;
+};
+
+/**
+ * Heat map background for a day by the share of its working time that is booked
+ */
+const getOccupancyClass = (occupancy: number): string => {
+  if (occupancy <= 0) return 'bg-white';
+  if (occupancy < 0.25) return 'bg-primary-50';
+  if (occupancy < 0.5) return 'bg-primary-100';
+  if (occupancy < 0.75) return 'bg-primary-200';
+  return 'bg-primary-300';
+};
+
+/**
+ * Month overview with an occupancy heat map
+ * Each day shows its appointment count, booked vs free minutes and first/last times;
+ * clicking a day opens it in the day view.
+ */
+export const MonthView: React.FC<MonthViewProps> = ({
+  summaries,
+  timeOff = [],
+  workingHours,
+  selectedDate,
+  onDateChange,
+  onViewModeChange,
+}) => {
+  const monthStart = startOfMonth(selectedDate);
+  const days = eachDayOfInterval({
+    start: startOfWeek(monthStart, { weekStartsOn: 1 }),
+    end: endOfWeek(endOfMonth(monthStart), { weekStartsOn: 1 }),
+  });
+
+  const handleSelectDay = (day: Date) => {
+    onDateChange(day);
+    onViewModeChange('day');
+  };
+
+  /**
+   * Render one day cell
+   */
+  const renderDay = (day: Date) => {
+    const summary = summaries[format(day, 'yyyy-MM-dd')];
+    const hours = getDayHours(workingHours, day);
+    const isFullDayOff = getTimeOffForDay(timeOff, day).some((block) => block.is_full_day);
+    const workingMinutes = hours ? (hours.endHour - hours.startHour) * 60 : 0;
+    const bookedMinutes = summary?.bookedMinutes ?? 0;
+    const occupancy = workingMinutes > 0 ? Math.min(1, bookedMinutes / workingMinutes) : 0;
+    const isCurrentMonth = isSameMonth(day, monthStart);
+
+    return (
+      <button
+        key={day.toISOString()}
+        onClick={() => handleSelectDay(day)}
+        style={isFullDayOff ? TIME_OFF_HATCH_STYLE : undefined}
+        className={`
+          flex flex-col items-stretch gap-1 p-1.5 sm:p-2 min-h-[5.5rem] text-left border-t border-l border-gray-200 hover:ring-2 hover:ring-inset hover:ring-primary-400 transition-shadow
+          ${hours ? getOccupancyClass(occupancy) : 'bg-gray-100'}
+          ${isCurrentMonth ? '' : 'opacity-40'}
+        `}
+        title={
+          summary
+            ? `${formatAppointmentCount(summary.appointmentCount)}, зайнято ${bookedMinutes} з ${workingMinutes} хв`
+            : undefined
+        }
+      >
+        <div className="flex items-center justify-between">
+          <span
+            className={`text-sm font-semibold ${
+              isSameDay(day, selectedDate)
+                ? 'px-1.5 rounded bg-primary-600 text-white'
+                : isToday(day)
+                  ? 'text-primary-700'
+                  : 'text-gray-800'
+            }`}
+          >
+            {format(day, 'd')}
+          </span>
+          {summary && (
+            <span className="text-xs text-gray-600 hidden sm:inline">
+              {formatAppointmentCount(summary.appointmentCount)}
+            </span>
+          )}
+        </div>
+
+        {summary && (
+          <>
+            <span className="text-xs text-gray-600 sm:hidden">{summary.appointmentCount}</span>
+            {/* Booked vs free minutes */}
+            {workingMinutes > 0 && (
+              <div className="h-1.5 w-full bg-white/70 border border-primary-200 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-primary-600"
+                  style={{ width: `${occupancy * 100}%` }}
+                />
+              </div>
+            )}
+            <span className="text-[11px] text-gray-700 hidden sm:block">
+              {format(parseISO(summary.firstStart), 'HH:mm')} – {format(parseISO(summary.lastEnd), 'HH:mm')}
+            </span>
+          </>
+        )}
+
+        {!hours && !summary && <span className="text-[11px] text-gray-500">Вихідний</span>}
+      </button>
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md overflow-hidden">
+      <div className="px-3 py-3 sm:px-4 sm:py-3 bg-gray-100 border-b border-gray-200">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <h2 className="text-lg sm:text-xl font-semibold text-gray-800 capitalize">
+            {format(monthStart, 'LLLL yyyy', { locale: uk })}
+          </h2>
+          <div className="flex items-center gap-2">
+            <ViewModeToggle mode="month" onChange={onViewModeChange} />
+            {!isSameMonth(monthStart, new Date()) && (
+              <button
+                onClick={() => onDateChange(startOfDay(new Date()))}
+                className="px-3 py-2 bg-primary-600 text-white text-sm rounded-md hover:bg-primary-700 transition-colors"
+              >
+                Цей місяць
+              </button>
+            )}
+            <button
+              onClick={() => onDateChange(subMonths(selectedDate, 1))}
+              className="p-2 hover:bg-gray-200 rounded transition-colors"
+              title="Попередній місяць"
+            >
+              <svg className="w-5 h-5 text-gray-700" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+              </svg>
+            </button>
+            <button
+              onClick={() => onDateChange(addMonths(selectedDate, 1))}
+              className="p-2 hover:bg-gray-200 rounded transition-colors"
+              title="Наступний місяць"
+            >
+              <svg className="w-5 h-5 text-gray-700" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+              </svg>
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Day names */}
+      <div className="grid grid-cols-7 bg-gray-50">
+        {['Пн', 'Вт', 'Ср', 'Чт', 'Пт', 'Сб', 'Нд'].map((day) => (
+          <div key={day} className="text-center text-xs font-medium text-gray-600 py-2">
+            {day}
+          </div>
+        ))}
+      </div>
+
+      {/* Calendar days */}
+      <div className="grid grid-cols-7 border-r border-b border-gray-200">
+        {days.map(renderDay)}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import type { AppointmentFormData, Service } from '../types';
+
+interface QuickCreatePopoverProps {
+  startTime: Date;
+  getMaxDuration: (serviceId: string | null) => number; // Longest booking of a service that fits (0 if none)
+  services: Service[]; // Active catalog entries; without any the two classic types are offered
+  onSubmit: (appointment: AppointmentFormData) => void;
+  onCancel: () => void;
+  pasteCount?: number; // Copied appointments that can be pasted here instead
+  onPaste?: () => void;
+}
+
+interface DurationOption {
+  label: string;
+  duration_minutes: number;
+  service_id: string | null;
+  isWholeGap?: boolean;
+}
+
+/**
+ * Bookable options that fit into the free time (with their buffers), shortest first,
+ * ending with the whole gap
+ */
+const getDurationOptions = (
+  services: Service[],
+  getMaxDuration: (serviceId: string | null) => number
+): DurationOption[] => {
+  const maxDuration = getMaxDuration(null);
+  const bookable: DurationOption[] =
+    services.length > 0
+      ? services.map((service) => ({
+          label: `${service.name}, ${service.duration_minutes} хв`,
+          duration_minutes: service.duration_minutes,
+          service_id: service.id,
+        }))
+      : [
+          { label: 'Короткий, 30~45 хв', duration_minutes: 45, service_id: null },
+          { label: 'Довгий, 60~75 хв', duration_minutes: 75, service_id: null },
+        ];
+
+  const fitting = bookable
+    .filter((option) => option.duration_minutes <= getMaxDuration(option.service_id))
+    .sort((a, b) => a.duration_minutes - b.duration_minutes);
+  return fitting.some((option) => option.duration_minutes === maxDuration)
+    ? fitting
+    : [
+        ...fitting,
+        {
+          label: `Увесь вільний час, ${maxDuration} хв`,
+          duration_minutes: maxDuration,
+          service_id: null,
+          isWholeGap: true,
+        },
+      ];
+};
+
+/**
+ * Quick appointment form opened from an empty slot of the timeline
+ * Starts at the clicked slot with the longest booking that fits before the next item.
+ */
+export const QuickCreatePopover: React.FC<QuickCreatePopoverProps> = ({
+  startTime,
+  getMaxDuration,
+  services,
+  onSubmit,
+  onCancel,
+  pasteCount = 0,
+  onPaste,
+}) => {
+  const options = getDurationOptions(services, getMaxDuration);
+  // Longest bookable option; the whole gap only when nothing bookable fits
+  const [selected, setSelected] = useState(() => {
+    const lastBookable = options.map((option) => !option.isWholeGap).lastIndexOf(true);
+    return lastBookable >= 0 ? lastBookable : options.length - 1;
+  });
+  const [clientName, setClientName] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!clientName.trim()) {
+      alert('Будь ласка, введіть ім\'я клієнта');
+      return;
+    }
+
+    const option = options[selected];
+    onSubmit({
+      client_name: clientName.trim(),
+      start_time: startTime.toISOString(),
+      duration_minutes: option.duration_minutes,
+      service_id: option.service_id,
+    });
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      onKeyDown={(e) => e.key === 'Escape' && onCancel()}
+      className="quick-create-popover w-72 bg-white border border-gray-300 rounded-lg shadow-lg p-3 space-y-3"
+    >
+      <div className="text-sm font-semibold text-gray-800">
+        Новий запис о {format(startTime, 'HH:mm')}
+      </div>
+      <input
+        type="text"
+        value={clientName}
+        onChange={(e) => setClientName(e.target.value)}
+        placeholder="Ім'я клієнта"
+        maxLength={40}
+        autoFocus
+        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+      />
+      <select
+        value={selected}
+        onChange={(e) => setSelected(Number(e.target.value))}
+        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+      >
+        {options.map((option, index) => (
+          <option key={index} value={index}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          className="flex-1 bg-primary-600 text-white py-1.5 px-3 rounded-md hover:bg-primary-700 transition-colors text-sm font-medium"
+        >
+          Створити
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="flex-1 bg-gray-200 text-gray-700 py-1.5 px-3 rounded-md hover:bg-gray-300 transition-colors text-sm font-medium"
+        >
+          Скасувати
+        </button>
+      </div>
+      {onPaste && pasteCount > 0 && (
+        <button
+          type="button"
+          onClick={onPaste}
+          className="w-full border border-primary-300 text-primary-700 py-1.5 px-3 rounded-md hover:bg-primary-50 transition-colors text-sm font-medium"
+        >
+          Вставити з буфера ({pasteCount})
+        </button>
+      )}
+    </form>
+  );
+};
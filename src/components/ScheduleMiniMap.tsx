@@ -1,10 +1,16 @@
 import React, { useEffect, useRef, useState } from 'react';
-import type { Appointment, Break, ScheduleItem } from '../types';
+import type { Appointment, Break, ScheduleItem, TimeOff } from '../types';
 import { parseISO, format } from 'date-fns';
+import { clipTimeOffToDay } from '../services/timeOff';
+import { TIME_OFF_HATCH_STYLE } from './TimeOffBlock';
+import { getStatusMiniMapClass } from './AppointmentBlock';
+import { STATUS_LABELS, getStatus, isActiveAppointment } from '../services/appointmentStatus';
 
 interface ScheduleMiniMapProps {
   appointments: Appointment[];
   breaks: Break[];
+  timeOff?: TimeOff[];
+  selectedDate: Date;
   startHour?: number;
   endHour?: number;
   scheduleContainerId: string;
@@ -17,6 +23,8 @@ interface ScheduleMiniMapProps {
 export const ScheduleMiniMap: React.FC<ScheduleMiniMapProps> = ({
   appointments,
   breaks,
+  timeOff = [],
+  selectedDate,
   startHour = 8,
   endHour = 19,
   scheduleContainerId,
@@ -183,6 +191,24 @@ export const ScheduleMiniMap: React.FC<ScheduleMiniMapProps> = ({
           {/* Grid lines */}
           {renderGridLines()}
 
+          {/* Time off */}
+          {timeOff.map((block) => {
+            const clipped = clipTimeOffToDay(block, selectedDate, startHour, endHour);
+            if (!clipped) return null;
+            return (
+              <div
+                key={block.id}
+                className="absolute left-0 right-0 bg-gray-200"
+                style={{
+                  ...TIME_OFF_HATCH_STYLE,
+                  top: `${clipped.from * pixelsPerHour}px`,
+                  height: `${(clipped.to - clipped.from) * pixelsPerHour}px`,
+                }}
+                title={block.reason || 'Недоступно'}
+              />
+            );
+          })}
+
           {/* Appointments */}
           {appointments.map((appointment) => {
             const { top, height } = getItemPosition(appointment);
@@ -191,10 +217,10 @@ export const ScheduleMiniMap: React.FC<ScheduleMiniMapProps> = ({
                 key={appointment.id}
                 className="absolute left-0 right-0 mx-0.5"
                 style={{ top: `${top}px` }}
-                title={`${appointment.client_name} - ${format(parseISO(appointment.start_time), 'HH:mm')}`}
+                title={`${appointment.client_name} - ${format(parseISO(appointment.start_time), 'HH:mm')}${isActiveAppointment(appointment) ? '' : ` (${STATUS_LABELS[getStatus(appointment)]})`}`}
               >
                 <div
-                  className="bg-primary-500 rounded-sm"
+                  className={`${getStatusMiniMapClass(appointment)} rounded-sm`}
                   style={{ height: `${height}px` }}
                 />
               </div>
@@ -250,11 +276,19 @@ export const ScheduleMiniMap: React.FC<ScheduleMiniMapProps> = ({
             <div className="w-5 h-5 bg-primary-500 rounded flex-shrink-0" />
             <span>Записи</span>
           </div>
+          <div className="flex items-center gap-2">
+            <div className="w-5 h-5 bg-gray-300 rounded flex-shrink-0" />
+            <span>Скасовані</span>
+          </div>
           <div className="flex items-center gap-2">
             <div className="w-5 h-5 bg-amber-400 border border-amber-500 rounded flex-shrink-0" />
             <span>Перерви</span>
           </div>
         </div>
+        <div className="flex items-center gap-2">
+          <div className="w-5 h-5 bg-gray-200 rounded flex-shrink-0" style={TIME_OFF_HATCH_STYLE} />
+          <span>Недоступно</span>
+        </div>
         <div className="flex items-center gap-2">
           <div className="w-5 h-0.5 flex-shrink-0" style={{ backgroundColor: '#1e293b' }} />
           <span>Поточний час</span>
@@ -269,7 +303,9 @@ export const ScheduleMiniMap: React.FC<ScheduleMiniMapProps> = ({
       <div className="mt-4 pt-3 border-t border-gray-200 space-y-2">
         <div className="flex justify-between text-base">
           <span className="text-gray-600">Записів:</span>
-          <span className="font-semibold text-primary-600">{appointments.length}</span>
+          <span className="font-semibold text-primary-600">
+            {appointments.filter(isActiveAppointment).length}
+          </span>
         </div>
         <div className="flex justify-between text-base">
           <span className="text-gray-600">Перерв:</span>
@@ -278,7 +314,7 @@ export const ScheduleMiniMap: React.FC<ScheduleMiniMapProps> = ({
         <div className="flex justify-between text-base">
           <span className="text-gray-600">Всього хв:</span>
           <span className="font-semibold text-green-600">
-            {appointments.reduce((sum, a) => sum + a.duration_minutes, 0)}
+            {appointments.filter(isActiveAppointment).reduce((sum, a) => sum + a.duration_minutes, 0)}
           </span>
         </div>
       </div>
@@ -1,10 +1,16 @@
 import React, { useEffect, useRef, useState } from 'react';
-import type { Appointment, Break, ScheduleItem } from '../types';
+import type { Appointment, Break, ScheduleItem, TimeOff } from '../types';
 import { parseISO, format } from 'date-fns';
+import { clipTimeOffToDay } from '../services/timeOff';
+import { TIME_OFF_HATCH_STYLE } from './TimeOffBlock';
+import { getStatusMiniMapClass } from './AppointmentBlock';
+import { STATUS_LABELS, getStatus, isActiveAppointment } from '../services/appointmentStatus';
 
 interface ScheduleMiniMapHorizontalProps {
   appointments: Appointment[];
   breaks: Break[];
+  timeOff?: TimeOff[];
+  selectedDate: Date;
   startHour?: number;
   endHour?: number;
   scheduleContainerId: string;
@@ -17,6 +23,8 @@ interface ScheduleMiniMapHorizontalProps {
 export const ScheduleMiniMapHorizontal: React.FC<ScheduleMiniMapHorizontalProps> = ({
   appointments,
   breaks,
+  timeOff = [],
+  selectedDate,
   startHour = 8,
   endHour = 19,
   scheduleContainerId,
@@ -252,6 +260,24 @@ export const ScheduleMiniMapHorizontal: React.FC<ScheduleMiniMapHorizontalProps>
 
         {/* Time range container */}
         <div className="absolute top-0 left-0 right-0 bottom-0">
+          {/* Time off */}
+          {timeOff.map((block) => {
+            const clipped = clipTimeOffToDay(block, selectedDate, startHour, endHour);
+            if (!clipped) return null;
+            return (
+              <div
+                key={block.id}
+                className="absolute top-0 bottom-0 bg-gray-200"
+                style={{
+                  ...TIME_OFF_HATCH_STYLE,
+                  left: `${clipped.from * pixelsPerHourPercent}%`,
+                  width: `${(clipped.to - clipped.from) * pixelsPerHourPercent}%`,
+                }}
+                title={block.reason || 'Недоступно'}
+              />
+            );
+          })}
+
           {/* Appointments */}
           {appointments.map((appointment) => {
             const { left, width } = getItemPosition(appointment);
@@ -263,9 +289,13 @@ export const ScheduleMiniMapHorizontal: React.FC<ScheduleMiniMapHorizontalProps>
                   left: `${left}%`, 
                   width: `${width}%`,
                 }}
-                title={`${appointment.client_name} - ${format(parseISO(appointment.start_time), 'HH:mm')}`}
+                title={`${appointment.client_name} - ${format(parseISO(appointment.start_time), 'HH:mm')}${isActiveAppointment(appointment) ? '' : ` (${STATUS_LABELS[getStatus(appointment)]})`}`}
               >
-                <div className="h-full bg-primary-500 border border-primary-700 rounded-sm" />
+                <div
+                  className={`h-full ${getStatusMiniMapClass(appointment)} border rounded-sm ${
+                    isActiveAppointment(appointment) ? 'border-primary-700' : 'border-dashed border-gray-400'
+                  }`}
+                />
               </div>
             );
           })}
@@ -1,28 +1,82 @@
-import React, { useState, useEffect } from 'react';
-import type { Appointment, Break, ScheduleItem } from '../types';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import type { Appointment, AppointmentFormData, AppointmentStatus, Break, NewAppointment, ScheduleDiff, ScheduleItem, ScheduleViewMode, SeriesScope, Service, SyncStatus, TimeOff } from '../types';
 import { AppointmentBlock } from './AppointmentBlock';
 import { BreakBlock } from './BreakBlock';
 import { ScheduleMiniMap } from './ScheduleMiniMap';
+import { TIME_OFF_HATCH_STYLE, TimeOffBlock } from './TimeOffBlock';
+import { ViewModeToggle } from './ViewModeToggle';
+import { QuickCreatePopover } from './QuickCreatePopover';
+import { useResize } from '../hooks/useResize';
+import { useDragDrop } from '../hooks/useDragDrop';
 import { parseISO, format, setHours, setMinutes, addDays, subDays, startOfDay, isSameDay, isToday, startOfMonth, endOfMonth, startOfWeek, endOfWeek, eachDayOfInterval, isSameMonth, addMonths, subMonths } from 'date-fns';
 import { uk } from 'date-fns/locale';
+import { formatHour } from '../services/workingHours';
+import { clipTimeOffToDay, findTimeOffOverlap, getTimeOffForDay } from '../services/timeOff';
+import { clashesWithAppointment, findService } from '../services/serviceCatalog';
+import { buildStatusUpdate, isActiveAppointment } from '../services/appointmentStatus';
 
 interface ScheduleViewProps {
   appointments: Appointment[];
   breaks: Break[];
+  timeOff?: TimeOff[];
+  services?: Service[]; // Whole catalog, for block colors and buffers
   selectedDate: Date;
   onDateChange: (date: Date) => void;
+  onPrefetchDate?: (date: Date) => void;
   onUpdateAppointment: (id: string, updates: Partial<Appointment>) => void;
   onUpdateBreak: (id: string, updates: Partial<Break>) => void;
   onDeleteAppointment: (id: string) => void;
   onDeleteBreak: (id: string) => void;
+  onDeleteTimeOff?: (id: string) => void;
+  onCalendarMonthChange?: (month: Date) => void;
+  onViewModeChange?: (mode: ScheduleViewMode) => void;
+  onApplyDiff: (diff: ScheduleDiff, historyLabel?: string) => Promise<void>;
   onEditAppointment: (appointment: Appointment) => void;
+  onOpenClientProfile?: (appointment: Appointment) => void;
+  onDeleteOccurrences?: (appointment: Appointment, scope: SeriesScope) => void;
+  onQuickCreate?: (appointment: AppointmentFormData) => void; // Enables creating from empty slots
+  onMoveAppointmentsToDate?: (appointments: Appointment[], date: Date) => Promise<boolean>; // Resolves whether they moved
   pauseAutoGeneration: () => void;
   resumeAutoGeneration: () => void;
+  mutationStatus?: Record<string, SyncStatus>;
   startHour?: number;
   endHour?: number;
+  isDayOff?: boolean;
   pixelsPerHour?: number;
 }
 
+/**
+ * Diff moving the given items (appointments and breaks) by the same amount
+ */
+const buildShiftDiff = (items: ScheduleItem[], minutesShift: number): ScheduleDiff => {
+  const shift = (item: ScheduleItem) => ({
+    id: item.id,
+    updates: {
+      start_time: new Date(parseISO(item.start_time).getTime() + minutesShift * 60000).toISOString(),
+    },
+  });
+
+  return {
+    appointments: { update: items.filter((item) => 'client_name' in item).map(shift) },
+    breaks: { update: items.filter((item) => !('client_name' in item)).map(shift) },
+  };
+};
+
+/**
+ * New booking of the same client, service and notes at another time
+ */
+const buildCopy = (source: Appointment, start: Date): NewAppointment => ({
+  client_name: source.client_name,
+  client_id: source.client_id ?? null,
+  service_id: source.service_id ?? null,
+  notes: source.notes,
+  start_time: start.toISOString(),
+  duration_minutes: source.duration_minutes,
+  end_time: '', // Will be calculated
+  status: 'booked',
+  status_timestamps: { booked: new Date().toISOString() },
+});
+
 /**
  * Main schedule view component with drag-and-drop timeline
  * Displays appointments and breaks on a vertical timeline
@@ -30,32 +84,128 @@ interface ScheduleViewProps {
 export const ScheduleView: React.FC<ScheduleViewProps> = ({
   appointments,
   breaks,
+  timeOff = [],
+  services = [],
   selectedDate,
   onDateChange,
+  onPrefetchDate,
   onUpdateAppointment,
   onUpdateBreak,
   onDeleteAppointment,
   onDeleteBreak,
+  onDeleteTimeOff,
+  onCalendarMonthChange,
+  onViewModeChange,
+  onApplyDiff,
   onEditAppointment,
+  onOpenClientProfile,
+  onDeleteOccurrences,
+  onQuickCreate,
+  onMoveAppointmentsToDate,
   pauseAutoGeneration,
   resumeAutoGeneration,
+  mutationStatus = {},
   startHour = 8,
   endHour = 19,
+  isDayOff = false,
   pixelsPerHour = 500,
 }) => {
-  const [dragItem, setDragItem] = useState<{
-    id: string;
-    type: 'appointment' | 'break';
-    startY: number;
-    startTime: string;
-    hasMoved: boolean;
+  // Empty slot picked for a new appointment (minutes from the start of the day)
+  const [quickCreate, setQuickCreate] = useState<{ minutesFromStart: number } | null>(null);
+  const longPressTimer = useRef<number | null>(null);
+
+  // Live duration of the item being resized, and whether following items move along
+  const [resizePreview, setResizePreview] = useState<number | null>(null);
+  const [pushFollowingOnResize, setPushFollowingOnResize] = useState(false);
+
+  // Multi-selection of appointments, and the lasso being drawn (pixels from the top of the timeline)
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [lasso, setLasso] = useState<{
+    fromY: number;
+    toY: number;
+    additive: boolean;
+    isActive: boolean;
   } | null>(null);
+  // The lasso as of the last mouse move, for the window listeners that live through the whole drag
+  const lassoRef = useRef(lasso);
+  const [groupShiftMinutes, setGroupShiftMinutes] = useState(15);
+  const [moveTargetDate, setMoveTargetDate] = useState('');
+  const timelineRef = useRef<HTMLDivElement>(null);
+  const suppressSlotClick = useRef(false);
+  const selectedAppointments = useMemo(
+    () => appointments.filter((apt) => selectedIds.has(apt.id)),
+    [appointments, selectedIds]
+  );
+
+  // Appointments copied or cut for pasting, and a paste waiting for confirmation
+  // (at the copied times, or with the earliest one at a slot - minutes from the start of the day)
+  const [clipboard, setClipboard] = useState<{ appointments: Appointment[]; isCut: boolean } | null>(null);
+  const [pasteTarget, setPasteTarget] = useState<{ slotMinutes: number | null } | null>(null);
 
   const [showCalendar, setShowCalendar] = useState(false);
   const [currentTimePosition, setCurrentTimePosition] = useState<number | null>(null);
 
   const totalHours = endHour - startHour;
   const scheduleHeight = totalHours * pixelsPerHour;
+  const workingHoursLabel = `${formatHour(startHour)} - ${formatHour(endHour)}`;
+  const dayTimeOff = getTimeOffForDay(timeOff, selectedDate);
+
+  /**
+   * Check if an item placed at [start, end) fits the working hours of the selected day
+   */
+  const isWithinWorkingHours = (start: Date, end: Date): boolean => {
+    if (isDayOff) return false;
+
+    const minTime = new Date(start);
+    minTime.setHours(startHour, 0, 0, 0);
+    const maxTime = new Date(start);
+    maxTime.setHours(endHour, 0, 0, 0);
+    return start >= minTime && end <= maxTime;
+  };
+
+  /**
+   * Alert text for a move or resize (`action`) that leaves the working hours
+   */
+  const outOfHoursMessage = (subject: string, action: string): string =>
+    isDayOff
+      ? `Неможливо ${action}: це вихідний день`
+      : `Неможливо ${action}: ${subject} за межі робочого часу (${workingHoursLabel})`;
+
+  /**
+   * Why an item can't be placed at [start, end) on the selected day (null if it can);
+   * `subject` names what is being moved, for the out-of-hours message
+   */
+  const getPlacementError = (
+    start: Date,
+    end: Date,
+    subject: string,
+    action: string = 'перемістити'
+  ): string | null => {
+    if (!isWithinWorkingHours(start, end)) return outOfHoursMessage(subject, action);
+
+    const blocked = findTimeOffOverlap(timeOff, start, end);
+    if (blocked) {
+      return `Неможливо ${action}: цей час недоступний${blocked.reason ? ` (${blocked.reason})` : ''}`;
+    }
+    return null;
+  };
+
+  /**
+   * First placement error among items shifted together, or null if all of them fit
+   */
+  const getBulkShiftError = (
+    items: ScheduleItem[],
+    minutesShift: number,
+    action: string = 'перемістити'
+  ): string | null => {
+    for (const item of items) {
+      const newStartTime = new Date(parseISO(item.start_time).getTime() + minutesShift * 60000);
+      const newEndTime = new Date(newStartTime.getTime() + item.duration_minutes * 60000);
+      const error = getPlacementError(newStartTime, newEndTime, 'деякі записи вийдуть', action);
+      if (error) return error;
+    }
+    return null;
+  };
 
   /**
    * Update current time position
@@ -124,7 +274,9 @@ export const ScheduleView: React.FC<ScheduleViewProps> = ({
   };
 
   /**
-   * Check if appointment overlaps with other appointments (not breaks)
+   * Check if appointment overlaps with other appointments (not breaks),
+   * including the buffers their services need around them
+   * (cancelled and no-show appointments don't take up time)
    */
   const appointmentOverlapsAppointment = (
     appointmentId: string,
@@ -132,15 +284,13 @@ export const ScheduleView: React.FC<ScheduleViewProps> = ({
     durationMinutes: number
   ): boolean => {
     const newEndTime = new Date(newStartTime.getTime() + durationMinutes * 60000);
+    const moving = appointments.find((apt) => apt.id === appointmentId);
+    const service = findService(services, moving?.service_id);
     
     // Check all appointments
     for (const apt of appointments) {
-      if (apt.id === appointmentId) continue;
-      const aptStart = parseISO(apt.start_time);
-      const aptEnd = parseISO(apt.end_time);
-      
-      // Check if time ranges overlap
-      if (newStartTime < aptEnd && newEndTime > aptStart) {
+      if (apt.id === appointmentId || !isActiveAppointment(apt)) continue;
+      if (clashesWithAppointment(newStartTime, newEndTime, service, apt, services)) {
         return true;
       }
     }
@@ -158,8 +308,8 @@ export const ScheduleView: React.FC<ScheduleViewProps> = ({
   ): boolean => {
     const newEndTime = new Date(newStartTime.getTime() + durationMinutes * 60000);
     
-    // Check all appointments
-    for (const apt of appointments) {
+    // Check all appointments that still take up their time
+    for (const apt of appointments.filter(isActiveAppointment)) {
       const aptStart = parseISO(apt.start_time);
       const aptEnd = parseISO(apt.end_time);
       
@@ -189,6 +339,17 @@ export const ScheduleView: React.FC<ScheduleViewProps> = ({
     id: string,
     minutesShift: number
   ): boolean => {
+    const item = appointments.find(a => a.id === id) || breaks.find(b => b.id === id);
+    if (!item) return false;
+
+    const currentStartTime = parseISO(item.start_time);
+    return canPlaceAt(id, new Date(currentStartTime.getTime() + minutesShift * 60000));
+  };
+
+  /**
+   * Check if an item can start at a new time
+   */
+  const canPlaceAt = (id: string, newStartTime: Date): boolean => {
     // Find the item
     const appointment = appointments.find(a => a.id === id);
     const breakItem = breaks.find(b => b.id === id);
@@ -196,19 +357,11 @@ export const ScheduleView: React.FC<ScheduleViewProps> = ({
     
     if (!item) return false;
     
-    const currentStartTime = parseISO(item.start_time);
-    const newStartTime = new Date(currentStartTime.getTime() + minutesShift * 60000);
     const newEndTime = new Date(newStartTime.getTime() + item.duration_minutes * 60000);
     
-    // Check if new start time is before 8:00
-    const minTime = new Date(newStartTime);
-    minTime.setHours(8, 0, 0, 0);
-    if (newStartTime < minTime) return false;
-    
-    // Check if new end time exceeds 19:00
-    const maxTime = new Date(newStartTime);
-    maxTime.setHours(19, 0, 0, 0);
-    if (newEndTime > maxTime) return false;
+    // Check that the item stays within working hours and out of time off
+    const subject = appointment ? 'запис виходить' : 'перерва виходить';
+    if (getPlacementError(newStartTime, newEndTime, subject)) return false;
     
     // Check for overlaps based on item type
     if (appointment) {
@@ -223,31 +376,55 @@ export const ScheduleView: React.FC<ScheduleViewProps> = ({
   };
 
   /**
-   * Convert Y position to time with constraints (7:00 - 24:00)
+   * Move a dragged item to where it was dropped
+   * Invalid drops (already shown red while dragging) leave the item where it was.
    */
-  const yToTime = (y: number, containerTop: number, scrollTop: number): Date => {
-    const relativeY = y - containerTop + scrollTop;
-    const hours = relativeY / pixelsPerHour;
-    const totalMinutes = Math.round((hours * 60) / 5) * 5; // Snap to 5 minutes
-
-    const date = new Date();
-    date.setHours(startHour, 0, 0, 0);
-    date.setMinutes(date.getMinutes() + totalMinutes);
-    
-    // Constrain to 8:00 - 19:00
-    const minTime = new Date();
-    minTime.setHours(8, 0, 0, 0);
-    const maxTime = new Date();
-    maxTime.setHours(19, 0, 0, 0);
-    
-    if (date < minTime) return minTime;
-    if (date > maxTime) return maxTime;
-    
-    return date;
+  const handleDrop = async (id: string, type: 'appointment' | 'break', newStartTime: Date) => {
+    const item = type === 'appointment'
+      ? appointments.find(a => a.id === id)
+      : breaks.find(b => b.id === id);
+    const group = type === 'appointment' ? getDragGroup(id) : [];
+
+    try {
+      if (!item) return;
+      const minutesShift = Math.round((newStartTime.getTime() - parseISO(item.start_time).getTime()) / 60000);
+      if (minutesShift === 0) return;
+
+      if (group.length > 0) {
+        // The whole selection moves by the same amount
+        if (getGroupShiftError(group, minutesShift)) return;
+        await onApplyDiff(buildShiftDiff(group, minutesShift), 'Переміщення вибраних записів');
+        return;
+      }
+
+      if (!canPlaceAt(id, newStartTime)) return;
+
+      if (type === 'appointment') {
+        // Auto-generation will handle breaks once resumed
+        await onUpdateAppointment(id, { start_time: newStartTime.toISOString() });
+      } else {
+        await onUpdateBreak(id, { start_time: newStartTime.toISOString() });
+      }
+    } catch (err) {
+      console.error('Error moving item:', err);
+    } finally {
+      // Resume auto-generation - this will recalculate all breaks
+      resumeAutoGeneration();
+    }
   };
 
+  const { dragState, handleDragStart: startDrag } = useDragDrop({
+    onDrop: handleDrop,
+    onCancel: resumeAutoGeneration,
+    selectedDate,
+    startHour,
+    endHour,
+    pixelsPerHour,
+    scrollContainerId: 'schedule-container',
+  });
+
   /**
-   * Handle drag start
+   * Handle drag start; auto-generation stays paused until the drag ends
    */
   const handleDragStart = (
     id: string,
@@ -255,8 +432,59 @@ export const ScheduleView: React.FC<ScheduleViewProps> = ({
     startTime: string,
     clientY: number
   ) => {
+    const item = type === 'appointment'
+      ? appointments.find(a => a.id === id)
+      : breaks.find(b => b.id === id);
+    if (!item) return;
+
     pauseAutoGeneration();
-    setDragItem({ id, type, startY: clientY, startTime, hasMoved: false });
+    startDrag(id, type, startTime, item.duration_minutes, clientY);
+  };
+
+  /**
+   * Selected appointments that move along when `id` is dragged
+   * (empty unless it is selected together with others)
+   */
+  const getDragGroup = (id: string): Appointment[] =>
+    selectedIds.has(id) && selectedAppointments.length > 1 ? selectedAppointments : [];
+
+  /**
+   * Where the dragged item (and the rest of its selection) would land, if it has been moved
+   */
+  const getDragPreview = (): {
+    items: { id: string; start: Date; end: Date }[];
+    isValid: boolean;
+  } | null => {
+    if (!dragState.itemId || !dragState.hasMoved || !dragState.previewTime) return null;
+
+    const start = parseISO(dragState.previewTime);
+    const group = dragState.itemType === 'appointment' ? getDragGroup(dragState.itemId) : [];
+    if (group.length === 0) {
+      return {
+        items: [{
+          id: dragState.itemId,
+          start,
+          end: new Date(start.getTime() + dragState.durationMinutes * 60000),
+        }],
+        isValid: canPlaceAt(dragState.itemId, start),
+      };
+    }
+
+    const dragged = group.find((apt) => apt.id === dragState.itemId);
+    const minutesShift = dragged
+      ? Math.round((start.getTime() - parseISO(dragged.start_time).getTime()) / 60000)
+      : 0;
+    return {
+      items: group.map((apt) => {
+        const movedStart = new Date(parseISO(apt.start_time).getTime() + minutesShift * 60000);
+        return {
+          id: apt.id,
+          start: movedStart,
+          end: new Date(movedStart.getTime() + apt.duration_minutes * 60000),
+        };
+      }),
+      isValid: getGroupShiftError(group, minutesShift) === null,
+    };
   };
 
   /**
@@ -277,19 +505,10 @@ export const ScheduleView: React.FC<ScheduleViewProps> = ({
     console.log('[Move] Current time:', appointment.start_time);
     console.log('[Move] New time:', newStartTime.toISOString());
 
-    // Check if new start time is before 8:00
-    const minTime = new Date(newStartTime);
-    minTime.setHours(8, 0, 0, 0);
-    if (newStartTime < minTime) {
-      alert('Неможливо перемістити: запис виходить за межі робочого часу (8:00)');
-      return;
-    }
-
-    // Check if new end time exceeds 19:00
-    const maxTime = new Date(newStartTime);
-    maxTime.setHours(19, 0, 0, 0);
-    if (newEndTime > maxTime) {
-      alert('Неможливо перемістити: запис виходить за межі робочого часу (до 19:00)');
+    // Check that the appointment stays within working hours and out of time off
+    const placementError = getPlacementError(newStartTime, newEndTime, 'запис виходить');
+    if (placementError) {
+      alert(placementError);
       return;
     }
 
@@ -318,19 +537,19 @@ export const ScheduleView: React.FC<ScheduleViewProps> = ({
   };
 
   /**
-   * Get all items touching after a given appointment (including the appointment itself)
+   * Get all items touching after a given appointment or break (including the item itself)
    * Items are "touching" if they're connected via breaks or directly adjacent
    */
-  const getTouchingItemsAfter = (appointmentId: string): ScheduleItem[] => {
-    const appointment = appointments.find(a => a.id === appointmentId);
-    if (!appointment) return [];
+  const getTouchingItemsAfter = (itemId: string): ScheduleItem[] => {
+    const item = appointments.find(a => a.id === itemId) ?? breaks.find(b => b.id === itemId);
+    if (!item) return [];
 
     const allItems = [...appointments, ...breaks].sort((a, b) =>
       a.start_time.localeCompare(b.start_time)
     );
 
-    const touchingItems: ScheduleItem[] = [appointment];
-    let currentEndTime = parseISO(appointment.end_time);
+    const touchingItems: ScheduleItem[] = [item];
+    let currentEndTime = parseISO(item.end_time);
 
     // Find all items that touch after this appointment
     while (true) {
@@ -381,6 +600,36 @@ export const ScheduleView: React.FC<ScheduleViewProps> = ({
     return touchingItems;
   };
 
+  /**
+   * Move an appointment to another status
+   * Restoring a cancelled or no-show appointment needs its time to still be bookable:
+   * inside the working hours, out of time off and free of other appointments.
+   */
+  const handleChangeStatus = (id: string, status: AppointmentStatus) => {
+    const appointment = appointments.find((apt) => apt.id === id);
+    if (!appointment) return;
+
+    if (!isActiveAppointment(appointment)) {
+      const start = parseISO(appointment.start_time);
+      const placementError = getPlacementError(
+        start,
+        parseISO(appointment.end_time),
+        'запис виходить',
+        'відновити запис'
+      );
+      if (placementError) {
+        alert(placementError);
+        return;
+      }
+      if (appointmentOverlapsAppointment(id, start, appointment.duration_minutes)) {
+        alert('Неможливо відновити запис: цей час уже зайнятий');
+        return;
+      }
+    }
+
+    onUpdateAppointment(id, buildStatusUpdate(appointment, status));
+  };
+
   /**
    * Handle break start time update with constraints and overlap check
    */
@@ -392,19 +641,10 @@ export const ScheduleView: React.FC<ScheduleViewProps> = ({
     const newStartTime = new Date(currentStartTime.getTime() + minutesShift * 60000);
     const newEndTime = new Date(newStartTime.getTime() + breakItem.duration_minutes * 60000);
 
-    // Check if new start time is before 8:00
-    const minTime = new Date(newStartTime);
-    minTime.setHours(8, 0, 0, 0);
-    if (newStartTime < minTime) {
-      alert('Неможливо перемістити: перерва виходить за межі робочого часу (8:00)');
-      return;
-    }
-
-    // Check if new end time exceeds 19:00
-    const maxTime = new Date(newStartTime);
-    maxTime.setHours(19, 0, 0, 0);
-    if (newEndTime > maxTime) {
-      alert('Неможливо перемістити: перерва виходить за межі робочого часу (до 19:00)');
+    // Check that the break stays within working hours and out of time off
+    const placementError = getPlacementError(newStartTime, newEndTime, 'перерва виходить');
+    if (placementError) {
+      alert(placementError);
       return;
     }
 
@@ -424,28 +664,8 @@ export const ScheduleView: React.FC<ScheduleViewProps> = ({
     const appointment = appointments.find(a => a.id === appointmentId);
     if (!appointment) return false;
 
-    // Get all touching items after this appointment
-    const touchingItems = getTouchingItemsAfter(appointmentId);
-
-    // Check if any item would go out of bounds
-    for (const item of touchingItems) {
-      const currentStartTime = parseISO(item.start_time);
-      const newStartTime = new Date(currentStartTime.getTime() + minutesShift * 60000);
-      const duration = item.duration_minutes;
-      const newEndTime = new Date(newStartTime.getTime() + duration * 60000);
-
-      // Check if new start time is before 7:00
-      const minTime = new Date(newStartTime);
-      minTime.setHours(7, 0, 0, 0);
-      if (newStartTime < minTime) return false;
-
-      // Check if new end time exceeds midnight (24:00)
-      const maxTime = new Date(newStartTime);
-      maxTime.setHours(24, 0, 0, 0);
-      if (newEndTime > maxTime) return false;
-    }
-
-    return true;
+    // Check that all touching items after this appointment stay bookable
+    return getBulkShiftError(getTouchingItemsAfter(appointmentId), minutesShift) === null;
   };
 
   /**
@@ -455,28 +675,8 @@ export const ScheduleView: React.FC<ScheduleViewProps> = ({
     const appointment = appointments.find(a => a.id === appointmentId);
     if (!appointment) return false;
 
-    // Get all touching items before this appointment
-    const touchingItems = getTouchingItemsBefore(appointmentId);
-
-    // Check if any item would go out of bounds
-    for (const item of touchingItems) {
-      const currentStartTime = parseISO(item.start_time);
-      const newStartTime = new Date(currentStartTime.getTime() + minutesShift * 60000);
-      const duration = item.duration_minutes;
-      const newEndTime = new Date(newStartTime.getTime() + duration * 60000);
-
-      // Check if new start time is before 7:00
-      const minTime = new Date(newStartTime);
-      minTime.setHours(7, 0, 0, 0);
-      if (newStartTime < minTime) return false;
-
-      // Check if new end time exceeds midnight (24:00)
-      const maxTime = new Date(newStartTime);
-      maxTime.setHours(24, 0, 0, 0);
-      if (newEndTime > maxTime) return false;
-    }
-
-    return true;
+    // Check that all touching items before this appointment stay bookable
+    return getBulkShiftError(getTouchingItemsBefore(appointmentId), minutesShift) === null;
   };
 
   /**
@@ -486,8 +686,9 @@ export const ScheduleView: React.FC<ScheduleViewProps> = ({
     const appointment = appointments.find(a => a.id === appointmentId);
     if (!appointment) return;
 
-    if (!canBulkShiftAfter(appointmentId, minutesShift)) {
-      alert('Неможливо перемістити: деякі записи війдуть за межі робочого часу (8:00 - 19:00)');
+    const shiftError = getBulkShiftError(getTouchingItemsAfter(appointmentId), minutesShift);
+    if (shiftError) {
+      alert(shiftError);
       return;
     }
 
@@ -495,21 +696,9 @@ export const ScheduleView: React.FC<ScheduleViewProps> = ({
 
     try {
       // Get all touching items after this appointment (including current)
+      // and move them together (breaks travel along with the appointments)
       const touchingItems = getTouchingItemsAfter(appointmentId);
-
-      // Update all items (both appointments and breaks) in reverse order
-      for (const item of [...touchingItems].reverse()) {
-        const currentStartTime = parseISO(item.start_time);
-        const newStartTime = new Date(currentStartTime.getTime() + minutesShift * 60000);
-        
-        if ('client_name' in item) {
-          // It's an appointment
-          await onUpdateAppointment(item.id, { start_time: newStartTime.toISOString() });
-        } else {
-          // It's a break - move it along with appointments
-          await onUpdateBreak(item.id, { start_time: newStartTime.toISOString() });
-        }
-      }
+      await onApplyDiff(buildShiftDiff(touchingItems, minutesShift));
       
       // No need for auto-generation since we moved everything together
     } catch (err) {
@@ -526,8 +715,9 @@ export const ScheduleView: React.FC<ScheduleViewProps> = ({
     const appointment = appointments.find(a => a.id === appointmentId);
     if (!appointment) return;
 
-    if (!canBulkShiftBefore(appointmentId, minutesShift)) {
-      alert('Неможливо перемістити: деякі записи вийдуть за межі робочого часу (8:00 - 19:00)');
+    const shiftError = getBulkShiftError(getTouchingItemsBefore(appointmentId), minutesShift);
+    if (shiftError) {
+      alert(shiftError);
       return;
     }
 
@@ -535,21 +725,9 @@ export const ScheduleView: React.FC<ScheduleViewProps> = ({
 
     try {
       // Get all touching items before this appointment (including current)
+      // and move them together (breaks travel along with the appointments)
       const touchingItems = getTouchingItemsBefore(appointmentId);
-
-      // Update all items (both appointments and breaks) in reverse order
-      for (const item of [...touchingItems].reverse()) {
-        const currentStartTime = parseISO(item.start_time);
-        const newStartTime = new Date(currentStartTime.getTime() + minutesShift * 60000);
-        
-        if ('client_name' in item) {
-          // It's an appointment
-          await onUpdateAppointment(item.id, { start_time: newStartTime.toISOString() });
-        } else {
-          // It's a break - move it along with appointments
-          await onUpdateBreak(item.id, { start_time: newStartTime.toISOString() });
-        }
-      }
+      await onApplyDiff(buildShiftDiff(touchingItems, minutesShift));
       
       // No need for auto-generation since we moved everything together
     } catch (err) {
@@ -560,102 +738,456 @@ export const ScheduleView: React.FC<ScheduleViewProps> = ({
   };
 
   /**
-   * Handle mouse/touch move
+   * Why selected appointments can't all move by `minutesShift` (null if they can)
+   * They are checked against each other's new places, so only clashes with the rest count
+   */
+  const getGroupShiftError = (group: Appointment[], minutesShift: number): string | null => {
+    const placementError = getBulkShiftError(group, minutesShift);
+    if (placementError) return placementError;
+
+    const groupIds = new Set(group.map((apt) => apt.id));
+    const others = appointments.filter((apt) => !groupIds.has(apt.id) && isActiveAppointment(apt));
+    const clashes = group.filter(isActiveAppointment).some((apt) => {
+      const newStartTime = new Date(parseISO(apt.start_time).getTime() + minutesShift * 60000);
+      const newEndTime = new Date(newStartTime.getTime() + apt.duration_minutes * 60000);
+      const service = findService(services, apt.service_id);
+      return others.some((other) => clashesWithAppointment(newStartTime, newEndTime, service, other, services));
+    });
+    return clashes ? 'Неможливо перемістити: записи перетинаються з іншими записами' : null;
+  };
+
+  const clearSelection = () => setSelectedIds(new Set());
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  /**
+   * Shift all selected appointments by the same amount (breaks are regenerated afterwards)
+   */
+  const handleGroupShift = async (minutesShift: number) => {
+    const shiftError = getGroupShiftError(selectedAppointments, minutesShift);
+    if (shiftError) {
+      alert(shiftError);
+      return;
+    }
+
+    pauseAutoGeneration();
+
+    try {
+      await onApplyDiff(buildShiftDiff(selectedAppointments, minutesShift), 'Зсув вибраних записів');
+    } catch (err) {
+      console.error('Error shifting selected appointments:', err);
+    } finally {
+      resumeAutoGeneration();
+    }
+  };
+
+  /**
+   * Move all selected appointments to the trash
    */
+  const handleGroupDelete = async () => {
+    try {
+      await onApplyDiff(
+        { appointments: { delete: selectedAppointments.map((apt) => apt.id) } },
+        'Видалення вибраних записів'
+      );
+      clearSelection();
+    } catch (err) {
+      console.error('Error deleting selected appointments:', err);
+    }
+  };
+
+  /**
+   * Move all selected appointments to the picked day, keeping their times
+   */
+  const handleGroupMoveToDate = async () => {
+    if (!onMoveAppointmentsToDate || !moveTargetDate) return;
+    const targetDate = parseISO(moveTargetDate);
+    if (isSameDay(targetDate, selectedDate)) return;
+
+    if (await onMoveAppointmentsToDate(selectedAppointments, targetDate)) {
+      clearSelection();
+    }
+  };
+
+  /**
+   * Put an appointment on the clipboard - or the whole selection, if it is part of it
+   */
+  const copyToClipboard = (id: string, isCut: boolean) => {
+    const group = selectedIds.has(id) ? selectedAppointments : appointments.filter((apt) => apt.id === id);
+    if (group.length === 0) return;
+    setClipboard({ appointments: group, isCut });
+    setPasteTarget(null);
+  };
+
+  /**
+   * Where the clipboard would be pasted on the selected day, and why it can't be (if so)
+   */
+  const getPastePlan = (): {
+    items: { source: Appointment; start: Date; end: Date }[];
+    error: string | null;
+  } | null => {
+    if (!clipboard || !pasteTarget || clipboard.appointments.length === 0) return null;
+
+    const onSelectedDate = (apt: Appointment): Date => {
+      const start = parseISO(apt.start_time);
+      const time = new Date(selectedDate);
+      time.setHours(start.getHours(), start.getMinutes(), 0, 0);
+      return time;
+    };
+    const sources = [...clipboard.appointments].sort((a, b) => a.start_time.localeCompare(b.start_time));
+    const offset = pasteTarget.slotMinutes === null
+      ? 0
+      : slotToTime(pasteTarget.slotMinutes).getTime() - onSelectedDate(sources[0]).getTime();
+
+    const items = sources.map((source) => {
+      const start = new Date(onSelectedDate(source).getTime() + offset);
+      return { source, start, end: new Date(start.getTime() + source.duration_minutes * 60000) };
+    });
+
+    // Cut appointments leave their old places, so they don't block the new ones
+    const movingIds = new Set(clipboard.isCut ? sources.map((apt) => apt.id) : []);
+    const others = appointments.filter((apt) => !movingIds.has(apt.id) && isActiveAppointment(apt));
+    let error: string | null = null;
+    for (const item of items) {
+      error = getPlacementError(item.start, item.end, 'запис виходить', 'вставити');
+      if (error) break;
+      const service = findService(services, item.source.service_id);
+      if (others.some((other) => clashesWithAppointment(item.start, item.end, service, other, services))) {
+        error = 'Неможливо вставити: запис перетинається з іншим записом';
+        break;
+      }
+    }
+    return { items, error };
+  };
+
+  /**
+   * Commit the previewed paste: copies become new bookings, cut appointments move here
+   */
+  const handleConfirmPaste = async () => {
+    const plan = getPastePlan();
+    if (!plan || !clipboard) return;
+    if (plan.error) {
+      alert(plan.error);
+      return;
+    }
+
+    pauseAutoGeneration();
+
+    try {
+      if (clipboard.isCut) {
+        await onApplyDiff(
+          {
+            appointments: {
+              update: plan.items.map(({ source, start }) => ({
+                id: source.id,
+                updates: { start_time: start.toISOString() },
+              })),
+            },
+          },
+          'Переміщення вирізаних записів'
+        );
+        // Cut appointments are pasted once
+        setClipboard(null);
+      } else {
+        await onApplyDiff(
+          { appointments: { create: plan.items.map(({ source, start }) => buildCopy(source, start)) } },
+          'Вставлення записів'
+        );
+      }
+      setPasteTarget(null);
+    } catch (err) {
+      console.error('Error pasting appointments:', err);
+      alert('Не вдалося вставити записи. Спробуйте ще раз.');
+    } finally {
+      resumeAutoGeneration();
+    }
+  };
+
+  // The keyboard listener below confirms with the latest plan without re-subscribing every render
+  const confirmPasteRef = useRef(handleConfirmPaste);
+  confirmPasteRef.current = handleConfirmPaste;
+
+  // Ctrl+C / Ctrl+X copy or cut the selection, Ctrl+V previews pasting it at the same times;
+  // Enter confirms a previewed paste and Escape drops it
   useEffect(() => {
-    const handleMove = (e: MouseEvent | TouchEvent) => {
-      if (dragItem) {
-        const clientY = e instanceof MouseEvent ? e.clientY : e.touches[0]?.clientY;
-        
-        // Mark as moved if mouse/touch has moved more than 5 pixels from start
-        if (clientY && Math.abs(clientY - dragItem.startY) > 5) {
-          setDragItem(prev => prev ? { ...prev, hasMoved: true } : null);
-        }
-        
-        // Prevent scrolling while dragging on touch devices
-        if (e instanceof TouchEvent && dragItem.hasMoved) {
-          e.preventDefault();
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.closest('input, textarea, select, [contenteditable="true"]')) return;
+
+      if (pasteTarget && (e.key === 'Enter' || e.key === 'Escape')) {
+        e.preventDefault();
+        if (e.key === 'Enter') {
+          confirmPasteRef.current();
+        } else {
+          setPasteTarget(null);
         }
+        return;
+      }
+      if (!(e.ctrlKey || e.metaKey)) return;
+
+      const key = e.key.toLowerCase();
+      if ((key === 'c' || key === 'x') && selectedAppointments.length > 0) {
+        e.preventDefault();
+        setClipboard({ appointments: selectedAppointments, isCut: key === 'x' });
+        setPasteTarget(null);
+      } else if (key === 'v' && clipboard) {
+        e.preventDefault();
+        setPasteTarget({ slotMinutes: null });
       }
     };
 
-    const handleEnd = async (e: MouseEvent | TouchEvent) => {
-      const clientY =
-        e instanceof MouseEvent ? e.clientY : e.changedTouches[0]?.clientY;
-
-      if (dragItem && clientY) {
-        // Only move if actually dragged, not just clicked
-        if (dragItem.hasMoved) {
-          const scheduleEl = document.getElementById('schedule-container');
-          if (scheduleEl) {
-            const rect = scheduleEl.getBoundingClientRect();
-            const newTime = yToTime(clientY, rect.top, scheduleEl.scrollTop);
-            
-            // Get current item to check its duration
-            const currentItem = dragItem.type === 'appointment'
-              ? appointments.find(a => a.id === dragItem.id)
-              : breaks.find(b => b.id === dragItem.id);
-            
-            if (currentItem) {
-              const newTimeISO = newTime.toISOString();
-              
-              if (dragItem.type === 'appointment') {
-                // Check for overlaps with other appointments only
-                if (appointmentOverlapsAppointment(dragItem.id, newTime, currentItem.duration_minutes)) {
-                  alert('Неможливо перемістити: запис перетинається з іншим записом');
-                  setDragItem(null);
-                  return;
-                }
-                
-                // Pause auto-generation before making changes
-                pauseAutoGeneration();
-                
-                try {
-                  // Update the appointment - auto-generation will handle breaks
-                  await onUpdateAppointment(dragItem.id, { start_time: newTimeISO });
-                } catch (err) {
-                  console.error('Error updating appointment:', err);
-                } finally {
-                  // Resume auto-generation - this will recalculate all breaks
-                  resumeAutoGeneration();
-                }
-              } else {
-                // Check for overlaps with anything for breaks
-                if (breakOverlapsAny(dragItem.id, newTime, currentItem.duration_minutes)) {
-                  alert('Неможливо перемістити: перерва перетинається з іншим записом або перервою');
-                  setDragItem(null);
-                  return;
-                }
-                
-                await onUpdateBreak(dragItem.id, { start_time: newTimeISO });
-              }
-            }
-          }
-        }
-        setDragItem(null);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [pasteTarget, clipboard, selectedAppointments]);
+
+  const updateLasso = (next: typeof lasso) => {
+    lassoRef.current = next;
+    setLasso(next);
+  };
+
+  const isLassoing = lasso !== null;
+
+  /**
+   * Start a lasso from an empty part of the timeline
+   */
+  const handleTimelineMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
+    const target = e.target as HTMLElement;
+    if (e.button !== 0 || target.closest('.appointment-block, .quick-create-popover, button, input, select')) {
+      return;
+    }
+    const y = e.clientY - e.currentTarget.getBoundingClientRect().top;
+    updateLasso({ fromY: y, toY: y, additive: e.shiftKey || e.ctrlKey || e.metaKey, isActive: false });
+  };
+
+  /**
+   * Follow the lasso; on release select the appointments it touches
+   * (a plain click on an empty slot clears the selection instead of creating there)
+   */
+  useEffect(() => {
+    if (!isLassoing) return;
+
+    const toTimelineY = (clientY: number) =>
+      clientY - (timelineRef.current?.getBoundingClientRect().top ?? 0);
+
+    const suppressNextSlotClick = () => {
+      suppressSlotClick.current = true;
+      window.setTimeout(() => {
+        suppressSlotClick.current = false;
+      }, 0);
+    };
+
+    const handleMove = (e: MouseEvent) => {
+      const prev = lassoRef.current;
+      if (!prev) return;
+      const y = toTimelineY(e.clientY);
+      updateLasso({ ...prev, toY: y, isActive: prev.isActive || Math.abs(y - prev.fromY) > 5 });
+    };
+
+    const handleEnd = () => {
+      const drawn = lassoRef.current;
+      if (!drawn) return;
+      if (drawn.isActive) {
+        const top = Math.min(drawn.fromY, drawn.toY);
+        const bottom = Math.max(drawn.fromY, drawn.toY);
+        const touched = appointments.filter((apt) => {
+          const aptTop = getItemPosition(apt);
+          const aptBottom = aptTop + (apt.duration_minutes / 60) * pixelsPerHour;
+          return aptTop < bottom && aptBottom > top;
+        });
+        setSelectedIds((prev) => new Set([...(drawn.additive ? prev : []), ...touched.map((apt) => apt.id)]));
+        suppressNextSlotClick();
+      } else if (!drawn.additive && selectedIds.size > 0) {
+        clearSelection();
+        suppressNextSlotClick();
       }
+      updateLasso(null);
     };
 
-    if (dragItem) {
-      window.addEventListener('mousemove', handleMove);
-      window.addEventListener('touchmove', handleMove, { passive: false });
-      window.addEventListener('mouseup', handleEnd);
-      window.addEventListener('touchend', handleEnd);
-
-      return () => {
-        window.removeEventListener('mousemove', handleMove);
-        window.removeEventListener('touchmove', handleMove);
-        window.removeEventListener('mouseup', handleEnd);
-        window.removeEventListener('touchend', handleEnd);
-      };
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('mouseup', handleEnd);
+
+    return () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('mouseup', handleEnd);
+    };
+  }, [isLassoing, appointments, selectedIds, pixelsPerHour]);
+
+  // A selection belongs to the day it was made on
+  useEffect(() => {
+    clearSelection();
+    setPasteTarget(null);
+    setMoveTargetDate(format(addDays(selectedDate, 1), 'yyyy-MM-dd'));
+  }, [selectedDate]);
+
+  // Escape clears the selection (unless it cancels a drag)
+  useEffect(() => {
+    if (selectedIds.size === 0) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && !dragState.isDragging && !pasteTarget) clearSelection();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [selectedIds, dragState.isDragging, pasteTarget]);
+
+  /**
+   * Why an item can't be resized to end at `end` (null if it can); `following` are the
+   * items moving along by `minutesShift`
+   */
+  const getResizeError = (
+    item: ScheduleItem,
+    end: Date,
+    following: ScheduleItem[],
+    minutesShift: number
+  ): string | null => {
+    const start = parseISO(item.start_time);
+    const isAppointment = 'client_name' in item;
+    const placementError =
+      getPlacementError(start, end, isAppointment ? 'запис виходить' : 'перерва виходить', 'змінити тривалість') ??
+      getBulkShiftError(following, minutesShift, 'змінити тривалість');
+    if (placementError) return placementError;
+
+    // What moves has to stay clear of everything that stays in place
+    const movedIds = new Set([item.id, ...following.map((f) => f.id)]);
+    const fixedAppointments = appointments.filter((apt) => isActiveAppointment(apt) && !movedIds.has(apt.id));
+    const fixedItems = [...fixedAppointments, ...breaks.filter((brk) => !movedIds.has(brk.id))];
+    const overlapsFixed = (from: Date, to: Date) =>
+      fixedItems.some((other) => from < parseISO(other.end_time) && to > parseISO(other.start_time));
+
+    if (isAppointment) {
+      // Like moves, appointments only clash with appointments (breaks are regenerated)
+      const service = findService(services, item.service_id);
+      if (fixedAppointments.some((apt) => clashesWithAppointment(start, end, service, apt, services))) {
+        return 'Неможливо змінити тривалість: запис перетинається з іншим записом';
+      }
+    } else if (overlapsFixed(start, end)) {
+      return 'Неможливо змінити тривалість: перерва перетинається з іншим записом або перервою';
     }
-  }, [dragItem, pixelsPerHour, onUpdateAppointment, onUpdateBreak]);
+
+    for (const f of following) {
+      const newStart = new Date(parseISO(f.start_time).getTime() + minutesShift * 60000);
+      const newEnd = new Date(newStart.getTime() + f.duration_minutes * 60000);
+      if (overlapsFixed(newStart, newEnd)) {
+        return 'Неможливо змінити тривалість: наступні записи перетнуться з іншими';
+      }
+    }
+    return null;
+  };
+
+  /**
+   * Change the duration of an appointment or break; when pushing is on, the items
+   * touching its end move by the same amount (as the bulk shift does)
+   */
+  const handleResize = async (id: string, newDuration: number) => {
+    const appointment = appointments.find((apt) => apt.id === id);
+    const item = appointment ?? breaks.find((brk) => brk.id === id);
+    if (!item || newDuration === item.duration_minutes) return;
+
+    const minutesShift = newDuration - item.duration_minutes;
+    const end = new Date(parseISO(item.start_time).getTime() + newDuration * 60000);
+    const following = pushFollowingOnResize ? getTouchingItemsAfter(id).slice(1) : [];
+
+    const resizeError = getResizeError(item, end, following, minutesShift);
+    if (resizeError) {
+      alert(resizeError);
+      return;
+    }
+
+    pauseAutoGeneration();
+
+    try {
+      if (following.length === 0) {
+        await (appointment
+          ? onUpdateAppointment(id, { duration_minutes: newDuration })
+          : onUpdateBreak(id, { duration_minutes: newDuration }));
+      } else {
+        const diff = buildShiftDiff(following, minutesShift);
+        if (appointment) {
+          diff.appointments!.update!.push({ id, updates: { duration_minutes: newDuration } });
+        } else {
+          diff.breaks!.update!.push({ id, updates: { duration_minutes: newDuration, is_manual: true } });
+        }
+        await onApplyDiff(diff);
+      }
+    } catch (err) {
+      console.error('Error resizing item:', err);
+    } finally {
+      resumeAutoGeneration();
+    }
+  };
+
+  const { resizeState, handleResizeStart, handleResizeMove, handleResizeEnd, handleResizeCancel } =
+    useResize(handleResize, pixelsPerHour);
+
+  /**
+   * Follow the pointer while resizing (mouse and touch), committing on release
+   */
+  useEffect(() => {
+    if (!resizeState.isResizing) return;
+
+    const getClientY = (e: MouseEvent | TouchEvent) =>
+      'touches' in e ? (e.touches[0] ?? e.changedTouches[0])?.clientY : e.clientY;
+
+    const handleMove = (e: MouseEvent | TouchEvent) => {
+      const clientY = getClientY(e);
+      if (clientY === undefined) return;
+      // Prevent scrolling while resizing on touch devices
+      if ('touches' in e) e.preventDefault();
+      setResizePreview(handleResizeMove(clientY) ?? null);
+    };
+
+    const handleEnd = (e: MouseEvent | TouchEvent) => {
+      const clientY = getClientY(e);
+      setResizePreview(null);
+      if (clientY === undefined) {
+        handleResizeCancel();
+      } else {
+        handleResizeEnd(clientY);
+      }
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Escape') return;
+      setResizePreview(null);
+      handleResizeCancel();
+    };
+
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('touchmove', handleMove, { passive: false });
+    window.addEventListener('mouseup', handleEnd);
+    window.addEventListener('touchend', handleEnd);
+    window.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('touchmove', handleMove);
+      window.removeEventListener('mouseup', handleEnd);
+      window.removeEventListener('touchend', handleEnd);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [resizeState.isResizing, handleResizeMove, handleResizeEnd, handleResizeCancel]);
+
+  /**
+   * Duration to draw an item with (the live one while it is being resized)
+   */
+  const getPreviewDuration = (id: string): number | undefined =>
+    resizeState.itemId === id && resizePreview !== null ? resizePreview : undefined;
 
   /**
    * Check if a time (in minutes from start) falls within any block
+   * (cancelled and no-show appointments leave their time free)
    */
   const isTimeInBlock = (minutesFromStart: number): boolean => {
-    const allBlocks = [...appointments, ...breaks];
+    const allBlocks = [...appointments.filter(isActiveAppointment), ...breaks];
     
     for (const block of allBlocks) {
       const blockStart = parseISO(block.start_time);
@@ -673,6 +1205,125 @@ export const ScheduleView: React.FC<ScheduleViewProps> = ({
     return false;
   };
 
+  /**
+   * Time of a slot on the selected day
+   */
+  const slotToTime = (minutesFromStart: number): Date => {
+    const time = new Date(selectedDate);
+    time.setHours(startHour, minutesFromStart, 0, 0);
+    return time;
+  };
+
+  /**
+   * Why a new appointment of the given service can't be booked at [start, end), or null if it can
+   */
+  const getQuickCreateError = (start: Date, end: Date, serviceId: string | null): string | null => {
+    if (!isWithinWorkingHours(start, end)) {
+      return `Запис виходить за межі робочого часу (до ${formatHour(endHour)})`;
+    }
+    const blocked = findTimeOffOverlap(timeOff, start, end);
+    if (blocked) {
+      return `Неможливо створити запис: цей час недоступний${blocked.reason ? ` (${blocked.reason})` : ''}`;
+    }
+    const service = findService(services, serviceId);
+    const clashes = appointments
+      .filter(isActiveAppointment)
+      .some((apt) => clashesWithAppointment(start, end, service, apt, services));
+    return clashes ? 'Неможливо створити запис: час перетинається з іншим записом' : null;
+  };
+
+  /**
+   * Longest booking (in 5-minute steps) of the given service from an empty slot: until the
+   * next break, or until the quick-create check fails - time off, the end of the day or
+   * another appointment with its buffers (null when the slot itself is taken)
+   */
+  const getFreeMinutesFrom = (
+    minutesFromStart: number,
+    serviceId: string | null = null
+  ): number | null => {
+    if (isDayOff || isTimeInBlock(minutesFromStart)) return null;
+
+    let freeUntil = totalHours * 60;
+    for (const block of breaks) {
+      const blockStart = parseISO(block.start_time);
+      const blockStartMinutes = (blockStart.getHours() - startHour) * 60 + blockStart.getMinutes();
+      if (blockStartMinutes >= minutesFromStart) freeUntil = Math.min(freeUntil, blockStartMinutes);
+    }
+
+    const start = slotToTime(minutesFromStart);
+    let freeMinutes = 0;
+    while (
+      minutesFromStart + freeMinutes + 5 <= freeUntil &&
+      !getQuickCreateError(start, new Date(start.getTime() + (freeMinutes + 5) * 60000), serviceId)
+    ) {
+      freeMinutes += 5;
+    }
+    return freeMinutes > 0 ? freeMinutes : null;
+  };
+
+  /**
+   * Open the quick-create popover for the 5-minute slot under a click or long press
+   */
+  const openQuickCreate = (clientY: number, slotsLayer: HTMLElement) => {
+    const relativeY = clientY - slotsLayer.getBoundingClientRect().top;
+    const minutesFromStart = Math.floor((relativeY / pixelsPerHour) * 12) * 5;
+    if (getFreeMinutesFrom(minutesFromStart) === null) return;
+    setQuickCreate({ minutesFromStart });
+  };
+
+  const cancelLongPress = () => {
+    if (longPressTimer.current !== null) {
+      window.clearTimeout(longPressTimer.current);
+      longPressTimer.current = null;
+    }
+  };
+
+  const handleSlotsTouchStart = (e: React.TouchEvent<HTMLDivElement>) => {
+    const clientY = e.touches[0]?.clientY;
+    const slotsLayer = e.currentTarget;
+    cancelLongPress();
+    if (clientY === undefined) return;
+    longPressTimer.current = window.setTimeout(() => {
+      longPressTimer.current = null;
+      openQuickCreate(clientY, slotsLayer);
+    }, 500);
+  };
+
+  /**
+   * Create the appointment from the quick-create popover if its time is still bookable
+   */
+  const handleQuickCreate = (appointment: AppointmentFormData) => {
+    const start = parseISO(appointment.start_time);
+    const end = new Date(start.getTime() + appointment.duration_minutes * 60000);
+
+    const error = getQuickCreateError(start, end, appointment.service_id ?? null);
+    if (error) {
+      alert(error);
+      return;
+    }
+
+    setQuickCreate(null);
+    onQuickCreate?.(appointment);
+  };
+
+  // A slot picked on one day means nothing on another
+  useEffect(() => {
+    setQuickCreate(null);
+  }, [selectedDate]);
+
+  // Close the quick-create popover when clicking outside of it
+  useEffect(() => {
+    if (!quickCreate) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      const target = event.target as HTMLElement;
+      if (!target.closest('.quick-create-popover')) setQuickCreate(null);
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [quickCreate]);
+
+  useEffect(() => cancelLongPress, []);
+
   /**
    * Get all block boundary times (start and end times of appointments and breaks)
    */
@@ -919,11 +1570,16 @@ export const ScheduleView: React.FC<ScheduleViewProps> = ({
    * Handle date navigation
    */
   const goToPreviousDay = () => {
-    onDateChange(subDays(selectedDate, 1));
+    const previousDay = subDays(selectedDate, 1);
+    onDateChange(previousDay);
+    // Warm the cache in the direction of travel
+    onPrefetchDate?.(subDays(previousDay, 1));
   };
 
   const goToNextDay = () => {
-    onDateChange(addDays(selectedDate, 1));
+    const nextDay = addDays(selectedDate, 1);
+    onDateChange(nextDay);
+    onPrefetchDate?.(addDays(nextDay, 1));
   };
 
   const goToToday = () => {
@@ -945,6 +1601,11 @@ export const ScheduleView: React.FC<ScheduleViewProps> = ({
     return eachDayOfInterval({ start: startDate, end: endDate });
   };
 
+  // Let the parent load time off for the month the calendar shows
+  useEffect(() => {
+    if (showCalendar) onCalendarMonthChange?.(calendarMonth);
+  }, [showCalendar, calendarMonth, onCalendarMonthChange]);
+
   // Listen for calendar open event from header
   useEffect(() => {
     const handleOpenCalendar = () => {
@@ -967,6 +1628,35 @@ export const ScheduleView: React.FC<ScheduleViewProps> = ({
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, [showCalendar]);
 
+  /**
+   * Dashed outline of where an item would go, green if it fits there and red if not
+   */
+  const renderGhost = (key: string, start: Date, end: Date, isValid: boolean, showLabel: boolean) => (
+    <div
+      key={key}
+      className={`absolute left-0 right-0 mx-1 rounded-md border-2 border-dashed pointer-events-none z-30 ${
+        isValid ? 'bg-green-200/60 border-green-500' : 'bg-red-200/60 border-red-500'
+      }`}
+      style={{
+        top: `${(start.getHours() - startHour + start.getMinutes() / 60) * pixelsPerHour}px`,
+        height: `${((end.getTime() - start.getTime()) / 3600000) * pixelsPerHour}px`,
+      }}
+    >
+      {showLabel && (
+        <div
+          className={`absolute -top-3 right-2 px-2 py-0.5 rounded text-xs font-semibold text-white shadow ${
+            isValid ? 'bg-green-600' : 'bg-red-600'
+          }`}
+        >
+          {format(start, 'HH:mm')}–{format(end, 'HH:mm')}
+        </div>
+      )}
+    </div>
+  );
+
+  const dragPreview = getDragPreview();
+  const pastePlan = getPastePlan();
+
   return (
     <div className="flex gap-6">
       {/* Mini-map */}
@@ -974,6 +1664,8 @@ export const ScheduleView: React.FC<ScheduleViewProps> = ({
         <ScheduleMiniMap
           appointments={appointments}
           breaks={breaks}
+          timeOff={dayTimeOff}
+          selectedDate={selectedDate}
           startHour={startHour}
           endHour={endHour}
           scheduleContainerId="schedule-container"
@@ -988,6 +1680,8 @@ export const ScheduleView: React.FC<ScheduleViewProps> = ({
               {getDateHeader()}
             </h2>
             <div className="flex items-center gap-2 relative">
+              {onViewModeChange && <ViewModeToggle mode="day" onChange={onViewModeChange} />}
+
               {/* Today button */}
               {!isToday(selectedDate) && (
                 <button
@@ -1050,19 +1744,26 @@ export const ScheduleView: React.FC<ScheduleViewProps> = ({
                       const isCurrentMonth = isSameMonth(day, calendarMonth);
                       const isSelected = isSameDay(day, selectedDate);
                       const isTodayDate = isToday(day);
+                      const dayBlocks = getTimeOffForDay(timeOff, day);
+                      const isFullDayOff = dayBlocks.some((block) => block.is_full_day);
 
                       return (
                         <button
                           key={index}
                           onClick={() => handleCalendarDateSelect(day)}
+                          title={dayBlocks.map((block) => block.reason || 'Недоступно').join(', ') || undefined}
+                          style={isFullDayOff && !isSelected ? TIME_OFF_HATCH_STYLE : undefined}
                           className={`
-                            p-2 text-sm rounded transition-colors
+                            relative p-2 text-sm rounded transition-colors
                             ${!isCurrentMonth ? 'text-gray-300' : 'text-gray-700'}
                             ${isSelected ? 'bg-primary-600 text-white font-semibold hover:bg-primary-700' : 'hover:bg-gray-100'}
                             ${isTodayDate && !isSelected ? 'border border-primary-400' : ''}
                           `}
                         >
                           {format(day, 'd')}
+                          {dayBlocks.length > 0 && !isFullDayOff && (
+                            <span className="absolute bottom-0.5 left-1/2 -translate-x-1/2 w-1 h-1 rounded-full bg-gray-500" />
+                          )}
                         </button>
                       );
                     })}
@@ -1083,6 +1784,119 @@ export const ScheduleView: React.FC<ScheduleViewProps> = ({
           </div>
         </div>
 
+        {isDayOff && (
+          <div className="px-4 py-2 bg-gray-100 border-b border-gray-200 text-sm text-gray-600">
+            Вихідний день — записи не плануються
+          </div>
+        )}
+
+        {clipboard && (
+          <div className="px-4 py-2 bg-amber-50 border-b border-amber-200 flex flex-wrap items-center gap-2 text-sm">
+            {pastePlan ? (
+              <>
+                <span className="font-medium text-amber-900">
+                  Вставити {pastePlan.items.length === 1 ? 'запис' : `записів: ${pastePlan.items.length}`} о{' '}
+                  {format(pastePlan.items[0].start, 'HH:mm')}?
+                </span>
+                {pastePlan.error && <span className="text-red-600">{pastePlan.error}</span>}
+                <button
+                  onClick={handleConfirmPaste}
+                  disabled={pastePlan.error !== null}
+                  className="px-2 py-1 rounded bg-primary-600 text-white hover:bg-primary-700 transition-colors disabled:opacity-50"
+                >
+                  Вставити
+                </button>
+                <button
+                  onClick={() => setPasteTarget(null)}
+                  className="px-2 py-1 text-gray-600 hover:text-gray-800 transition-colors"
+                >
+                  Скасувати
+                </button>
+              </>
+            ) : (
+              <>
+                <span className="font-medium text-amber-900">
+                  {clipboard.isCut ? 'Вирізано' : 'Скопійовано'} записів: {clipboard.appointments.length}
+                </span>
+                <button
+                  onClick={() => setPasteTarget({ slotMinutes: null })}
+                  className="px-2 py-1 border border-gray-300 rounded bg-white hover:bg-gray-50 transition-colors"
+                >
+                  Вставити в цей день
+                </button>
+                <button
+                  onClick={() => setClipboard(null)}
+                  className="px-2 py-1 text-gray-600 hover:text-gray-800 transition-colors"
+                >
+                  Очистити буфер
+                </button>
+              </>
+            )}
+          </div>
+        )}
+
+        {selectedAppointments.length > 0 && (
+          <div className="px-4 py-2 bg-sky-50 border-b border-sky-200 flex flex-wrap items-center gap-2 text-sm">
+            <span className="font-medium text-sky-900">
+              Вибрано записів: {selectedAppointments.length}
+            </span>
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => handleGroupShift(-groupShiftMinutes)}
+                className="px-2 py-1 border border-gray-300 rounded bg-white hover:bg-gray-50 transition-colors"
+                title="Раніше"
+              >
+                −
+              </button>
+              <input
+                type="number"
+                min={5}
+                step={5}
+                value={groupShiftMinutes}
+                onChange={(e) => setGroupShiftMinutes(Math.max(5, Number(e.target.value) || 5))}
+                className="w-16 px-2 py-1 border border-gray-300 rounded"
+              />
+              <span className="text-gray-600">хв</span>
+              <button
+                onClick={() => handleGroupShift(groupShiftMinutes)}
+                className="px-2 py-1 border border-gray-300 rounded bg-white hover:bg-gray-50 transition-colors"
+                title="Пізніше"
+              >
+                +
+              </button>
+            </div>
+            {onMoveAppointmentsToDate && (
+              <div className="flex items-center gap-1">
+                <input
+                  type="date"
+                  value={moveTargetDate}
+                  onChange={(e) => setMoveTargetDate(e.target.value)}
+                  className="px-2 py-1 border border-gray-300 rounded"
+                />
+                <button
+                  onClick={handleGroupMoveToDate}
+                  disabled={!moveTargetDate || isSameDay(parseISO(moveTargetDate), selectedDate)}
+                  className="px-2 py-1 border border-gray-300 rounded bg-white hover:bg-gray-50 transition-colors disabled:opacity-50"
+                >
+                  Перенести
+                </button>
+              </div>
+            )}
+            <button
+              onClick={handleGroupDelete}
+              className="px-2 py-1 border border-red-300 text-red-600 rounded bg-white hover:bg-red-50 transition-colors"
+            >
+              Видалити
+            </button>
+            <button
+              onClick={clearSelection}
+              className="px-2 py-1 text-gray-600 hover:text-gray-800 transition-colors"
+            >
+              Скасувати вибір
+            </button>
+          </div>
+        )}
+
         <div
           id="schedule-container"
           className="relative overflow-y-auto"
@@ -1099,23 +1913,62 @@ export const ScheduleView: React.FC<ScheduleViewProps> = ({
 
         {/* Schedule timeline */}
         <div
+          ref={timelineRef}
           className="relative ml-12 sm:ml-16"
           style={{ height: `${scheduleHeight}px` }}
+          onMouseDown={handleTimelineMouseDown}
         >
           {/* Grid lines */}
           {renderGridLines()}
 
-          {/* Appointments */}
-          {appointments.map((appointment) => (
+          {/* Empty slots: click or long-press to create an appointment there */}
+          {onQuickCreate && !isDayOff && (
+            <div
+              className="absolute inset-0 cursor-pointer"
+              onClick={(e) => !suppressSlotClick.current && openQuickCreate(e.clientY, e.currentTarget)}
+              onTouchStart={handleSlotsTouchStart}
+              onTouchMove={cancelLongPress}
+              onTouchEnd={cancelLongPress}
+            />
+          )}
+
+          {/* Time off */}
+          {dayTimeOff.map((block) => {
+            const clipped = clipTimeOffToDay(block, selectedDate, startHour, endHour);
+            if (!clipped) return null;
+            return (
+              <div
+                key={block.id}
+                className="absolute w-full"
+                style={{ top: `${clipped.from * pixelsPerHour}px` }}
+              >
+                <TimeOffBlock
+                  timeOff={block}
+                  heightPixels={(clipped.to - clipped.from) * pixelsPerHour}
+                  onDelete={onDeleteTimeOff}
+                />
+              </div>
+            );
+          })}
+
+          {/* Appointments (cancelled and no-show ones underneath, as their time is free) */}
+          {[
+            ...appointments.filter((apt) => !isActiveAppointment(apt)),
+            ...appointments.filter(isActiveAppointment),
+          ].map((appointment) => (
             <div
               key={appointment.id}
-              className="absolute w-full"
+              className={`absolute w-full ${dragPreview?.items.some((item) => item.id === appointment.id) ? 'opacity-40' : ''}`}
               style={{ top: `${getItemPosition(appointment)}px` }}
             >
               <AppointmentBlock
                 appointment={appointment}
+                service={findService(services, appointment.service_id)}
                 onEdit={onEditAppointment}
                 onDelete={onDeleteAppointment}
+                onDeleteOccurrences={onDeleteOccurrences}
+                onOpenClient={onOpenClientProfile}
+                onChangeStatus={handleChangeStatus}
                 onDragStart={(id, startTime, clientY) =>
                   handleDragStart(id, 'appointment', startTime, clientY)
                 }
@@ -1125,8 +1978,17 @@ export const ScheduleView: React.FC<ScheduleViewProps> = ({
                 onBulkShiftBefore={handleBulkShiftBefore}
                 canBulkShiftAfter={canBulkShiftAfter}
                 canBulkShiftBefore={canBulkShiftBefore}
+                onResizeStart={(id, clientY) =>
+                  handleResizeStart(id, 'appointment', appointment.duration_minutes, clientY)
+                }
+                previewDuration={getPreviewDuration(appointment.id)}
+                isSelected={selectedIds.has(appointment.id)}
+                onToggleSelect={toggleSelected}
+                onCopy={(id) => copyToClipboard(id, false)}
+                onCut={(id) => copyToClipboard(id, true)}
                 pixelsPerHour={pixelsPerHour}
                 scrollContainerId="schedule-container"
+                syncStatus={mutationStatus[appointment.id]}
               />
             </div>
           ))}
@@ -1135,7 +1997,7 @@ export const ScheduleView: React.FC<ScheduleViewProps> = ({
           {breaks.map((breakItem) => (
             <div
               key={breakItem.id}
-              className="absolute w-full"
+              className={`absolute w-full ${dragPreview?.items.some((item) => item.id === breakItem.id) ? 'opacity-40' : ''}`}
               style={{ top: `${getItemPosition(breakItem)}px` }}
             >
               <BreakBlock
@@ -1146,12 +2008,70 @@ export const ScheduleView: React.FC<ScheduleViewProps> = ({
                 }
                 onUpdateStartTime={handleUpdateBreakStartTime}
                 canShiftTime={canShiftTime}
+                onResizeStart={(id, clientY) =>
+                  handleResizeStart(id, 'break', breakItem.duration_minutes, clientY)
+                }
+                previewDuration={getPreviewDuration(breakItem.id)}
                 pixelsPerHour={pixelsPerHour}
                 scrollContainerId="schedule-container"
               />
             </div>
           ))}
 
+          {/* Drag ghosts: where the dragged item (and the rest of its selection) would land */}
+          {dragPreview?.items.map((item) =>
+            renderGhost(item.id, item.start, item.end, dragPreview.isValid, item.id === dragState.itemId)
+          )}
+
+          {/* Paste preview */}
+          {pastePlan?.items.map((item, index) =>
+            renderGhost(`paste-${item.source.id}`, item.start, item.end, pastePlan.error === null, index === 0)
+          )}
+
+          {/* Lasso */}
+          {lasso?.isActive && (
+            <div
+              className="absolute left-0 right-0 bg-sky-200/40 border-y-2 border-sky-500 pointer-events-none z-30"
+              style={{
+                top: `${Math.min(lasso.fromY, lasso.toY)}px`,
+                height: `${Math.abs(lasso.toY - lasso.fromY)}px`,
+              }}
+            />
+          )}
+
+          {/* Quick create */}
+          {quickCreate && (
+            <>
+              <div
+                className="absolute w-full bg-primary-100 border-y border-primary-300 pointer-events-none"
+                style={{
+                  top: `${quickCreate.minutesFromStart * (pixelsPerHour / 60)}px`,
+                  height: `${5 * (pixelsPerHour / 60)}px`,
+                }}
+              />
+              <div
+                className="absolute left-4 z-40"
+                style={{ top: `${(quickCreate.minutesFromStart + 5) * (pixelsPerHour / 60)}px` }}
+              >
+                <QuickCreatePopover
+                  key={quickCreate.minutesFromStart}
+                  startTime={slotToTime(quickCreate.minutesFromStart)}
+                  getMaxDuration={(serviceId) =>
+                    getFreeMinutesFrom(quickCreate.minutesFromStart, serviceId) ?? 0
+                  }
+                  services={services.filter((service) => service.is_active)}
+                  onSubmit={handleQuickCreate}
+                  onCancel={() => setQuickCreate(null)}
+                  pasteCount={clipboard?.appointments.length ?? 0}
+                  onPaste={() => {
+                    setPasteTarget({ slotMinutes: quickCreate.minutesFromStart });
+                    setQuickCreate(null);
+                  }}
+                />
+              </div>
+            </>
+          )}
+
           {/* Current time indicator */}
           {currentTimePosition !== null && (
             <div
@@ -1169,7 +2089,18 @@ export const ScheduleView: React.FC<ScheduleViewProps> = ({
 
         <div className="px-3 py-2 sm:px-4 sm:py-2 bg-gray-100 border-t border-gray-200">
           <p className="text-sm sm:text-base text-gray-600 text-center">
-
+            <label className="inline-flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={pushFollowingOnResize}
+                onChange={(e) => setPushFollowingOnResize(e.target.checked)}
+                className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+              />
+              Зміна тривалості зсуває наступні записи
+            </label>
+          </p>
+          <p className="hidden md:block text-xs text-gray-500 text-center mt-1">
+            Shift+клік або виділення рамкою — вибір кількох записів; Ctrl+C / Ctrl+X / Ctrl+V — копіювати, вирізати, вставити
           </p>
         </div>
       </div>
@@ -0,0 +1,245 @@
+import React, { useState } from 'react';
+import type { NewService, Service, ServiceUpdates } from '../types';
+import { SERVICE_COLORS, createEmptyService, formatPrice } from '../services/serviceCatalog';
+
+interface ServiceCatalogSettingsProps {
+  services: Service[];
+  onCreate: (service: NewService) => void;
+  onUpdate: (id: string, updates: ServiceUpdates) => void;
+}
+
+/**
+ * Settings for the service catalog
+ * Lists every service and edits one at a time; services are deactivated
+ * instead of deleted so past appointments keep their service.
+ */
+export const ServiceCatalogSettings: React.FC<ServiceCatalogSettingsProps> = ({
+  services,
+  onCreate,
+  onUpdate,
+}) => {
+  // null: no editor open; undefined id: a new service
+  const [editing, setEditing] = useState<{ id?: string; data: NewService } | null>(null);
+
+  const startEditing = (service: Service) => {
+    const { id, created_at: _createdAt, updated_at: _updatedAt, ...data } = service;
+    setEditing({ id, data });
+  };
+
+  const updateField = <K extends keyof NewService>(field: K, value: NewService[K]) => {
+    setEditing((prev) => (prev ? { ...prev, data: { ...prev.data, [field]: value } } : prev));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing) return;
+
+    const data = { ...editing.data, name: editing.data.name.trim() };
+    if (!data.name) {
+      alert('Введіть назву послуги');
+      return;
+    }
+    if (data.duration_minutes < 5 || data.duration_minutes % 5 !== 0) {
+      alert('Тривалість має бути кратною 5 хвилинам');
+      return;
+    }
+
+    if (editing.id) {
+      onUpdate(editing.id, data);
+    } else {
+      onCreate(data);
+    }
+    setEditing(null);
+  };
+
+  const inputClassName =
+    'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent';
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4 sm:p-6 space-y-4 mb-6">
+      <h2 className="text-xl sm:text-2xl font-semibold text-gray-800">Послуги</h2>
+
+      {services.length > 0 ? (
+        <ul className="divide-y divide-gray-100">
+          {services.map((service) => (
+            <li
+              key={service.id}
+              className={`flex flex-wrap items-center gap-3 py-2 ${service.is_active ? '' : 'opacity-50'}`}
+            >
+              <span
+                className="w-4 h-4 rounded-full flex-shrink-0"
+                style={{ backgroundColor: service.color }}
+              />
+              <div className="flex-1 min-w-0">
+                <div className="text-sm font-medium text-gray-800 truncate">
+                  {service.name}
+                  {!service.is_active && <span className="ml-2 text-xs text-gray-500">(вимкнена)</span>}
+                </div>
+                <div className="text-xs text-gray-500">
+                  {service.duration_minutes} хв
+                  {service.price != null && ` · ${formatPrice(service.price)}`}
+                  {(service.buffer_before_minutes > 0 || service.buffer_after_minutes > 0) &&
+                    ` · підготовка ${service.buffer_before_minutes}/${service.buffer_after_minutes} хв`}
+                </div>
+              </div>
+              <button
+                type="button"
+                onClick={() => startEditing(service)}
+                className="px-3 py-1.5 text-sm border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+              >
+                Змінити
+              </button>
+              <button
+                type="button"
+                onClick={() => onUpdate(service.id, { is_active: !service.is_active })}
+                className="px-3 py-1.5 text-sm border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+              >
+                {service.is_active ? 'Вимкнути' : 'Увімкнути'}
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-500">
+          Каталог порожній: у записах доступні короткий і довгий масаж.
+        </p>
+      )}
+
+      {editing ? (
+        <form onSubmit={handleSubmit} className="space-y-4 border-t border-gray-200 pt-4">
+          <div>
+            <label htmlFor="service_name" className="block text-sm font-medium text-gray-700 mb-1">
+              Назва
+            </label>
+            <input
+              type="text"
+              id="service_name"
+              value={editing.data.name}
+              onChange={(e) => updateField('name', e.target.value)}
+              maxLength={40}
+              className={inputClassName}
+              required
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="service_duration" className="block text-sm font-medium text-gray-700 mb-1">
+                Тривалість, хв
+              </label>
+              <input
+                type="number"
+                id="service_duration"
+                min={5}
+                step={5}
+                value={editing.data.duration_minutes}
+                onChange={(e) => updateField('duration_minutes', parseInt(e.target.value, 10) || 0)}
+                className={inputClassName}
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="service_price" className="block text-sm font-medium text-gray-700 mb-1">
+                Ціна, грн
+              </label>
+              <input
+                type="number"
+                id="service_price"
+                min={0}
+                step="any"
+                value={editing.data.price ?? ''}
+                onChange={(e) =>
+                  updateField('price', e.target.value === '' ? null : parseFloat(e.target.value))
+                }
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="service_buffer_before" className="block text-sm font-medium text-gray-700 mb-1">
+                Підготовка до, хв
+              </label>
+              <input
+                type="number"
+                id="service_buffer_before"
+                min={0}
+                step={5}
+                value={editing.data.buffer_before_minutes}
+                onChange={(e) => updateField('buffer_before_minutes', parseInt(e.target.value, 10) || 0)}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label htmlFor="service_buffer_after" className="block text-sm font-medium text-gray-700 mb-1">
+                Після, хв
+              </label>
+              <input
+                type="number"
+                id="service_buffer_after"
+                min={0}
+                step={5}
+                value={editing.data.buffer_after_minutes}
+                onChange={(e) => updateField('buffer_after_minutes', parseInt(e.target.value, 10) || 0)}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <div>
+            <span className="block text-sm font-medium text-gray-700 mb-1">Колір</span>
+            <div className="flex flex-wrap gap-2">
+              {SERVICE_COLORS.map((color) => (
+                <button
+                  key={color}
+                  type="button"
+                  onClick={() => updateField('color', color)}
+                  className={`w-8 h-8 rounded-full border-2 transition-transform ${
+                    editing.data.color === color ? 'border-gray-900 scale-110' : 'border-transparent'
+                  }`}
+                  style={{ backgroundColor: color }}
+                  title={color}
+                />
+              ))}
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={editing.data.is_active}
+              onChange={(e) => updateField('is_active', e.target.checked)}
+              className="h-4 w-4 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
+            />
+            Доступна для запису
+          </label>
+
+          <div className="flex gap-3 pt-2">
+            <button
+              type="submit"
+              className="flex-1 bg-primary-600 text-white py-2 px-4 rounded-md hover:bg-primary-700 transition-colors font-medium"
+            >
+              Зберегти
+            </button>
+            <button
+              type="button"
+              onClick={() => setEditing(null)}
+              className="flex-1 bg-gray-200 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-300 transition-colors font-medium"
+            >
+              Скасувати
+            </button>
+          </div>
+        </form>
+      ) : (
+        <button
+          type="button"
+          onClick={() => setEditing({ data: createEmptyService() })}
+          className="w-full py-2 px-4 border border-dashed border-primary-400 text-primary-700 rounded-md hover:bg-primary-50 transition-colors font-medium"
+        >
+          + Додати послугу
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,291 @@
+import React, { useState } from 'react';
+import { addDays, format, parseISO } from 'date-fns';
+import { uk } from 'date-fns/locale';
+import type { ScheduleTemplate, TemplatePlan, TemplateResolution } from '../types';
+import { getTemplateStart, TEMPLATE_SPAN_LABELS } from '../services/scheduleTemplates';
+
+interface TemplatesPanelProps {
+  templates: ScheduleTemplate[];
+  selectedDate: Date; // Day (or week) a new template is saved from
+  onSave: (name: string, span: ScheduleTemplate['span']) => Promise<boolean>; // Resolves whether it was saved
+  onDelete: (id: string) => void;
+  onPlan: (template: ScheduleTemplate, from: Date, to: Date) => Promise<TemplatePlan | null>;
+  onApply: (
+    template: ScheduleTemplate,
+    from: Date,
+    to: Date,
+    plan: TemplatePlan,
+    resolutions: TemplateResolution[]
+  ) => Promise<boolean>; // Resolves whether it was applied
+  onClose: () => void;
+}
+
+/**
+ * Default dates to apply a template to: the next day, or the whole next week
+ */
+const getDefaultRange = (template: ScheduleTemplate, selectedDate: Date) => {
+  const from = getTemplateStart(template.span, addDays(selectedDate, template.span === 'week' ? 7 : 1));
+  const to = addDays(from, template.span === 'week' ? 6 : 0);
+  return { from: format(from, 'yyyy-MM-dd'), to: format(to, 'yyyy-MM-dd') };
+};
+
+/**
+ * "Шаблони": save the selected day or week and repeat it on other dates
+ * Applying checks the dates first; each conflicting appointment can be skipped or,
+ * when other appointments are in its way, booked over them (they go to the trash).
+ */
+export const TemplatesPanel: React.FC<TemplatesPanelProps> = ({
+  templates,
+  selectedDate,
+  onSave,
+  onDelete,
+  onPlan,
+  onApply,
+  onClose,
+}) => {
+  const [name, setName] = useState('');
+  const [span, setSpan] = useState<ScheduleTemplate['span']>('day');
+  const [applying, setApplying] = useState<{ template: ScheduleTemplate; from: string; to: string } | null>(null);
+  const [plan, setPlan] = useState<TemplatePlan | null>(null);
+  const [resolutions, setResolutions] = useState<TemplateResolution[]>([]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim()) {
+      alert('Будь ласка, введіть назву шаблону');
+      return;
+    }
+
+    if (await onSave(name, span)) setName('');
+  };
+
+  const startApplying = (template: ScheduleTemplate) => {
+    setApplying({ template, ...getDefaultRange(template, selectedDate) });
+    setPlan(null);
+  };
+
+  const handleCheck = async () => {
+    if (!applying) return;
+    if (applying.to < applying.from) {
+      alert('Дата завершення не може бути раніше дати початку');
+      return;
+    }
+
+    const planned = await onPlan(applying.template, parseISO(applying.from), parseISO(applying.to));
+    if (!planned) return;
+    setPlan(planned);
+    setResolutions(planned.conflicts.map(() => 'skip'));
+  };
+
+  const handleApply = async () => {
+    if (!applying || !plan) return;
+    const applied = await onApply(
+      applying.template,
+      parseISO(applying.from),
+      parseISO(applying.to),
+      plan,
+      resolutions
+    );
+    if (applied) {
+      setApplying(null);
+      setPlan(null);
+    }
+  };
+
+  const spanWord = span === 'week' ? 'тиждень' : 'день';
+  const bookedCount = plan
+    ? plan.conflicts.filter((conflict, index) => !conflict || resolutions[index] === 'overwrite').length
+    : 0;
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4 sm:p-6 space-y-4 mb-6">
+      <div className="flex items-center justify-between gap-3">
+        <h2 className="text-xl sm:text-2xl font-semibold text-gray-800">Шаблони</h2>
+        <button
+          type="button"
+          onClick={onClose}
+          className="px-3 py-1.5 text-sm border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+        >
+          Закрити
+        </button>
+      </div>
+
+      <form onSubmit={handleSave} className="flex flex-wrap items-end gap-3">
+        <div className="flex-1 min-w-[12rem]">
+          <label htmlFor="template_name" className="block text-sm font-medium text-gray-700 mb-1">
+            Зберегти {spanWord} як шаблон
+          </label>
+          <input
+            type="text"
+            id="template_name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Назва шаблону"
+            maxLength={40}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+          />
+        </div>
+        <select
+          value={span}
+          onChange={(e) => setSpan(e.target.value as ScheduleTemplate['span'])}
+          className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+        >
+          {(Object.keys(TEMPLATE_SPAN_LABELS) as ScheduleTemplate['span'][]).map((option) => (
+            <option key={option} value={option}>
+              {TEMPLATE_SPAN_LABELS[option]}
+            </option>
+          ))}
+        </select>
+        <button
+          type="submit"
+          className="px-4 py-2 bg-primary-600 text-white rounded-md hover:bg-primary-700 transition-colors font-medium"
+        >
+          Зберегти
+        </button>
+      </form>
+      <p className="text-sm text-gray-500">
+        {span === 'week'
+          ? `Тиждень з ${format(getTemplateStart('week', selectedDate), 'd MMMM', { locale: uk })}`
+          : format(selectedDate, 'd MMMM', { locale: uk })}
+        : записи та додані вручну перерви. Скасовані записи не зберігаються.
+      </p>
+
+      {templates.length > 0 ? (
+        <ul className="divide-y divide-gray-100">
+          {templates.map((template) => (
+            <li key={template.id} className="py-2 space-y-2">
+              <div className="flex flex-wrap items-center gap-3">
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-medium text-gray-800 truncate">{template.name}</div>
+                  <div className="text-xs text-gray-500">
+                    {TEMPLATE_SPAN_LABELS[template.span]} · записів: {template.appointments.length}
+                    {template.breaks.length > 0 && ` · перерв: ${template.breaks.length}`}
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => startApplying(template)}
+                  className="px-3 py-1.5 text-sm border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+                >
+                  Застосувати
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onDelete(template.id)}
+                  className="px-3 py-1.5 text-sm border border-red-200 text-red-600 rounded-md hover:bg-red-50 transition-colors"
+                >
+                  Видалити
+                </button>
+              </div>
+
+              {applying?.template.id === template.id && (
+                <div className="bg-gray-50 rounded-md p-3 space-y-3">
+                  <div className="flex flex-wrap items-end gap-3">
+                    <div>
+                      <label htmlFor="template_from" className="block text-sm font-medium text-gray-700 mb-1">
+                        З
+                      </label>
+                      <input
+                        type="date"
+                        id="template_from"
+                        value={applying.from}
+                        onChange={(e) => {
+                          if (!e.target.value) return;
+                          setApplying({ ...applying, from: e.target.value });
+                          setPlan(null);
+                        }}
+                        className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                      />
+                    </div>
+                    <div>
+                      <label htmlFor="template_to" className="block text-sm font-medium text-gray-700 mb-1">
+                        По
+                      </label>
+                      <input
+                        type="date"
+                        id="template_to"
+                        value={applying.to}
+                        onChange={(e) => {
+                          if (!e.target.value) return;
+                          setApplying({ ...applying, to: e.target.value });
+                          setPlan(null);
+                        }}
+                        className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                      />
+                    </div>
+                    <button
+                      type="button"
+                      onClick={handleCheck}
+                      className="px-3 py-2 text-sm border border-gray-300 rounded-md bg-white hover:bg-gray-50 transition-colors"
+                    >
+                      Перевірити
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setApplying(null)}
+                      className="px-3 py-2 text-sm text-gray-600 hover:text-gray-800 transition-colors"
+                    >
+                      Скасувати
+                    </button>
+                  </div>
+
+                  {plan && (
+                    <>
+                      {plan.conflicts.some(Boolean) && (
+                        <ul className="space-y-1">
+                          {plan.conflicts.map((conflict, index) =>
+                            conflict ? (
+                              <li key={index} className="flex flex-wrap items-center gap-2 text-sm">
+                                <span className="text-gray-800">
+                                  {format(parseISO(conflict.start_time), 'EEE d MMM, HH:mm', { locale: uk })} ·{' '}
+                                  {conflict.client_name}
+                                </span>
+                                <span className="text-red-600">{conflict.reason}</span>
+                                <select
+                                  value={resolutions[index]}
+                                  onChange={(e) =>
+                                    setResolutions((prev) =>
+                                      prev.map((resolution, i) =>
+                                        i === index ? (e.target.value as TemplateResolution) : resolution
+                                      )
+                                    )
+                                  }
+                                  className="ml-auto px-2 py-1 border border-gray-300 rounded-md text-sm"
+                                >
+                                  <option value="skip">Пропустити</option>
+                                  {conflict.clashes.length > 0 && <option value="overwrite">Замінити</option>}
+                                </select>
+                              </li>
+                            ) : null
+                          )}
+                        </ul>
+                      )}
+                      <div className="flex flex-wrap items-center gap-3">
+                        <span className="text-sm text-gray-700">
+                          {plan.appointments.length === 0
+                            ? 'У вибрані дати шаблон не додає жодного запису.'
+                            : `Буде створено записів: ${bookedCount} з ${plan.appointments.length}`}
+                        </span>
+                        <button
+                          type="button"
+                          onClick={handleApply}
+                          disabled={bookedCount === 0 && plan.breaks.length === 0}
+                          className="px-3 py-2 text-sm bg-primary-600 text-white rounded-md hover:bg-primary-700 transition-colors disabled:opacity-50"
+                        >
+                          Застосувати шаблон
+                        </button>
+                      </div>
+                    </>
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-500">Збережених шаблонів ще немає.</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,59 @@
+import React from 'react';
+import type { TimeOff } from '../types';
+import { format, parseISO } from 'date-fns';
+import { uk } from 'date-fns/locale';
+
+/**
+ * Diagonal hatching used wherever time off is drawn (timeline and mini-maps)
+ */
+export const TIME_OFF_HATCH_STYLE: React.CSSProperties = {
+  backgroundImage:
+    'repeating-linear-gradient(45deg, rgba(107, 114, 128, 0.25) 0, rgba(107, 114, 128, 0.25) 6px, transparent 6px, transparent 12px)',
+};
+
+interface TimeOffBlockProps {
+  timeOff: TimeOff;
+  heightPixels: number;
+  onDelete?: (id: string) => void;
+}
+
+/**
+ * Hatched region marking time off in the schedule
+ */
+export const TimeOffBlock: React.FC<TimeOffBlockProps> = ({ timeOff, heightPixels, onDelete }) => {
+  const handleDelete = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    onDelete?.(timeOff.id);
+  };
+
+  return (
+    <div
+      className="absolute left-0 right-0 bg-gray-100 border-2 border-dashed border-gray-300 text-gray-600 rounded-md select-none mx-1"
+      style={{ ...TIME_OFF_HATCH_STYLE, height: `${heightPixels}px` }}
+    >
+      <div className="p-2 flex items-start justify-between gap-2">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:gap-2 bg-gray-100/80 rounded px-1">
+          <div className="font-medium text-lg">
+            {timeOff.reason || 'Недоступно'}
+          </div>
+          <div className="text-base">
+            {timeOff.is_full_day
+              ? 'Весь день'
+              : `${format(parseISO(timeOff.start_time), 'HH:mm', { locale: uk })} - ${format(parseISO(timeOff.end_time), 'HH:mm', { locale: uk })}`}
+          </div>
+        </div>
+        {onDelete && (
+          <button
+            onClick={handleDelete}
+            className="p-1 text-gray-500 hover:text-red-600 hover:bg-white rounded transition-colors"
+            title="Видалити недоступність"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import type { NewTimeOff } from '../types';
+import { format, parseISO } from 'date-fns';
+import { createFullDayTimeOff } from '../services/timeOff';
+
+interface TimeOffFormProps {
+  onSubmit: (timeOff: NewTimeOff) => void;
+  onCancel: () => void;
+  currentDate: Date;
+}
+
+/**
+ * Form for blocking time off: whole days (a date range) or part of a single day
+ */
+export const TimeOffForm: React.FC<TimeOffFormProps> = ({ onSubmit, onCancel, currentDate }) => {
+  const [isFullDay, setIsFullDay] = useState(true);
+  const [firstDay, setFirstDay] = useState(format(currentDate, 'yyyy-MM-dd'));
+  const [lastDay, setLastDay] = useState(format(currentDate, 'yyyy-MM-dd'));
+  const [startTime, setStartTime] = useState('12:00');
+  const [endTime, setEndTime] = useState('13:00');
+  const [reason, setReason] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmedReason = reason.trim() || undefined;
+
+    if (isFullDay) {
+      if (lastDay < firstDay) {
+        alert('Останній день не може бути раніше за перший');
+        return;
+      }
+      onSubmit(createFullDayTimeOff(parseISO(firstDay), parseISO(lastDay), trimmedReason));
+      return;
+    }
+
+    const start = parseISO(`${firstDay}T${startTime}`);
+    const end = parseISO(`${firstDay}T${endTime}`);
+    if (end <= start) {
+      alert('Кінець має бути пізніше за початок');
+      return;
+    }
+    onSubmit({
+      start_time: start.toISOString(),
+      end_time: end.toISOString(),
+      is_full_day: false,
+      reason: trimmedReason,
+    });
+  };
+
+  const inputClassName =
+    'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent';
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="bg-white rounded-lg shadow-md p-4 sm:p-6 space-y-4 mb-6"
+    >
+      <h2 className="text-xl sm:text-2xl font-semibold text-gray-800">
+        Недоступність
+      </h2>
+
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={isFullDay}
+          onChange={(e) => setIsFullDay(e.target.checked)}
+          className="h-4 w-4 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
+        />
+        Цілий день
+      </label>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="time_off_first_day" className="block text-sm font-medium text-gray-700 mb-1">
+            {isFullDay ? 'З' : 'Дата'}
+          </label>
+          <input
+            type="date"
+            id="time_off_first_day"
+            value={firstDay}
+            onChange={(e) => setFirstDay(e.target.value)}
+            className={inputClassName}
+            required
+          />
+        </div>
+        {isFullDay && (
+          <div>
+            <label htmlFor="time_off_last_day" className="block text-sm font-medium text-gray-700 mb-1">
+              По
+            </label>
+            <input
+              type="date"
+              id="time_off_last_day"
+              value={lastDay}
+              min={firstDay}
+              onChange={(e) => setLastDay(e.target.value)}
+              className={inputClassName}
+              required
+            />
+          </div>
+        )}
+      </div>
+
+      {!isFullDay && (
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label htmlFor="time_off_start" className="block text-sm font-medium text-gray-700 mb-1">
+              Початок
+            </label>
+            <input
+              type="time"
+              id="time_off_start"
+              value={startTime}
+              step={300}
+              onChange={(e) => setStartTime(e.target.value)}
+              className={inputClassName}
+              required
+            />
+          </div>
+          <div>
+            <label htmlFor="time_off_end" className="block text-sm font-medium text-gray-700 mb-1">
+              Кінець
+            </label>
+            <input
+              type="time"
+              id="time_off_end"
+              value={endTime}
+              step={300}
+              onChange={(e) => setEndTime(e.target.value)}
+              className={inputClassName}
+              required
+            />
+          </div>
+        </div>
+      )}
+
+      <div>
+        <label htmlFor="time_off_reason" className="block text-sm font-medium text-gray-700 mb-1">
+          Причина (необов'язково)
+        </label>
+        <input
+          type="text"
+          id="time_off_reason"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="Відпустка, лікар..."
+          maxLength={40}
+          className={inputClassName}
+        />
+      </div>
+
+      <div className="flex gap-3 pt-2">
+        <button
+          type="submit"
+          className="flex-1 bg-primary-600 text-white py-2 px-4 rounded-md hover:bg-primary-700 transition-colors font-medium"
+        >
+          Зберегти
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="flex-1 bg-gray-200 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-300 transition-colors font-medium"
+        >
+          Скасувати
+        </button>
+      </div>
+    </form>
+  );
+};
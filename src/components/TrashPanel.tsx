@@ -0,0 +1,70 @@
+import React from 'react';
+import { format, parseISO } from 'date-fns';
+import { uk } from 'date-fns/locale';
+import type { Appointment, Service } from '../types';
+import { TRASH_RETENTION_DAYS } from '../services/scheduleRepository';
+import { findService } from '../services/serviceCatalog';
+
+interface TrashPanelProps {
+  trash: Appointment[];
+  services: Service[];
+  onRestore: (appointment: Appointment) => void;
+  onClose: () => void;
+}
+
+/**
+ * "Кошик": deleted appointments, each of which can be restored to its old time
+ */
+export const TrashPanel: React.FC<TrashPanelProps> = ({ trash, services, onRestore, onClose }) => (
+  <div className="bg-white rounded-lg shadow-md p-4 sm:p-6 space-y-4 mb-6">
+    <div className="flex items-center justify-between gap-3">
+      <h2 className="text-xl sm:text-2xl font-semibold text-gray-800">Кошик</h2>
+      <button
+        type="button"
+        onClick={onClose}
+        className="px-3 py-1.5 text-sm border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+      >
+        Закрити
+      </button>
+    </div>
+    <p className="text-sm text-gray-500">
+      Видалені записи зберігаються {TRASH_RETENTION_DAYS} днів, після цього їх буде видалено назавжди.
+    </p>
+
+    {trash.length > 0 ? (
+      <ul className="divide-y divide-gray-100">
+        {trash.map((appointment) => {
+          const service = findService(services, appointment.service_id);
+          return (
+            <li key={appointment.id} className="flex flex-wrap items-center gap-3 py-2">
+              <div className="flex-1 min-w-0">
+                <div className="text-sm font-medium text-gray-800 truncate">
+                  {appointment.client_name}
+                </div>
+                <div className="text-xs text-gray-500">
+                  {format(parseISO(appointment.start_time), 'd MMMM yyyy, HH:mm', { locale: uk })}
+                  {` · ${appointment.duration_minutes} хв`}
+                  {service && ` · ${service.name}`}
+                </div>
+                {appointment.deleted_at && (
+                  <div className="text-xs text-gray-400">
+                    Видалено {format(parseISO(appointment.deleted_at), 'd MMMM, HH:mm', { locale: uk })}
+                  </div>
+                )}
+              </div>
+              <button
+                type="button"
+                onClick={() => onRestore(appointment)}
+                className="px-3 py-1.5 text-sm border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+              >
+                Відновити
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    ) : (
+      <p className="text-sm text-gray-500">Кошик порожній.</p>
+    )}
+  </div>
+);
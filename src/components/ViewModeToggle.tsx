@@ -0,0 +1,34 @@
+import React from 'react';
+import type { ScheduleViewMode } from '../types';
+
+interface ViewModeToggleProps {
+  mode: ScheduleViewMode;
+  onChange: (mode: ScheduleViewMode) => void;
+}
+
+const MODES: { mode: ScheduleViewMode; label: string }[] = [
+  { mode: 'day', label: 'День' },
+  { mode: 'week', label: 'Тиждень' },
+  { mode: 'month', label: 'Місяць' },
+];
+
+/**
+ * Day / week / month switch shown in the schedule header
+ */
+export const ViewModeToggle: React.FC<ViewModeToggleProps> = ({ mode, onChange }) => (
+  <div className="flex rounded-md border border-gray-300 overflow-hidden text-sm">
+    {MODES.map((option) => (
+      <button
+        key={option.mode}
+        onClick={() => onChange(option.mode)}
+        className={`px-3 py-2 transition-colors ${
+          option.mode === mode
+            ? 'bg-primary-600 text-white'
+            : 'bg-white text-gray-700 hover:bg-gray-100'
+        }`}
+      >
+        {option.label}
+      </button>
+    ))}
+  </div>
+);
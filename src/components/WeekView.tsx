@@ -0,0 +1,470 @@
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import type {
+  Appointment,
+  Break,
+  DayHours,
+  ScheduleItem,
+  ScheduleViewMode,
+  Service,
+  SyncStatus,
+  TimeOff,
+  WorkingHours,
+} from '../types';
+import { AppointmentBlock } from './AppointmentBlock';
+import { BreakBlock } from './BreakBlock';
+import { TIME_OFF_HATCH_STYLE } from './TimeOffBlock';
+import { ViewModeToggle } from './ViewModeToggle';
+import { parseISO, format, addDays, addWeeks, subWeeks, isSameDay, isToday, startOfDay, startOfWeek } from 'date-fns';
+import { uk } from 'date-fns/locale';
+import { DEFAULT_DAY_HOURS, formatHour, getDayHours } from '../services/workingHours';
+import { clipTimeOffToDay, findTimeOffOverlap, getTimeOffForDay } from '../services/timeOff';
+import { clashesWithAppointment, findService } from '../services/serviceCatalog';
+import { isActiveAppointment } from '../services/appointmentStatus';
+
+interface WeekViewProps {
+  appointments: Appointment[];
+  breaks: Break[];
+  timeOff?: TimeOff[];
+  services?: Service[];
+  workingHours: WorkingHours;
+  selectedDate: Date;
+  onDateChange: (date: Date) => void;
+  onViewModeChange: (mode: ScheduleViewMode) => void;
+  onUpdateAppointment: (id: string, updates: Partial<Appointment>) => void;
+  onEditAppointment: (appointment: Appointment) => void;
+  pauseAutoGeneration: () => void;
+  resumeAutoGeneration: () => void;
+  mutationStatus?: Record<string, SyncStatus>;
+  pixelsPerHour?: number;
+}
+
+/**
+ * Booked time as e.g. "2 год 15 хв"
+ */
+const formatBookedMinutes = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest} хв`;
+  return rest === 0 ? `${hours} год` : `${hours} год ${rest} хв`;
+};
+
+/**
+ * Items starting on the given day
+ */
+const itemsOnDay = <T extends ScheduleItem>(items: T[], day: Date): T[] =>
+  items.filter((item) => isSameDay(parseISO(item.start_time), day));
+
+/**
+ * Seven-column week schedule (Monday to Sunday) at a compact scale
+ * Appointments can be dragged to another time or day; each column shows its booked minutes.
+ */
+export const WeekView: React.FC<WeekViewProps> = ({
+  appointments,
+  breaks,
+  timeOff = [],
+  services = [],
+  workingHours,
+  selectedDate,
+  onDateChange,
+  onViewModeChange,
+  onUpdateAppointment,
+  onEditAppointment,
+  pauseAutoGeneration,
+  resumeAutoGeneration,
+  mutationStatus = {},
+  pixelsPerHour = 60,
+}) => {
+  const [dragItem, setDragItem] = useState<{
+    id: string;
+    startX: number;
+    startY: number;
+    hasMoved: boolean;
+  } | null>(null);
+  const columnsRef = useRef<HTMLDivElement>(null);
+
+  const weekStartTime = startOfWeek(selectedDate, { weekStartsOn: 1 }).getTime();
+  const days = useMemo(
+    () => Array.from({ length: 7 }, (_, i) => addDays(weekStartTime, i)),
+    [weekStartTime]
+  );
+  const weekStart = days[0];
+  const dayHours = days.map((day) => getDayHours(workingHours, day));
+
+  // The timeline spans from the earliest start to the latest end of the week's working days
+  const workingDays = dayHours.filter((hours): hours is DayHours => !!hours);
+  const startHour = workingDays.length
+    ? Math.min(...workingDays.map((hours) => hours.startHour))
+    : DEFAULT_DAY_HOURS.startHour;
+  const endHour = workingDays.length
+    ? Math.max(...workingDays.map((hours) => hours.endHour))
+    : DEFAULT_DAY_HOURS.endHour;
+  const scheduleHeight = (endHour - startHour) * pixelsPerHour;
+
+  const bookedMinutes = days.map((day) =>
+    itemsOnDay(appointments.filter(isActiveAppointment), day).reduce(
+      (total, apt) => total + apt.duration_minutes,
+      0
+    )
+  );
+  const weekBookedMinutes = bookedMinutes.reduce((total, minutes) => total + minutes, 0);
+
+  /**
+   * Top offset of an item within its column
+   */
+  const getItemPosition = (item: ScheduleItem): number => {
+    const itemTime = parseISO(item.start_time);
+    const hoursFromStart = itemTime.getHours() - startHour + itemTime.getMinutes() / 60;
+    return hoursFromStart * pixelsPerHour;
+  };
+
+  /**
+   * Why an appointment can't be moved to [start, end), or null if it can
+   */
+  const getMoveError = useCallback(
+    (appointment: Appointment, start: Date, end: Date): string | null => {
+      const hours = getDayHours(workingHours, start);
+      if (!hours) return 'Неможливо перемістити: це вихідний день';
+
+      const dayOpen = new Date(start);
+      dayOpen.setHours(hours.startHour, 0, 0, 0);
+      const dayClose = new Date(start);
+      dayClose.setHours(hours.endHour, 0, 0, 0);
+      if (start < dayOpen || end > dayClose) {
+        return `Неможливо перемістити: запис виходить за межі робочого часу (${formatHour(hours.startHour)} - ${formatHour(hours.endHour)})`;
+      }
+
+      const blocked = findTimeOffOverlap(timeOff, start, end);
+      if (blocked) {
+        return `Неможливо перемістити: цей час недоступний${blocked.reason ? ` (${blocked.reason})` : ''}`;
+      }
+
+      const service = findService(services, appointment.service_id);
+      const overlaps = appointments.some(
+        (other) =>
+          other.id !== appointment.id &&
+          isActiveAppointment(other) &&
+          clashesWithAppointment(start, end, service, other, services)
+      );
+      return overlaps ? 'Неможливо перемістити: запис перетинається з іншим записом' : null;
+    },
+    [workingHours, timeOff, services, appointments]
+  );
+
+  /**
+   * Handle mouse and touch move/end while dragging an appointment
+   * The drop column picks the day; the vertical distance shifts the time (snapped to 5 minutes).
+   * A press without movement opens the appointment for editing.
+   */
+  useEffect(() => {
+    if (!dragItem) return;
+
+    const handleMove = (e: MouseEvent | TouchEvent) => {
+      const point = 'touches' in e ? e.touches[0] : e;
+      if (!point) return;
+
+      if (
+        !dragItem.hasMoved &&
+        Math.hypot(point.clientX - dragItem.startX, point.clientY - dragItem.startY) > 5
+      ) {
+        setDragItem((prev) => (prev ? { ...prev, hasMoved: true } : null));
+      }
+
+      // Prevent scrolling while dragging on touch devices
+      if ('touches' in e && dragItem.hasMoved) {
+        e.preventDefault();
+      }
+    };
+
+    const handleEnd = async (e: MouseEvent | TouchEvent) => {
+      const point = 'changedTouches' in e ? e.changedTouches[0] : e;
+      // Keep the browser from replaying a tap as mouse events (which would start a new drag)
+      if ('changedTouches' in e) e.preventDefault();
+      setDragItem(null);
+      if (!point) return;
+
+      const appointment = appointments.find((apt) => apt.id === dragItem.id);
+      if (!appointment) return;
+
+      if (!dragItem.hasMoved) {
+        onEditAppointment(appointment);
+        return;
+      }
+
+      const columnsEl = columnsRef.current;
+      if (!columnsEl) return;
+      const rect = columnsEl.getBoundingClientRect();
+      const column = Math.floor(((point.clientX - rect.left) / rect.width) * days.length);
+      if (column < 0 || column >= days.length) return;
+
+      const minutesShift =
+        Math.round((((point.clientY - dragItem.startY) / pixelsPerHour) * 60) / 5) * 5;
+      const currentStart = parseISO(appointment.start_time);
+      const newStart = new Date(days[column]);
+      newStart.setHours(currentStart.getHours(), currentStart.getMinutes() + minutesShift, 0, 0);
+      const newEnd = new Date(newStart.getTime() + appointment.duration_minutes * 60000);
+
+      if (newStart.getTime() === currentStart.getTime()) return;
+
+      const moveError = getMoveError(appointment, newStart, newEnd);
+      if (moveError) {
+        alert(moveError);
+        return;
+      }
+
+      // Breaks of both the old and the new day are reconciled once auto-generation resumes
+      pauseAutoGeneration();
+      try {
+        await onUpdateAppointment(appointment.id, { start_time: newStart.toISOString() });
+      } catch (err) {
+        console.error('Error moving appointment:', err);
+      } finally {
+        resumeAutoGeneration();
+      }
+    };
+
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('touchmove', handleMove, { passive: false });
+    window.addEventListener('mouseup', handleEnd);
+    window.addEventListener('touchend', handleEnd);
+    return () => {
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('touchmove', handleMove);
+      window.removeEventListener('mouseup', handleEnd);
+      window.removeEventListener('touchend', handleEnd);
+    };
+  }, [
+    dragItem,
+    appointments,
+    days,
+    pixelsPerHour,
+    getMoveError,
+    onUpdateAppointment,
+    onEditAppointment,
+    pauseAutoGeneration,
+    resumeAutoGeneration,
+  ]);
+
+  // The month calendar lives in the day view
+  useEffect(() => {
+    const handleOpenCalendar = () => onViewModeChange('day');
+    window.addEventListener('openCalendar', handleOpenCalendar);
+    return () => window.removeEventListener('openCalendar', handleOpenCalendar);
+  }, [onViewModeChange]);
+
+  /**
+   * Render hour labels for the left column
+   */
+  const renderTimeLabels = () => {
+    const labels = [];
+    for (let hour = startHour; hour < endHour; hour++) {
+      labels.push(
+        <div
+          key={hour}
+          className="text-xs text-gray-500 text-right pr-2"
+          style={{ height: `${pixelsPerHour}px` }}
+        >
+          {formatHour(hour)}
+        </div>
+      );
+    }
+    return labels;
+  };
+
+  /**
+   * Render one day column
+   */
+  const renderDayColumn = (day: Date, index: number) => {
+    const hours = dayHours[index];
+    const closedBefore = hours ? Math.max(0, hours.startHour - startHour) : 0;
+    const closedAfter = hours ? Math.max(0, endHour - hours.endHour) : 0;
+
+    return (
+      <div
+        key={day.toISOString()}
+        className={`relative border-l border-gray-200 ${hours ? '' : 'bg-gray-100'}`}
+        style={{ height: `${scheduleHeight}px` }}
+      >
+        {/* Hour grid lines */}
+        {Array.from({ length: endHour - startHour }, (_, i) => (
+          <div
+            key={i}
+            className="absolute left-0 right-0 border-t border-gray-100"
+            style={{ top: `${i * pixelsPerHour}px` }}
+          />
+        ))}
+
+        {/* Hours outside this day's working window */}
+        {closedBefore > 0 && (
+          <div
+            className="absolute left-0 right-0 top-0 bg-gray-100"
+            style={{ height: `${closedBefore * pixelsPerHour}px` }}
+          />
+        )}
+        {closedAfter > 0 && (
+          <div
+            className="absolute left-0 right-0 bottom-0 bg-gray-100"
+            style={{ height: `${closedAfter * pixelsPerHour}px` }}
+          />
+        )}
+
+        {/* Time off */}
+        {getTimeOffForDay(timeOff, day).map((block) => {
+          const clipped = clipTimeOffToDay(block, day, startHour, endHour);
+          if (!clipped) return null;
+          return (
+            <div
+              key={block.id}
+              className="absolute left-0 right-0 bg-gray-200"
+              style={{
+                ...TIME_OFF_HATCH_STYLE,
+                top: `${clipped.from * pixelsPerHour}px`,
+                height: `${(clipped.to - clipped.from) * pixelsPerHour}px`,
+              }}
+              title={block.reason || 'Недоступно'}
+            />
+          );
+        })}
+
+        {/* Breaks */}
+        {itemsOnDay(breaks, day).map((breakItem) => (
+          <div
+            key={breakItem.id}
+            className="absolute w-full"
+            style={{ top: `${getItemPosition(breakItem)}px` }}
+          >
+            <BreakBlock breakItem={breakItem} pixelsPerHour={pixelsPerHour} compact />
+          </div>
+        ))}
+
+        {/* Appointments (cancelled and no-show ones underneath) */}
+        {itemsOnDay(
+          [
+            ...appointments.filter((apt) => !isActiveAppointment(apt)),
+            ...appointments.filter(isActiveAppointment),
+          ],
+          day
+        ).map((appointment) => (
+          <div
+            key={appointment.id}
+            className={`absolute w-full ${dragItem?.id === appointment.id && dragItem.hasMoved ? 'opacity-60' : ''}`}
+            style={{ top: `${getItemPosition(appointment)}px` }}
+          >
+            <AppointmentBlock
+              appointment={appointment}
+              service={findService(services, appointment.service_id)}
+              onEdit={onEditAppointment}
+              onDragStart={(id, _startTime, clientY, clientX) =>
+                setDragItem({ id, startX: clientX, startY: clientY, hasMoved: false })
+              }
+              pixelsPerHour={pixelsPerHour}
+              syncStatus={mutationStatus[appointment.id]}
+              compact
+            />
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  const weekEnd = days[days.length - 1];
+  const isCurrentWeek = days.some((day) => isToday(day));
+
+  return (
+    <div className="bg-white rounded-lg shadow-md overflow-hidden">
+      <div className="px-3 py-3 sm:px-4 sm:py-3 bg-gray-100 border-b border-gray-200">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h2 className="text-lg sm:text-xl font-semibold text-gray-800">
+              {format(weekStart, 'd MMM', { locale: uk })} – {format(weekEnd, 'd MMM yyyy', { locale: uk })}
+            </h2>
+            <p className="text-sm text-gray-600">
+              Заброньовано: {formatBookedMinutes(weekBookedMinutes)}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <ViewModeToggle mode="week" onChange={onViewModeChange} />
+            {!isCurrentWeek && (
+              <button
+                onClick={() => onDateChange(startOfDay(new Date()))}
+                className="px-3 py-2 bg-primary-600 text-white text-sm rounded-md hover:bg-primary-700 transition-colors"
+              >
+                Цей тиждень
+              </button>
+            )}
+            <button
+              onClick={() => onDateChange(subWeeks(selectedDate, 1))}
+              className="p-2 hover:bg-gray-200 rounded transition-colors"
+              title="Попередній тиждень"
+            >
+              <svg className="w-5 h-5 text-gray-700" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+              </svg>
+            </button>
+            <button
+              onClick={() => onDateChange(addWeeks(selectedDate, 1))}
+              className="p-2 hover:bg-gray-200 rounded transition-colors"
+              title="Наступний тиждень"
+            >
+              <svg className="w-5 h-5 text-gray-700" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+              </svg>
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Day headers with booked minutes */}
+      <div className="flex border-b border-gray-200">
+        <div className="w-12 sm:w-16 flex-shrink-0" />
+        <div className="flex-1 grid grid-cols-7">
+          {days.map((day, index) => (
+            <button
+              key={day.toISOString()}
+              onClick={() => {
+                onDateChange(day);
+                onViewModeChange('day');
+              }}
+              className={`px-1 py-2 border-l border-gray-200 text-center hover:bg-gray-50 transition-colors ${
+                isSameDay(day, selectedDate) ? 'bg-primary-50' : ''
+              }`}
+              title="Відкрити день"
+            >
+              <div className={`text-sm font-medium capitalize ${isToday(day) ? 'text-primary-700' : 'text-gray-800'}`}>
+                {format(day, 'EEEEEE d', { locale: uk })}
+              </div>
+              <div className="text-xs text-gray-500">
+                {dayHours[index]
+                  ? bookedMinutes[index] > 0
+                    ? formatBookedMinutes(bookedMinutes[index])
+                    : '—'
+                  : 'Вихідний'}
+              </div>
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div
+        id="week-container"
+        className="relative overflow-y-auto"
+        style={{
+          height: 'calc(100vh - 280px)',
+          minHeight: '400px',
+          maxHeight: '600px',
+        }}
+      >
+        <div className="flex">
+          {/* Time labels */}
+          <div className="w-12 sm:w-16 flex-shrink-0">
+            {renderTimeLabels()}
+          </div>
+
+          {/* Day columns */}
+          <div ref={columnsRef} className="flex-1 grid grid-cols-7">
+            {days.map(renderDayColumn)}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
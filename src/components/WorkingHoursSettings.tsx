@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import type { WorkingHours } from '../types';
+import { DEFAULT_DAY_HOURS, WEEKDAY_NAMES, formatHour } from '../services/workingHours';
+
+interface WorkingHoursSettingsProps {
+  workingHours: WorkingHours;
+  onSave: (workingHours: WorkingHours) => void;
+  onCancel: () => void;
+}
+
+const HOURS = Array.from({ length: 25 }, (_, i) => i);
+
+// Monday first, like the calendar
+const WEEK_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+/**
+ * Settings form for working hours per weekday (or a day off)
+ */
+export const WorkingHoursSettings: React.FC<WorkingHoursSettingsProps> = ({
+  workingHours,
+  onSave,
+  onCancel,
+}) => {
+  const [formData, setFormData] = useState<WorkingHours>(workingHours);
+
+  const updateDay = (weekday: number, field: 'startHour' | 'endHour', value: number) => {
+    setFormData((prev) =>
+      prev.map((day, i) => (i === weekday && day ? { ...day, [field]: value } : day))
+    );
+  };
+
+  const toggleDay = (weekday: number, isWorking: boolean) => {
+    setFormData((prev) =>
+      prev.map((day, i) => (i === weekday ? (isWorking ? { ...DEFAULT_DAY_HOURS } : null) : day))
+    );
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const invalidDay = formData.findIndex((day) => day && day.startHour >= day.endHour);
+    if (invalidDay !== -1) {
+      alert(`${WEEKDAY_NAMES[invalidDay]}: початок робочого дня має бути раніше за кінець`);
+      return;
+    }
+
+    onSave(formData);
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="bg-white rounded-lg shadow-md p-4 sm:p-6 space-y-4 mb-6"
+    >
+      <h2 className="text-xl sm:text-2xl font-semibold text-gray-800">
+        Робочі години
+      </h2>
+
+      <div className="space-y-2">
+        {WEEK_ORDER.map((weekday) => {
+          const day = formData[weekday];
+
+          return (
+            <div key={weekday} className="flex flex-wrap items-center gap-3">
+              <label className="flex items-center gap-2 w-36 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={!!day}
+                  onChange={(e) => toggleDay(weekday, e.target.checked)}
+                  className="h-4 w-4 text-primary-600 border-gray-300 rounded focus:ring-primary-500"
+                />
+                {WEEKDAY_NAMES[weekday]}
+              </label>
+
+              {day ? (
+                <div className="flex items-center gap-2">
+                  <select
+                    value={day.startHour}
+                    onChange={(e) => updateDay(weekday, 'startHour', parseInt(e.target.value, 10))}
+                    className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    aria-label={`${WEEKDAY_NAMES[weekday]}: початок`}
+                  >
+                    {HOURS.map((hour) => (
+                      <option key={hour} value={hour}>
+                        {formatHour(hour)}
+                      </option>
+                    ))}
+                  </select>
+                  <span className="text-gray-500">—</span>
+                  <select
+                    value={day.endHour}
+                    onChange={(e) => updateDay(weekday, 'endHour', parseInt(e.target.value, 10))}
+                    className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+                    aria-label={`${WEEKDAY_NAMES[weekday]}: кінець`}
+                  >
+                    {HOURS.map((hour) => (
+                      <option key={hour} value={hour}>
+                        {formatHour(hour)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ) : (
+                <span className="text-sm text-gray-500">Вихідний</span>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Action Buttons */}
+      <div className="flex gap-3 pt-2">
+        <button
+          type="submit"
+          className="flex-1 bg-primary-600 text-white py-2 px-4 rounded-md hover:bg-primary-700 transition-colors font-medium"
+        >
+          Зберегти
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="flex-1 bg-gray-200 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-300 transition-colors font-medium"
+        >
+          Скасувати
+        </button>
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1,272 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { parseISO, startOfDay } from 'date-fns';
+import type {
+  Appointment,
+  AppointmentSeries,
+  AppointmentSeriesUpdates,
+  BookingConflict,
+  NewAppointmentSeries,
+  ScheduleDiff,
+  SeriesScope,
+  Service,
+  WorkingHours,
+} from '../types';
+import type { ScheduleRepository } from '../services/scheduleRepository';
+import { scheduleRepository } from '../services/appointmentService';
+import {
+  buildOccurrence,
+  endRuleBefore,
+  expandOccurrences,
+  getRecurrenceHorizon,
+} from '../services/recurrence';
+import { findBookingConflicts } from '../services/workingHours';
+
+interface UseAppointmentSeriesOptions {
+  appointments: Appointment[]; // Locally known appointments (including unsynced ones)
+  applyScheduleDiff: (diff: ScheduleDiff, historyLabel?: string | null) => Promise<void>;
+  workingHours: WorkingHours;
+  services: Service[];
+}
+
+/**
+ * Custom hook for recurring appointments
+ * Occurrences are regular appointments created through the schedule diff (so they
+ * go through the offline queue); each series keeps generating them up to a rolling
+ * horizon, skipping dates that conflict with other bookings.
+ */
+export const useAppointmentSeries = (
+  { appointments, applyScheduleDiff, workingHours, services }: UseAppointmentSeriesOptions,
+  repository: ScheduleRepository = scheduleRepository
+) => {
+  const [series, setSeries] = useState<AppointmentSeries[]>([]);
+  const appointmentsRef = useRef(appointments);
+  const workingHoursRef = useRef(workingHours);
+  const servicesRef = useRef(services);
+  const applyScheduleDiffRef = useRef(applyScheduleDiff);
+
+  useEffect(() => {
+    appointmentsRef.current = appointments;
+    workingHoursRef.current = workingHours;
+    servicesRef.current = services;
+    applyScheduleDiffRef.current = applyScheduleDiff;
+  }, [appointments, workingHours, services, applyScheduleDiff]);
+
+  /**
+   * Occurrences of a template in (after, horizon] that can't be booked
+   */
+  const findConflicts = useCallback(
+    async (
+      template: Pick<AppointmentSeries, 'rule' | 'start_time' | 'duration_minutes' | 'service_id'>,
+      starts: Date[]
+    ): Promise<BookingConflict[]> => {
+      if (starts.length === 0) return [];
+
+      // From the start of the first day, so earlier appointments running into it are seen
+      const from = startOfDay(starts[0]);
+      const to = new Date(starts[starts.length - 1].getTime() + template.duration_minutes * 60000);
+      const [stored, timeOff] = await Promise.all([
+        repository.fetchAppointmentsInRange(from, to),
+        repository.fetchTimeOffInRange(from, to),
+      ]);
+
+      // Unsynced local changes win over what the backend returned
+      const local = appointmentsRef.current;
+      const localIds = new Set(local.map((apt) => apt.id));
+      return findBookingConflicts(starts, template.duration_minutes, template.service_id, {
+        appointments: [...stored.filter((apt) => !localIds.has(apt.id)), ...local],
+        timeOff,
+        workingHours: workingHoursRef.current,
+        services: servicesRef.current,
+      });
+    },
+    [repository]
+  );
+
+  /**
+   * Create the occurrences of a series in (after, horizon], skipping conflicting dates
+   * (recorded as one undo step unless `historyLabel` is null)
+   */
+  const generateOccurrences = useCallback(
+    async (item: AppointmentSeries, after: Date | null, horizon: Date, historyLabel: string | null) => {
+      const starts = expandOccurrences(item.start_time, item.rule, after, horizon);
+      const conflicts = new Set((await findConflicts(item, starts)).map((c) => c.start_time));
+      const create = starts
+        .filter((start) => !conflicts.has(start.toISOString()))
+        .map((start) => buildOccurrence(item, start));
+
+      if (create.length > 0) {
+        await applyScheduleDiffRef.current({ appointments: { create } }, historyLabel);
+      }
+      return create.length;
+    },
+    [findConflicts]
+  );
+
+  // Load the series and move every one of them up to the current horizon
+  useEffect(() => {
+    let isCancelled = false;
+    setSeries([]);
+
+    const extend = async () => {
+      const loaded = await repository.fetchSeries();
+      if (isCancelled) return;
+
+      const horizon = getRecurrenceHorizon();
+      const extended = await Promise.all(
+        loaded.map(async (item) => {
+          if (parseISO(item.generated_until) >= horizon) return item;
+          // Extending the horizon isn't an edit of the user's, so it can't be undone
+          await generateOccurrences(item, parseISO(item.generated_until), horizon, null);
+          return repository.updateSeries(item.id, { generated_until: horizon.toISOString() });
+        })
+      );
+      if (!isCancelled) setSeries(extended);
+    };
+
+    extend().catch((err) => {
+      console.error('Failed to load appointment series:', err);
+    });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [repository, generateOccurrences]);
+
+  /**
+   * Occurrences of a new series (up to the horizon) that can't be booked
+   */
+  const checkSeries = useCallback(
+    async (template: Omit<NewAppointmentSeries, 'generated_until'>) => {
+      try {
+        const starts = expandOccurrences(template.start_time, template.rule, null, getRecurrenceHorizon());
+        return await findConflicts(template, starts);
+      } catch (err) {
+        console.error('Failed to check appointment series:', err);
+        throw err;
+      }
+    },
+    [findConflicts]
+  );
+
+  /**
+   * Create a series and its occurrences up to the horizon (conflicting dates are skipped)
+   * Returns the number of occurrences created
+   */
+  const createSeries = useCallback(
+    async (template: Omit<NewAppointmentSeries, 'generated_until'>) => {
+      const horizon = getRecurrenceHorizon();
+      const created = await repository.createSeries({
+        ...template,
+        generated_until: horizon.toISOString(),
+      });
+
+      try {
+        const count = await generateOccurrences(created, null, horizon, 'Створення повторюваного запису');
+        setSeries((prev) => [...prev, created]);
+        return count;
+      } catch (err) {
+        console.error('Failed to create appointment series:', err);
+        await repository.deleteSeries(created.id).catch(() => undefined);
+        throw err;
+      }
+    },
+    [repository, generateOccurrences]
+  );
+
+  /**
+   * Every occurrence of a series, both stored and only known locally
+   */
+  const getOccurrences = useCallback(
+    async (seriesId: string) => {
+      const stored = await repository.fetchSeriesAppointments(seriesId);
+      const local = appointmentsRef.current.filter((apt) => apt.series_id === seriesId);
+      const localIds = new Set(local.map((apt) => apt.id));
+      return [...stored.filter((apt) => !localIds.has(apt.id)), ...local];
+    },
+    [repository]
+  );
+
+  /**
+   * Occurrences of the appointment's series an action with `scope` applies to
+   */
+  const getScopedOccurrences = useCallback(
+    async (appointment: Appointment, scope: Exclude<SeriesScope, 'this'>) => {
+      const occurrences = await getOccurrences(appointment.series_id!);
+      return scope === 'all'
+        ? occurrences
+        : occurrences.filter(
+            (apt) => parseISO(apt.start_time) >= parseISO(appointment.start_time)
+          );
+    },
+    [getOccurrences]
+  );
+
+  /**
+   * Change the template of the appointment's series and its existing occurrences
+   * ("this and following" leaves earlier occurrences as they are)
+   */
+  const updateOccurrences = useCallback(
+    async (
+      appointment: Appointment,
+      scope: Exclude<SeriesScope, 'this'>,
+      updates: Pick<AppointmentSeriesUpdates, 'client_name' | 'client_id' | 'notes'>
+    ) => {
+      if (!appointment.series_id) return;
+      try {
+        const updated = await repository.updateSeries(appointment.series_id, updates);
+        setSeries((prev) => prev.map((item) => (item.id === updated.id ? updated : item)));
+
+        const occurrences = await getScopedOccurrences(appointment, scope);
+        await applyScheduleDiff(
+          {
+            appointments: {
+              update: occurrences.map((apt) => ({
+                id: apt.id,
+                updates,
+                expectedUpdatedAt: apt.updated_at,
+              })),
+            },
+          },
+          'Зміна повторюваного запису'
+        );
+      } catch (err) {
+        console.error('Failed to update appointment series:', err);
+        throw err;
+      }
+    },
+    [repository, getScopedOccurrences, applyScheduleDiff]
+  );
+
+  /**
+   * Delete the appointment and the following occurrences, or every occurrence
+   * The series is ended before the first deleted occurrence rather than removed, so
+   * undoing the delete can restore occurrences that still point to it.
+   */
+  const deleteOccurrences = useCallback(
+    async (appointment: Appointment, scope: Exclude<SeriesScope, 'this'>) => {
+      const current = series.find((item) => item.id === appointment.series_id);
+      if (!current) {
+        throw new Error(`Series with id ${appointment.series_id} not found`);
+      }
+      try {
+        const occurrences = await getScopedOccurrences(appointment, scope);
+        await applyScheduleDiff(
+          { appointments: { delete: occurrences.map((apt) => apt.id) } },
+          'Видалення повторюваного запису'
+        );
+
+        const endBefore = scope === 'all' ? current.start_time : appointment.start_time;
+        const updated = await repository.updateSeries(current.id, {
+          rule: endRuleBefore(current.rule, parseISO(endBefore)),
+        });
+        setSeries((prev) => prev.map((item) => (item.id === updated.id ? updated : item)));
+      } catch (err) {
+        console.error('Failed to delete appointment series:', err);
+        throw err;
+      }
+    },
+    [series, repository, getScopedOccurrences, applyScheduleDiff]
+  );
+
+  return { series, checkSeries, createSeries, updateOccurrences, deleteOccurrences };
+};
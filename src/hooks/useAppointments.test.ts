@@ -0,0 +1,148 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import type { ScheduleRepository } from '../services/scheduleRepository';
+import { DEFAULT_BREAK_POLICY } from '../services/breakPlanner';
+import { DEFAULT_WORKING_HOURS } from '../services/workingHours';
+import { createMemoryRepository } from '../services/memoryRepository';
+import { appointment, at, breakAt, createLiveRepository } from '../test/fixtures';
+import { useAppointments } from './useAppointments';
+
+const selectedDate = at(0);
+
+/**
+ * Let pending repository calls and the state updates they cause finish
+ * (`waitFor` can't be used: it polls with the faked setInterval)
+ */
+const settle = () => act(() => new Promise<void>((resolve) => setTimeout(resolve, 0)));
+
+const renderAppointments = async (repository: ScheduleRepository) => {
+  const rendered = renderHook(() =>
+    useAppointments(selectedDate, DEFAULT_BREAK_POLICY, DEFAULT_WORKING_HOURS, repository)
+  );
+  await settle();
+  expect(rendered.result.current.isLoading).toBe(false);
+  return rendered;
+};
+
+const clientNames = (items: { client_name: string }[]) => items.map((apt) => apt.client_name);
+
+beforeEach(() => {
+  window.localStorage.clear();
+  window.sessionStorage.clear();
+});
+
+describe('useAppointments sync', () => {
+  beforeEach(() => {
+    // Only the polling interval is driven by hand; loads and writes run as usual
+    vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval'] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('merges live inserts, updates and deletes from other devices', async () => {
+    const { repository, live } = createLiveRepository({
+      appointments: [appointment('Олена', at(10))],
+      breaks: [],
+    });
+    const { result } = await renderAppointments(repository);
+
+    act(() => {
+      live.onChange({ table: 'appointments', type: 'upsert', row: appointment('Ірина', at(12)) });
+    });
+    expect(clientNames(result.current.appointments)).toEqual(['Олена', 'Ірина']);
+    expect(result.current.lastRemoteUpdate).not.toBeNull();
+
+    act(() => {
+      live.onChange({ table: 'appointments', type: 'upsert', row: appointment('Олена', at(14)) });
+    });
+    expect(clientNames(result.current.appointments)).toEqual(['Ірина', 'Олена']);
+
+    act(() => {
+      live.onChange({ table: 'appointments', type: 'delete', id: 'Ірина' });
+      live.onChange({
+        table: 'breaks',
+        type: 'upsert',
+        row: breakAt('lunch', at(13), 30, { is_manual: true }),
+      });
+    });
+    expect(clientNames(result.current.appointments)).toEqual(['Олена']);
+    expect(result.current.breaks.map((brk) => brk.id)).toEqual(['lunch']);
+  });
+
+  it('keeps a local change that is still queued over the remote version', async () => {
+    const { repository, live } = createLiveRepository({
+      appointments: [appointment('a1', at(10))],
+      breaks: [],
+    });
+    repository.updateAppointment = () => Promise.reject(new Error('Failed to fetch'));
+    const { result } = await renderAppointments(repository);
+
+    await act(() => result.current.updateAppointment('a1', { notes: 'Локальна зміна' }));
+    await settle();
+    expect(result.current.isOnline).toBe(false);
+
+    act(() => {
+      live.onChange({
+        table: 'appointments',
+        type: 'upsert',
+        row: appointment('a1', at(10), 60, { notes: 'Зміна з іншого пристрою' }),
+      });
+    });
+
+    expect(result.current.appointments[0].notes).toBe('Локальна зміна');
+    expect(result.current.pendingMutationCount).toBe(1);
+  });
+
+  it('picks up changes from other devices by polling while realtime is down', async () => {
+    const { repository } = createLiveRepository({
+      appointments: [appointment('Олена', at(10))],
+      breaks: [],
+    });
+    const { result } = await renderAppointments(repository);
+    expect(result.current.syncMode).toBe('polling');
+
+    // Another device books straight into the shared backend
+    await repository.createAppointment(appointment('Ірина', at(12)));
+    expect(clientNames(result.current.appointments)).toEqual(['Олена']);
+
+    await act(() => vi.advanceTimersByTimeAsync(30000));
+    await settle();
+    expect(clientNames(result.current.appointments)).toEqual(['Олена', 'Ірина']);
+  });
+
+  it('stops polling once the live connection is up', async () => {
+    const { repository, live } = createLiveRepository();
+    const fetchRange = vi.spyOn(repository, 'fetchAppointmentsInRange');
+    const { result } = await renderAppointments(repository);
+
+    act(() => live.onStatus(true));
+    expect(result.current.syncMode).toBe('realtime');
+
+    fetchRange.mockClear();
+    await act(() => vi.advanceTimersByTimeAsync(90000));
+    expect(fetchRange).not.toHaveBeenCalled();
+  });
+});
+
+describe('useAppointments conflicts', () => {
+  it('asks to resolve an edit that only changed the service', async () => {
+    const repository = createMemoryRepository({
+      appointments: [appointment('a1', at(10), 60, { service_id: 's1', updated_at: 'v1' })],
+      breaks: [],
+    });
+    const { result } = await renderAppointments(repository);
+
+    // Another device edits the notes after this one loaded the appointment
+    await repository.updateAppointment('a1', { notes: 'Зміна з іншого пристрою' }, 'v1');
+    await act(() => result.current.updateAppointment('a1', { service_id: 's2' }));
+    await settle();
+
+    expect(result.current.conflicts).toHaveLength(1);
+    const [{ mine, theirs }] = result.current.conflicts;
+    expect(mine).toMatchObject({ service_id: 's2', notes: 'Зміна з іншого пристрою' });
+    expect(theirs.service_id).toBe('s1');
+  });
+});
@@ -1,51 +1,431 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
-import type { Appointment, Break, ScheduleItem } from '../types';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { addDays, format, parseISO, startOfDay, startOfWeek, subDays } from 'date-fns';
+import type {
+  Appointment,
+  AppointmentConflict,
+  AppointmentUpdates,
+  Break,
+  BreakPlan,
+  BreakPolicy,
+  BreakUpdates,
+  NewAppointment,
+  MutationOperation,
+  NewBreak,
+  QueuedMutation,
+  ScheduleChange,
+  ScheduleDiff,
+  ScheduleHistory,
+  ScheduleItem,
+  SyncStatus,
+  TableDiff,
+  WorkingHours,
+} from '../types';
 import {
-  fetchAppointments,
-  fetchBreaks,
-  createAppointment as createAppointmentService,
-  updateAppointment as updateAppointmentService,
-  deleteAppointment as deleteAppointmentService,
-  createBreak as createBreakService,
-  updateBreak as updateBreakService,
-  deleteBreak as deleteBreakService,
-} from '../services/appointmentService';
+  calculateEndTime,
+  diffAppointmentFields,
+  fetchScheduleRange,
+  isConflictError,
+  sortByStartTime,
+  startsInRange,
+  type ScheduleRepository,
+} from '../services/scheduleRepository';
+import { scheduleRepository } from '../services/appointmentService';
+import {
+  applyDiff,
+  applyQueuedMutations,
+  applyUpdates,
+  getTargetIds,
+  toSnapshot,
+  type MutationResult,
+} from '../services/mutationQueue';
+import { DEFAULT_BREAK_POLICY, planBreaks } from '../services/breakPlanner';
+import { DEFAULT_WORKING_HOURS, getDayHours } from '../services/workingHours';
+import { loadHistory, pushHistory, saveHistory, toHistoryEntry } from '../services/scheduleHistory';
+import { useScheduleSync } from './useScheduleSync';
+import { useMutationQueue } from './useMutationQueue';
+
+/**
+ * Changes arriving this soon after a local write are treated as our own echo
+ */
+const OWN_CHANGE_WINDOW_MS = 3000;
+
+const MUTATION_ERROR_MESSAGES: Record<MutationOperation['kind'], string> = {
+  createAppointment: 'Failed to create appointment',
+  updateAppointment: 'Failed to update appointment',
+  deleteAppointment: 'Failed to delete appointment',
+  createBreak: 'Failed to create break',
+  updateBreak: 'Failed to update break',
+  deleteBreak: 'Failed to delete break',
+  applyBatch: 'Failed to apply schedule changes',
+};
+
+/**
+ * Cache key for a calendar day (local time)
+ */
+const dayKey = (date: Date): string => format(date, 'yyyy-MM-dd');
+
+/**
+ * Replace the items starting within [from, to) with freshly fetched ones
+ */
+const mergeRange = <T extends ScheduleItem>(
+  current: T[],
+  fetched: T[],
+  from: Date,
+  to: Date
+): T[] =>
+  sortByStartTime([
+    ...current.filter((item) => !startsInRange(item, from, to)),
+    ...fetched,
+  ]);
+
+/**
+ * Insert/replace (when `row` is given) or remove the item with the given id
+ */
+const applyChange = <T extends ScheduleItem>(items: T[], id: string, row?: T): T[] => {
+  const rest = items.filter((item) => item.id !== id);
+  return row ? sortByStartTime([...rest, row]) : rest;
+};
+
+/**
+ * Insert or replace several items at once
+ */
+const upsertItems = <T extends ScheduleItem>(items: T[], rows: T[]): T[] => {
+  const ids = new Set(rows.map((row) => row.id));
+  return sortByStartTime([...items.filter((item) => !ids.has(item.id)), ...rows]);
+};
+
+/**
+ * Give created rows their client-side id and updates the version they are based on
+ */
+const prepareTableDiff = <TNew extends { id?: string }, TUpdates>(
+  diff: TableDiff<TNew, TUpdates> | undefined,
+  current: ScheduleItem[]
+): TableDiff<TNew, TUpdates> | undefined =>
+  diff && {
+    ...diff,
+    create: diff.create?.map((row) => ({ ...row, id: row.id ?? crypto.randomUUID() })),
+    update: diff.update?.map((entry) => ({
+      ...entry,
+      expectedUpdatedAt:
+        entry.expectedUpdatedAt ?? current.find((item) => item.id === entry.id)?.updated_at,
+    })),
+  };
+
+/**
+ * Signature of appointment positions - break auto-generation reruns when it changes
+ */
+const appointmentsSignature = (items: Appointment[]): string =>
+  items.map((a) => `${a.id}:${a.start_time}:${a.end_time}`).join('|');
+
+/**
+ * Order-independent signature of row versions, used to detect remote edits when polling
+ */
+const versionSignature = (items: ScheduleItem[]): string =>
+  items.map((item) => `${item.id}:${item.updated_at}`).sort().join('|');
 
 /**
  * Custom hook for managing appointments and breaks
- * Handles local state + Supabase synchronization
+ * Handles local state + synchronization with the configured schedule repository.
+ * Only the days that have been shown (or prefetched) are loaded; they are kept
+ * in a per-day cache that is invalidated whenever a mutation touches that day.
  */
-export const useAppointments = () => {
+export const useAppointments = (
+  selectedDate: Date,
+  breakPolicy: BreakPolicy = DEFAULT_BREAK_POLICY,
+  workingHours: WorkingHours = DEFAULT_WORKING_HOURS,
+  repository: ScheduleRepository = scheduleRepository
+) => {
   const [appointments, setAppointments] = useState<Appointment[]>([]);
   const [breaks, setBreaks] = useState<Break[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [forceRefresh, setForceRefresh] = useState(0);
+  const [lastRemoteUpdate, setLastRemoteUpdate] = useState<Date | null>(null);
+  const [conflicts, setConflicts] = useState<AppointmentConflict[]>([]);
+  const [history, setHistory] = useState<ScheduleHistory>(loadHistory);
+  const historyRef = useRef(history);
   const pauseCounterRef = useRef(0);
   const autoGenerationTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const appointmentsRef = useRef<Appointment[]>([]);
   const breaksRef = useRef<Break[]>([]);
+  const loadedDaysRef = useRef<Set<string>>(new Set());
+  // Days other than the selected one whose breaks need reconciling (e.g. after a week view move)
+  const breakDaysRef = useRef<Map<string, Date>>(new Map());
+  const selectedDateRef = useRef(selectedDate);
+  const pendingWritesRef = useRef(0);
+  const lastWriteAtRef = useRef(0);
+  const remoteSignatureRef = useRef<string | null>(null);
+  const breakPolicyRef = useRef(breakPolicy);
+  const workingHoursRef = useRef(workingHours);
+
+  /**
+   * Run a repository write, remembering when this device last wrote
+   * so realtime echoes of our own changes aren't reported as remote
+   */
+  const trackWrite = useCallback(async <T>(write: () => Promise<T>): Promise<T> => {
+    pendingWritesRef.current += 1;
+    try {
+      return await write();
+    } finally {
+      pendingWritesRef.current -= 1;
+      lastWriteAtRef.current = Date.now();
+    }
+  }, []);
+
+  const isOwnChange = useCallback(
+    () =>
+      pendingWritesRef.current > 0 ||
+      Date.now() - lastWriteAtRef.current < OWN_CHANGE_WINDOW_MS,
+    []
+  );
+
+  /**
+   * Replace optimistic rows with the stored ones once their mutation is synced,
+   * except items that later queued changes still have to be applied to
+   */
+  const handleMutationSynced = useCallback(
+    (_mutation: QueuedMutation, result: MutationResult, remaining: QueuedMutation[]) => {
+      const stillQueued = new Set(remaining.flatMap(getTargetIds));
+      const isSettled = (item: ScheduleItem) => !stillQueued.has(item.id);
+      const stored = toSnapshot(result);
+
+      const settledAppointments = stored.appointments.filter(isSettled);
+      const settledBreaks = stored.breaks.filter(isSettled);
+      if (settledAppointments.length > 0) {
+        setAppointments((prev) => upsertItems(prev, settledAppointments));
+      }
+      if (settledBreaks.length > 0) {
+        setBreaks((prev) => upsertItems(prev, settledBreaks));
+      }
+    },
+    []
+  );
+
+  /**
+   * Handle a rejected mutation
+   * Version conflicts on appointments are handed to the user to resolve; conflicts
+   * on breaks keep the stored version (auto-generation reconciles them afterwards);
+   * a conflicting batch stays failed until it is retried or discarded
+   */
+  const handleMutationFailed = useCallback((mutation: QueuedMutation, err: unknown) => {
+    if (isConflictError(err) && err.table === 'breaks' && mutation.kind === 'updateBreak') {
+      setBreaks((prev) => applyChange(prev, err.current.id, err.current));
+      return true;
+    }
+
+    if (
+      isConflictError(err) &&
+      err.table === 'appointments' &&
+      mutation.kind === 'updateAppointment'
+    ) {
+      const theirs = err.current;
+      const mine = applyUpdates<Appointment>(theirs, mutation.updates);
+
+      // Both devices made the same change - nothing to resolve
+      if (diffAppointmentFields(mine, theirs).length === 0) {
+        setAppointments((prev) => applyChange(prev, theirs.id, theirs));
+        return true;
+      }
+
+      setConflicts((prev) => [
+        ...prev.filter((c) => c.mutationId !== mutation.id),
+        { mutationId: mutation.id, mine, theirs },
+      ]);
+      return;
+    }
+
+    setError(MUTATION_ERROR_MESSAGES[mutation.kind]);
+  }, []);
+
+  // Reconcile breaks once everything made offline has reached the backend
+  const handleQueueDrained = useCallback(() => {
+    setForceRefresh((prev) => prev + 1);
+  }, []);
+
+  const {
+    queue,
+    isOnline,
+    enqueue,
+    remove,
+    retryFailed,
+    discardFailed,
+    getQueue,
+  } = useMutationQueue(repository, {
+    runWrite: trackWrite,
+    onSynced: handleMutationSynced,
+    onFailed: handleMutationFailed,
+    onDrained: handleQueueDrained,
+  });
+
+  /**
+   * Apply appointments coming from another device without re-running break
+   * auto-generation for them (the other device already reconciled its breaks)
+   */
+  const setAppointmentsFromRemote = useCallback(
+    (update: (prev: Appointment[]) => Appointment[]) => {
+      setAppointments((prev) => {
+        const next = update(prev);
+        remoteSignatureRef.current = appointmentsSignature(next);
+        return next;
+      });
+    },
+    []
+  );
+
+  /**
+   * Load every day in the window that isn't cached yet with a single range query
+   */
+  const loadDays = useCallback(
+    async (from: Date, dayCount: number) => {
+      const missingDays = Array.from({ length: dayCount }, (_, i) =>
+        addDays(startOfDay(from), i)
+      ).filter((day) => !loadedDaysRef.current.has(dayKey(day)));
+
+      if (missingDays.length === 0) return;
+
+      const rangeStart = missingDays[0];
+      const rangeEnd = addDays(missingDays[missingDays.length - 1], 1);
+
+      // Mark as loaded up front so overlapping prefetches don't repeat the request
+      missingDays.forEach((day) => loadedDaysRef.current.add(dayKey(day)));
+
+      try {
+        // Keep unsynced local changes visible on top of what the backend returned
+        const range = applyQueuedMutations(
+          await fetchScheduleRange(repository, rangeStart, rangeEnd),
+          getQueue()
+        );
+        const inRange = (item: ScheduleItem) => startsInRange(item, rangeStart, rangeEnd);
+        setAppointments((prev) =>
+          mergeRange(prev, range.appointments.filter(inRange), rangeStart, rangeEnd)
+        );
+        setBreaks((prev) => mergeRange(prev, range.breaks.filter(inRange), rangeStart, rangeEnd));
+      } catch (err) {
+        missingDays.forEach((day) => loadedDaysRef.current.delete(dayKey(day)));
+        throw err;
+      }
+    },
+    [repository, getQueue]
+  );
+
+  /**
+   * Drop the cached days the given items start on, so they are refetched next time
+   */
+  const invalidateDays = useCallback((...items: (ScheduleItem | undefined)[]) => {
+    for (const item of items) {
+      if (item) loadedDaysRef.current.delete(dayKey(parseISO(item.start_time)));
+    }
+  }, []);
+
+  /**
+   * Remember the days the given appointments start on for the next break auto-generation
+   */
+  const markBreakDays = useCallback((...items: (Appointment | undefined)[]) => {
+    for (const item of items) {
+      if (!item) continue;
+      const day = startOfDay(parseISO(item.start_time));
+      breakDaysRef.current.set(dayKey(day), day);
+    }
+  }, []);
 
   /**
-   * Load all appointments and breaks from Supabase
+   * Reload the selected day and its neighbours, discarding the whole cache
    */
   const loadSchedule = useCallback(async () => {
     try {
-      setIsLoading(true);
       setError(null);
-      const [appointmentsData, breaksData] = await Promise.all([
-        fetchAppointments(),
-        fetchBreaks(),
-      ]);
-      setAppointments(appointmentsData);
-      setBreaks(breaksData);
+      loadedDaysRef.current.clear();
+      await loadDays(subDays(selectedDateRef.current, 1), 3);
     } catch (err) {
       setError('Failed to load schedule');
       console.error(err);
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [loadDays]);
+
+  /**
+   * Prefetch a day and its neighbours in the background
+   */
+  const prefetchDays = useCallback(
+    (date: Date) => {
+      loadDays(subDays(date, 1), 3).catch((err) => {
+        console.error('Failed to prefetch schedule:', err);
+      });
+    },
+    [loadDays]
+  );
+
+  /**
+   * Load the Monday-to-Sunday week containing a date (for the week view)
+   */
+  const prefetchWeek = useCallback(
+    (date: Date) => {
+      loadDays(startOfWeek(date, { weekStartsOn: 1 }), 7).catch((err) => {
+        console.error('Failed to load week:', err);
+      });
+    },
+    [loadDays]
+  );
+
+  /**
+   * Merge a realtime change into local state
+   */
+  const handleRemoteChange = useCallback(
+    (change: ScheduleChange) => {
+      // Local changes still waiting in the queue win until they are synced
+      const changedId = change.type === 'delete' ? change.id : change.row.id;
+      if (getQueue().some((m) => getTargetIds(m).includes(changedId))) return;
+
+      if (change.table === 'appointments') {
+        setAppointmentsFromRemote((prev) =>
+          change.type === 'delete'
+            ? applyChange(prev, change.id)
+            : applyChange(prev, change.row.id, change.row)
+        );
+      } else {
+        setBreaks((prev) =>
+          change.type === 'delete'
+            ? applyChange(prev, change.id)
+            : applyChange(prev, change.row.id, change.row)
+        );
+      }
+
+      if (!isOwnChange()) {
+        setLastRemoteUpdate(new Date());
+      }
+    },
+    [isOwnChange, setAppointmentsFromRemote, getQueue]
+  );
+
+  /**
+   * Refetch the selected day and merge it if anything changed (polling fallback)
+   */
+  const pollSelectedDay = useCallback(async () => {
+    if (pendingWritesRef.current > 0 || getQueue().length > 0) return;
+
+    const dayStart = startOfDay(selectedDateRef.current);
+    const dayEnd = addDays(dayStart, 1);
+    const range = await fetchScheduleRange(repository, dayStart, dayEnd);
+    const inDay = (item: ScheduleItem) => startsInRange(item, dayStart, dayEnd);
+
+    const hasChanged =
+      versionSignature(range.appointments) !==
+        versionSignature(appointmentsRef.current.filter(inDay)) ||
+      versionSignature(range.breaks) !== versionSignature(breaksRef.current.filter(inDay));
+
+    if (!hasChanged) return;
+
+    setAppointmentsFromRemote((prev) => mergeRange(prev, range.appointments, dayStart, dayEnd));
+    setBreaks((prev) => mergeRange(prev, range.breaks, dayStart, dayEnd));
+    loadedDaysRef.current.add(dayKey(dayStart));
+
+    if (!isOwnChange()) {
+      setLastRemoteUpdate(new Date());
+    }
+  }, [repository, isOwnChange, setAppointmentsFromRemote, getQueue]);
+
+  const syncMode = useScheduleSync(repository, handleRemoteChange, pollSelectedDay);
 
   // Update refs when state changes
   useEffect(() => {
@@ -56,30 +436,67 @@ export const useAppointments = () => {
     breaksRef.current = breaks;
   }, [breaks]);
 
-  // Load schedule on mount
   useEffect(() => {
-    loadSchedule();
-  }, [loadSchedule]);
+    breakPolicyRef.current = breakPolicy;
+  }, [breakPolicy]);
+
+  useEffect(() => {
+    workingHoursRef.current = workingHours;
+  }, [workingHours]);
+
+  // Load the selected day whenever it changes (no-op if already cached)
+  useEffect(() => {
+    selectedDateRef.current = selectedDate;
+    loadDays(selectedDate, 1)
+      .catch((err) => {
+        setError('Failed to load schedule');
+        console.error(err);
+      })
+      .finally(() => setIsLoading(false));
+  }, [selectedDate, loadDays]);
+
+  /**
+   * Replace the undo/redo stacks (ref, state and session storage together)
+   */
+  const commitHistory = useCallback((next: ScheduleHistory) => {
+    historyRef.current = next;
+    setHistory(next);
+    saveHistory(next);
+  }, []);
+
+  /**
+   * Remember an edit that is about to be applied, so it can be undone
+   * Breaks written by auto-generation aren't recorded - it reconciles them again after an undo.
+   */
+  const recordHistory = useCallback(
+    (label: string, diff: ScheduleDiff) => {
+      const snapshot = { appointments: appointmentsRef.current, breaks: breaksRef.current };
+      commitHistory(pushHistory(historyRef.current, toHistoryEntry(label, snapshot, diff)));
+    },
+    [commitHistory]
+  );
 
   /**
    * Create a new appointment
+   * Applied locally right away and synced through the offline queue
    */
   const createAppointment = useCallback(
-    async (
-      appointmentData: Omit<Appointment, 'id' | 'created_at' | 'updated_at'>
-    ) => {
-      try {
-        const newAppointment = await createAppointmentService(appointmentData);
-        setAppointments((prev) => [...prev, newAppointment].sort((a, b) =>
-          a.start_time.localeCompare(b.start_time)
-        ));
-        return newAppointment;
-      } catch (err) {
-        setError('Failed to create appointment');
-        throw err;
-      }
+    async (appointmentData: NewAppointment) => {
+      const newAppointment: Appointment = {
+        status: 'booked',
+        status_timestamps: { booked: new Date().toISOString() },
+        ...appointmentData,
+        id: appointmentData.id ?? crypto.randomUUID(),
+        end_time: calculateEndTime(appointmentData.start_time, appointmentData.duration_minutes),
+      };
+      recordHistory('Створення запису', { appointments: { create: [newAppointment] } });
+      invalidateDays(newAppointment);
+      markBreakDays(newAppointment);
+      setAppointments((prev) => applyChange(prev, newAppointment.id, newAppointment));
+      enqueue({ kind: 'createAppointment', targetId: newAppointment.id, row: newAppointment });
+      return newAppointment;
     },
-    []
+    [enqueue, invalidateDays, markBreakDays, recordHistory]
   );
 
   /**
@@ -88,53 +505,63 @@ export const useAppointments = () => {
   const updateAppointment = useCallback(
     async (
       id: string,
-      updates: Partial<Omit<Appointment, 'id' | 'created_at' | 'updated_at'>>
+      updates: AppointmentUpdates
     ) => {
-      try {
-        const updatedAppointment = await updateAppointmentService(id, updates);
-        setAppointments((prev) =>
-          prev.map((apt) => (apt.id === id ? updatedAppointment : apt))
-            .sort((a, b) => a.start_time.localeCompare(b.start_time))
-        );
-        return updatedAppointment;
-      } catch (err) {
+      const current = appointmentsRef.current.find((apt) => apt.id === id);
+      if (!current) {
         setError('Failed to update appointment');
-        throw err;
+        throw new Error(`Appointment with id ${id} not found or already deleted`);
       }
+
+      const updatedAppointment = applyUpdates<Appointment>(current, updates);
+      recordHistory('Зміна запису', { appointments: { update: [{ id, updates }] } });
+      invalidateDays(current, updatedAppointment);
+      markBreakDays(current, updatedAppointment);
+      setAppointments((prev) =>
+        sortByStartTime(
+          prev.map((apt) => (apt.id === id ? applyUpdates<Appointment>(apt, updates) : apt))
+        )
+      );
+      enqueue({
+        kind: 'updateAppointment',
+        targetId: id,
+        updates,
+        expectedUpdatedAt: current.updated_at,
+      });
+      return updatedAppointment;
     },
-    []
+    [enqueue, invalidateDays, markBreakDays, recordHistory]
   );
 
   /**
    * Delete an appointment
    */
   const deleteAppointment = useCallback(async (id: string) => {
-    try {
-      await deleteAppointmentService(id);
-      setAppointments((prev) => prev.filter((apt) => apt.id !== id));
-    } catch (err) {
-      setError('Failed to delete appointment');
-      throw err;
-    }
-  }, []);
+    const current = appointmentsRef.current.find((apt) => apt.id === id);
+    recordHistory('Видалення запису', { appointments: { delete: [id] } });
+    invalidateDays(current);
+    markBreakDays(current);
+    setAppointments((prev) => applyChange(prev, id));
+    enqueue({ kind: 'deleteAppointment', targetId: id });
+  }, [enqueue, invalidateDays, markBreakDays, recordHistory]);
 
   /**
    * Create a new break
    */
   const createBreak = useCallback(
-    async (breakData: Omit<Break, 'id' | 'created_at' | 'updated_at'>) => {
-      try {
-        const newBreak = await createBreakService(breakData);
-        setBreaks((prev) => [...prev, newBreak].sort((a, b) =>
-          a.start_time.localeCompare(b.start_time)
-        ));
-        return newBreak;
-      } catch (err) {
-        setError('Failed to create break');
-        throw err;
-      }
+    async (breakData: NewBreak) => {
+      const newBreak: Break = {
+        ...breakData,
+        id: breakData.id ?? crypto.randomUUID(),
+        end_time: calculateEndTime(breakData.start_time, breakData.duration_minutes),
+      };
+      recordHistory('Створення перерви', { breaks: { create: [newBreak] } });
+      invalidateDays(newBreak);
+      setBreaks((prev) => applyChange(prev, newBreak.id, newBreak));
+      enqueue({ kind: 'createBreak', targetId: newBreak.id, row: newBreak });
+      return newBreak;
     },
-    []
+    [enqueue, invalidateDays, recordHistory]
   );
 
   /**
@@ -143,45 +570,109 @@ export const useAppointments = () => {
   const updateBreak = useCallback(
     async (
       id: string,
-      updates: Partial<Omit<Break, 'id' | 'created_at' | 'updated_at'>>
+      updates: BreakUpdates
     ) => {
-      try {
-        const updatedBreak = await updateBreakService(id, updates);
-        setBreaks((prev) =>
-          prev.map((brk) => (brk.id === id ? updatedBreak : brk))
-            .sort((a, b) => a.start_time.localeCompare(b.start_time))
-        );
-        // Clear any previous errors on success
-        setError(null);
-        return updatedBreak;
-      } catch (err) {
-        console.error('Failed to update break:', err);
+      const current = breaksRef.current.find((brk) => brk.id === id);
+      if (!current) {
         setError('Failed to update break');
         // Clear error after 3 seconds
         setTimeout(() => setError(null), 3000);
-        throw err;
+        throw new Error(`Break with id ${id} not found or already deleted`);
       }
+
+      // Breaks the user moves by hand are kept by auto-generation (see BreakPolicy)
+      updates = { ...updates, is_manual: true };
+      const updatedBreak = applyUpdates<Break>(current, updates);
+      recordHistory('Зміна перерви', { breaks: { update: [{ id, updates }] } });
+      invalidateDays(current, updatedBreak);
+      setBreaks((prev) =>
+        sortByStartTime(
+          prev.map((brk) => (brk.id === id ? applyUpdates<Break>(brk, updates) : brk))
+        )
+      );
+      enqueue({ kind: 'updateBreak', targetId: id, updates, expectedUpdatedAt: current.updated_at });
+      return updatedBreak;
     },
-    []
+    [enqueue, invalidateDays, recordHistory]
   );
 
   /**
    * Delete a break
    */
   const deleteBreak = useCallback(async (id: string) => {
-    try {
-      await deleteBreakService(id);
-      setBreaks((prev) => prev.filter((brk) => brk.id !== id));
-      // Clear any previous errors on success
-      setError(null);
-    } catch (err) {
-      console.error('Failed to delete break:', err);
-      setError('Failed to delete break');
-      // Clear error after 3 seconds
-      setTimeout(() => setError(null), 3000);
-      throw err;
-    }
-  }, []);
+    recordHistory('Видалення перерви', { breaks: { delete: [id] } });
+    invalidateDays(breaksRef.current.find((brk) => brk.id === id));
+    setBreaks((prev) => applyChange(prev, id));
+    enqueue({ kind: 'deleteBreak', targetId: id });
+  }, [enqueue, invalidateDays, recordHistory]);
+
+  /**
+   * Apply a diff locally and queue it as one atomic batch; returns it with ids and versions filled in
+   */
+  const commitDiff = useCallback(
+    (diff: ScheduleDiff): ScheduleDiff => {
+      const prepared: ScheduleDiff = {
+        appointments: prepareTableDiff(diff.appointments, appointmentsRef.current),
+        breaks: prepareTableDiff(diff.breaks, breaksRef.current),
+      };
+      const touchedIds = new Set(getTargetIds({ kind: 'applyBatch', diff: prepared }));
+      const isTouched = (item: ScheduleItem) => touchedIds.has(item.id);
+      const next = applyDiff(
+        { appointments: appointmentsRef.current, breaks: breaksRef.current },
+        prepared
+      );
+
+      invalidateDays(
+        ...appointmentsRef.current.filter(isTouched),
+        ...breaksRef.current.filter(isTouched),
+        ...next.appointments.filter(isTouched),
+        ...next.breaks.filter(isTouched)
+      );
+      setAppointments((prev) => applyDiff({ appointments: prev, breaks: [] }, prepared).appointments);
+      setBreaks((prev) => applyDiff({ appointments: [], breaks: prev }, prepared).breaks);
+      enqueue({ kind: 'applyBatch', diff: prepared });
+      return prepared;
+    },
+    [enqueue, invalidateDays]
+  );
+
+  /**
+   * Apply several changes at once (e.g. a bulk shift)
+   * Applied locally right away and synced as one atomic batch through the offline queue;
+   * recorded as a single undo step unless `historyLabel` is null
+   */
+  const applyScheduleDiff = useCallback(
+    async (diff: ScheduleDiff, historyLabel: string | null = 'Зміни розкладу') => {
+      const snapshot = { appointments: appointmentsRef.current, breaks: breaksRef.current };
+      const prepared = commitDiff(diff);
+      if (historyLabel) {
+        commitHistory(pushHistory(historyRef.current, toHistoryEntry(historyLabel, snapshot, prepared)));
+      }
+    },
+    [commitDiff, commitHistory]
+  );
+
+  /**
+   * Revert the most recent recorded edit
+   */
+  const undo = useCallback(() => {
+    const { past, future } = historyRef.current;
+    const entry = past[past.length - 1];
+    if (!entry) return;
+    commitHistory({ past: past.slice(0, -1), future: [entry, ...future] });
+    commitDiff(entry.undo);
+  }, [commitDiff, commitHistory]);
+
+  /**
+   * Apply the most recently undone edit again
+   */
+  const redo = useCallback(() => {
+    const { past, future } = historyRef.current;
+    const entry = future[0];
+    if (!entry) return;
+    commitHistory({ past: [...past, entry], future: future.slice(1) });
+    commitDiff(entry.redo);
+  }, [commitDiff, commitHistory]);
 
   /**
    * Get all schedule items (appointments + breaks) sorted by time
@@ -193,9 +684,11 @@ export const useAppointments = () => {
   }, [appointments, breaks]);
 
   /**
-   * Auto-generate breaks for gaps <= 30 minutes between appointments
-   * Stretches existing breaks or creates new ones, removes breaks if gap > 30 minutes
-   * Called after appointments are created or updated
+   * Auto-generate breaks for short gaps between appointments
+   * Plans the changes with `planBreaks` under the current break policy and each day's
+   * working hours and writes them;
+   * called after appointments are created or updated, works on the selected day plus
+   * any other day whose appointments changed since the last run
    */
   const autoGenerateBreaks = useCallback(async () => {
     // Don't run if paused
@@ -203,184 +696,138 @@ export const useAppointments = () => {
       console.log('[AutoGen] Skipped - paused');
       return;
     }
+
+    // The backend doesn't have our offline changes yet - wait for the queue to drain
+    if (getQueue().some((m) => m.status === 'pending')) {
+      console.log('[AutoGen] Skipped - unsynced changes in queue');
+      return;
+    }
     
     console.log('[AutoGen] Running...');
+
+    const days = new Map(breakDaysRef.current);
+    breakDaysRef.current.clear();
+    const selectedDay = startOfDay(selectedDateRef.current);
+    days.set(dayKey(selectedDay), selectedDay);
     
     try {
-      // Fetch the absolute latest data from the database to avoid stale data issues
-      const [latestAppointments, latestBreaks] = await Promise.all([
-        fetchAppointments(),
-        fetchBreaks(),
-      ]);
-      
-      console.log('[AutoGen] Latest appointments from DB:', latestAppointments.length);
-      console.log('[AutoGen] Latest breaks from DB:', latestBreaks.length);
-      
-      // Sort appointments by start time
-      const sortedAppointments = [...latestAppointments].sort((a, b) =>
-        a.start_time.localeCompare(b.start_time)
+      // Fetch the absolute latest data for each day to avoid stale data issues
+      const dayPlans = await Promise.all(
+        [...days.values()].map(async (dayStart) => {
+          const {
+            appointments: latestAppointments,
+            breaks: latestBreaks,
+          } = await fetchScheduleRange(repository, dayStart, addDays(dayStart, 1));
+
+          console.log(
+            `[AutoGen] ${dayKey(dayStart)}: ${latestAppointments.length} appointments, ${latestBreaks.length} breaks`
+          );
+          return planBreaks(
+            latestAppointments,
+            latestBreaks,
+            getDayHours(workingHoursRef.current, dayStart),
+            breakPolicyRef.current
+          );
+        })
       );
+      const plan: BreakPlan = {
+        create: dayPlans.flatMap((dayPlan) => dayPlan.create),
+        update: dayPlans.flatMap((dayPlan) => dayPlan.update),
+        delete: dayPlans.flatMap((dayPlan) => dayPlan.delete),
+      };
 
-      const breaksToCreate: Omit<Break, 'id' | 'created_at' | 'updated_at'>[] = [];
-      const breaksToUpdate: { id: string; updates: Partial<Break> }[] = [];
-      const breaksToDelete: string[] = [];
-
-      // Track which breaks are legitimate (between appointments with gap <= 25)
-      const legitimateBreakRanges = new Set<string>();
-
-      // Check gaps between consecutive appointments
-      for (let i = 0; i < sortedAppointments.length - 1; i++) {
-        const currentApt = sortedAppointments[i];
-        const nextApt = sortedAppointments[i + 1];
-
-        const currentEnd = new Date(currentApt.end_time);
-        const nextStart = new Date(nextApt.start_time);
-
-        // Calculate gap in minutes
-        const gapMinutes = (nextStart.getTime() - currentEnd.getTime()) / (1000 * 60);
-
-        if (gapMinutes > 0 && gapMinutes <= 30) {
-          // Mark this range as legitimate
-          legitimateBreakRanges.add(`${currentEnd.getTime()}-${nextStart.getTime()}`);
-
-          // Check if any breaks exist in or overlap with this gap
-          const existingBreaks = latestBreaks.filter(brk => {
-            const brkStart = new Date(brk.start_time);
-            const brkEnd = new Date(brk.end_time);
-            // Break overlaps this gap if:
-            // - It starts within the gap, OR
-            // - It ends within the gap, OR
-            // - It completely spans the gap
-            return (brkStart >= currentEnd && brkStart < nextStart) ||
-                   (brkEnd > currentEnd && brkEnd <= nextStart) ||
-                   (brkStart < currentEnd && brkEnd > nextStart);
-          });
-          
-          // Take the first overlapping break
-          const existingBreak = existingBreaks[0];
-
-          if (existingBreak) {
-            // Update existing break to match the full gap
-            const targetDuration = Math.floor(gapMinutes);
-            const targetStart = currentEnd.toISOString();
-            
-            console.log(`[AutoGen] Found existing break ${existingBreak.id} in gap between appointments ${i} and ${i+1}`);
-            console.log(`  Current: ${existingBreak.start_time} (${existingBreak.duration_minutes}min)`);
-            console.log(`  Target: ${targetStart} (${targetDuration}min)`);
-            
-            // Always update if start time or duration doesn't match the full gap
-            if (existingBreak.start_time !== targetStart || 
-                existingBreak.duration_minutes !== targetDuration) {
-              console.log(`  → Will update break ${existingBreak.id}`);
-              breaksToUpdate.push({
-                id: existingBreak.id,
-                updates: {
-                  start_time: targetStart,
-                  duration_minutes: targetDuration,
-                }
-              });
-            }
-          } else {
-            // Create new break for the entire gap
-            const breakEndTime = new Date(currentEnd.getTime() + gapMinutes * 60000);
-            
-            breaksToCreate.push({
-              start_time: currentEnd.toISOString(),
-              duration_minutes: Math.floor(gapMinutes),
-              end_time: breakEndTime.toISOString(),
-            });
-          }
-        }
-      }
+      console.log('[AutoGen] Operations to perform:');
+      console.log('  - Create:', plan.create.length);
+      console.log('  - Update:', plan.update.length);
+      console.log('  - Delete:', plan.delete.length);
 
-      // Find breaks that should be deleted (gap > 30 minutes or not between consecutive appointments)
-      // Don't delete breaks that are already marked for update
-      const breaksBeingUpdated = new Set(breaksToUpdate.map(u => u.id));
-      
-      for (const brk of latestBreaks) {
-        // Skip breaks that are being updated
-        if (breaksBeingUpdated.has(brk.id)) {
-          continue;
-        }
-        
-        const brkStart = new Date(brk.start_time);
-        const brkEnd = new Date(brk.end_time);
-        
-        // Check if this break is in a legitimate range
-        let isLegitimate = false;
-        for (let i = 0; i < sortedAppointments.length - 1; i++) {
-          const currentEnd = new Date(sortedAppointments[i].end_time);
-          const nextStart = new Date(sortedAppointments[i + 1].start_time);
-          const gapMinutes = (nextStart.getTime() - currentEnd.getTime()) / (1000 * 60);
-          
-          // Break is legitimate if it's between consecutive appointments with gap <= 30
-          if (gapMinutes > 0 && gapMinutes <= 30 && 
-              brkStart >= currentEnd && brkEnd <= nextStart) {
-            isLegitimate = true;
-            break;
-          }
-        }
-        
-        if (!isLegitimate) {
-          breaksToDelete.push(brk.id);
-        }
+      if (plan.create.length === 0 && plan.update.length === 0 && plan.delete.length === 0) {
+        console.log('[AutoGen] No changes needed');
+        return;
       }
 
-      // Execute all operations using the service functions directly
-      // and then update state in a single batch for better performance
-      
-      console.log('[AutoGen] Operations to perform:');
-      console.log('  - Create:', breaksToCreate.length);
-      console.log('  - Update:', breaksToUpdate.length);
-      console.log('  - Delete:', breaksToDelete.length);
-      
-      if (breaksToUpdate.length > 0) {
-        console.log('[AutoGen] Break updates:', breaksToUpdate);
-      }
-      
-      // Execute operations with individual error handling
-      for (const breakData of breaksToCreate) {
-        try {
-          await createBreakService(breakData);
-        } catch (err) {
-          console.error('[AutoGen] Failed to create break:', err);
+      // Apply the whole plan atomically, then update state once from the stored rows
+      try {
+        const saved = await trackWrite(() => repository.applyBatch({ breaks: plan }));
+        const deleted = new Set(plan.delete);
+        setBreaks((prev) => upsertItems(prev.filter((brk) => !deleted.has(brk.id)), saved.breaks));
+        console.log('[AutoGen] State updated successfully');
+      } catch (err) {
+        // Nothing was written - resync the days so the next run plans from fresh data
+        console.error('[AutoGen] Failed to apply break plan:', err);
+        for (const dayStart of days.values()) {
+          const dayEnd = addDays(dayStart, 1);
+          const latest = await repository.fetchBreaksInRange(dayStart, dayEnd);
+          setBreaks((prev) => mergeRange(prev, latest, dayStart, dayEnd));
         }
       }
+    } catch (err) {
+      // Keep the days queued for the next run
+      days.forEach((day, key) => breakDaysRef.current.set(key, day));
+      console.error('Failed to auto-generate breaks:', err);
+    }
+  }, [repository, trackWrite, getQueue]); // No schedule state - we use refs to access latest state
 
-      for (const { id, updates } of breaksToUpdate) {
-        try {
-          await updateBreakService(id, updates);
-        } catch (err) {
-          console.error(`[AutoGen] Failed to update break ${id}:`, err);
-          // Break might have been deleted already, continue with others
+  /**
+   * Sync state per item id (failed wins over pending)
+   */
+  const mutationStatus = useMemo(() => {
+    const status: Record<string, SyncStatus> = {};
+    for (const mutation of queue) {
+      for (const id of getTargetIds(mutation)) {
+        if (status[id] !== 'failed') {
+          status[id] = mutation.status;
         }
       }
+    }
+    return status;
+  }, [queue]);
 
-      for (const breakId of breaksToDelete) {
-        try {
-          await deleteBreakService(breakId);
-        } catch (err) {
-          console.error(`[AutoGen] Failed to delete break ${breakId}:`, err);
-          // Break might have been deleted already, continue with others
-        }
-      }
+  /**
+   * Drop failed changes and reload so their optimistic effect is undone
+   */
+  const discardFailedMutations = useCallback(async () => {
+    discardFailed();
+    setConflicts([]);
+    setError(null);
+    await loadSchedule();
+  }, [discardFailed, loadSchedule]);
 
-      // Fetch and update breaks state (even if some operations failed)
-      if (breaksToCreate.length > 0 || breaksToUpdate.length > 0 || breaksToDelete.length > 0) {
-        const updatedBreaks = await fetchBreaks();
-        console.log('[AutoGen] Fetched updated breaks:', updatedBreaks.length);
-        setBreaks(updatedBreaks);
-        console.log('[AutoGen] State updated successfully');
-      } else {
-        console.log('[AutoGen] No changes needed');
+  /**
+   * Resolve a conflicting edit: `updates` holds the fields whose local value
+   * should win (empty keeps the other device's version as is)
+   */
+  const resolveConflict = useCallback(
+    (conflict: AppointmentConflict, updates: AppointmentUpdates) => {
+      const { theirs } = conflict;
+      const resolved = applyUpdates<Appointment>(theirs, updates);
+
+      remove(conflict.mutationId);
+      setConflicts((prev) => prev.filter((c) => c.mutationId !== conflict.mutationId));
+      invalidateDays(conflict.mine, resolved);
+      setAppointments((prev) => applyChange(prev, resolved.id, resolved));
+
+      if (Object.keys(updates).length > 0) {
+        enqueue({
+          kind: 'updateAppointment',
+          targetId: theirs.id,
+          updates,
+          expectedUpdatedAt: theirs.updated_at,
+        });
       }
-    } catch (err) {
-      console.error('Failed to auto-generate breaks:', err);
-    }
-  }, []); // Empty dependencies - we use refs to access latest state
+    },
+    [enqueue, remove, invalidateDays]
+  );
 
   // Auto-generate breaks when appointments change or when forced
+  const appointmentsKey = appointmentsSignature(appointments);
   useEffect(() => {
+    // Skip changes merged from another device - it already reconciled its breaks
+    if (remoteSignatureRef.current === appointmentsKey) {
+      remoteSignatureRef.current = null;
+      return;
+    }
+
     if (!isLoading && pauseCounterRef.current === 0 && appointments.length > 1) {
       // Clear any existing timeout to prevent multiple concurrent runs
       if (autoGenerationTimeoutRef.current) {
@@ -401,20 +848,37 @@ export const useAppointments = () => {
         }
       };
     }
-  }, [appointments.map(a => `${a.id}:${a.start_time}:${a.end_time}`).join('|'), isLoading, autoGenerateBreaks, forceRefresh]);
+  }, [appointmentsKey, isLoading, autoGenerateBreaks, forceRefresh, breakPolicy, workingHours]);
 
   return {
     appointments,
     breaks,
     isLoading,
     error,
+    syncMode,
+    lastRemoteUpdate,
+    isOnline,
+    mutationStatus,
+    pendingMutationCount: queue.filter((m) => m.status === 'pending').length,
+    failedMutationCount: queue.filter((m) => m.status === 'failed').length,
+    retryFailedMutations: retryFailed,
+    discardFailedMutations,
+    conflicts,
+    resolveConflict,
     loadSchedule,
+    prefetchDays,
+    prefetchWeek,
     createAppointment,
     updateAppointment,
     deleteAppointment,
     createBreak,
     updateBreak,
     deleteBreak,
+    applyScheduleDiff,
+    undo,
+    redo,
+    undoLabel: history.past[history.past.length - 1]?.label ?? null,
+    redoLabel: history.future[0]?.label ?? null,
     getAllScheduleItems,
     autoGenerateBreaks,
     pauseAutoGeneration: () => {
@@ -0,0 +1,44 @@
+import { useCallback } from 'react';
+import { addDays, startOfDay } from 'date-fns';
+import type { AuditEntry } from '../types';
+import type { ScheduleRepository } from '../services/scheduleRepository';
+import { scheduleRepository } from '../services/appointmentService';
+
+/**
+ * Custom hook for reading the audit log of schedule writes
+ * (the writes themselves are logged by the repository, see `withAuditLog`)
+ */
+export const useAuditLog = (repository: ScheduleRepository = scheduleRepository) => {
+  /**
+   * Every logged change of one appointment, oldest first
+   */
+  const fetchRecordAuditLog = useCallback(
+    async (recordId: string): Promise<AuditEntry[]> => {
+      try {
+        return await repository.fetchRecordAuditLog(recordId);
+      } catch (err) {
+        console.error('Failed to load appointment audit log:', err);
+        throw err;
+      }
+    },
+    [repository]
+  );
+
+  /**
+   * Every change logged on a day (by when it was made, not when the item is scheduled)
+   */
+  const fetchDayAuditLog = useCallback(
+    async (date: Date): Promise<AuditEntry[]> => {
+      const dayStart = startOfDay(date);
+      try {
+        return await repository.fetchAuditLogInRange(dayStart, addDays(dayStart, 1));
+      } catch (err) {
+        console.error('Failed to load change log:', err);
+        throw err;
+      }
+    },
+    [repository]
+  );
+
+  return { fetchRecordAuditLog, fetchDayAuditLog };
+};
@@ -0,0 +1,49 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { BreakPolicy } from '../types';
+import type { ScheduleRepository } from '../services/scheduleRepository';
+import { scheduleRepository } from '../services/appointmentService';
+import { DEFAULT_BREAK_POLICY } from '../services/breakPlanner';
+
+/**
+ * Custom hook for the break auto-generation settings
+ * Loaded from the schedule repository so every device plans the shared breaks the same way;
+ * defaults apply until they are saved once.
+ */
+export const useBreakPolicy = (repository: ScheduleRepository = scheduleRepository) => {
+  const [breakPolicy, setBreakPolicy] = useState<BreakPolicy>(DEFAULT_BREAK_POLICY);
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    repository
+      .fetchBreakPolicy()
+      .then((stored) => {
+        if (stored && !isCancelled) setBreakPolicy(stored);
+      })
+      .catch((err) => {
+        console.error('Failed to load break policy:', err);
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [repository]);
+
+  /**
+   * Save a new break policy (applied locally right away)
+   */
+  const saveBreakPolicy = useCallback(
+    async (policy: BreakPolicy) => {
+      setBreakPolicy(policy);
+      try {
+        await repository.saveBreakPolicy(policy);
+      } catch (err) {
+        console.error('Failed to save break policy:', err);
+        throw err;
+      }
+    },
+    [repository]
+  );
+
+  return { breakPolicy, saveBreakPolicy };
+};
@@ -0,0 +1,123 @@
+import { useState, useCallback, useEffect } from 'react';
+import type { Appointment, Client, ClientUpdates, ClientVisitSummary, NewClient } from '../types';
+import {
+  normalizeClientName,
+  sortByStartTime,
+  sortClientsByName,
+  type ScheduleRepository,
+} from '../services/scheduleRepository';
+import { scheduleRepository } from '../services/appointmentService';
+
+/**
+ * Custom hook for the client directory
+ * The whole directory is loaded once per repository; it is small enough to keep in memory.
+ * Visit statistics (for the name suggestions) are reloaded on demand.
+ */
+export const useClients = (repository: ScheduleRepository = scheduleRepository) => {
+  const [clients, setClients] = useState<Client[]>([]);
+  const [visitSummaries, setVisitSummaries] = useState<Record<string, ClientVisitSummary>>({});
+
+  useEffect(() => {
+    let isCancelled = false;
+    setClients([]);
+    setVisitSummaries({});
+
+    repository
+      .fetchClients()
+      .then((loaded) => {
+        if (!isCancelled) setClients(sortClientsByName(loaded));
+      })
+      .catch((err) => {
+        console.error('Failed to load clients:', err);
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [repository]);
+
+  /**
+   * Reload the visit statistics of every client
+   */
+  const refreshVisitSummaries = useCallback(async () => {
+    try {
+      const summaries = await repository.fetchClientVisitSummaries();
+      setVisitSummaries(Object.fromEntries(summaries.map((summary) => [summary.clientId, summary])));
+    } catch (err) {
+      console.error('Failed to load client visit summaries:', err);
+    }
+  }, [repository]);
+
+  /**
+   * Client whose name matches, ignoring case and extra spaces
+   */
+  const findClientByName = useCallback(
+    (name: string): Client | undefined => {
+      const normalized = normalizeClientName(name);
+      if (!normalized) return undefined;
+      return clients.find((client) => normalizeClientName(client.name) === normalized);
+    },
+    [clients]
+  );
+
+  /**
+   * Create a client
+   */
+  const createClient = useCallback(
+    async (client: NewClient) => {
+      try {
+        const created = await repository.createClient(client);
+        setClients((prev) => sortClientsByName([...prev, created]));
+        return created;
+      } catch (err) {
+        console.error('Failed to create client:', err);
+        throw err;
+      }
+    },
+    [repository]
+  );
+
+  /**
+   * Update a client's profile
+   */
+  const updateClient = useCallback(
+    async (id: string, updates: ClientUpdates) => {
+      try {
+        const updated = await repository.updateClient(id, updates);
+        setClients((prev) =>
+          sortClientsByName(prev.map((client) => (client.id === id ? updated : client)))
+        );
+        return updated;
+      } catch (err) {
+        console.error('Failed to update client:', err);
+        throw err;
+      }
+    },
+    [repository]
+  );
+
+  /**
+   * Every appointment linked to a client, oldest first
+   */
+  const fetchClientHistory = useCallback(
+    async (clientId: string): Promise<Appointment[]> => {
+      try {
+        return sortByStartTime(await repository.fetchClientAppointments(clientId));
+      } catch (err) {
+        console.error('Failed to load client history:', err);
+        throw err;
+      }
+    },
+    [repository]
+  );
+
+  return {
+    clients,
+    visitSummaries,
+    refreshVisitSummaries,
+    findClientByName,
+    createClient,
+    updateClient,
+    fetchClientHistory,
+  };
+};
@@ -0,0 +1,44 @@
+import { useState, useEffect } from 'react';
+import { addDays, endOfMonth, startOfMonth, startOfWeek } from 'date-fns';
+import type { DaySummary } from '../types';
+import type { ScheduleRepository } from '../services/scheduleRepository';
+import { scheduleRepository } from '../services/appointmentService';
+
+/**
+ * Custom hook for the per-day totals shown in the month view
+ * Fetches the aggregates for the weeks covering `month` (null disables it) and refetches
+ * whenever `refreshKey` changes, e.g. when local appointments change.
+ */
+export const useDaySummaries = (
+  month: Date | null,
+  refreshKey: unknown,
+  repository: ScheduleRepository = scheduleRepository
+) => {
+  const [summaries, setSummaries] = useState<Record<string, DaySummary>>({});
+  const monthTime = month ? startOfMonth(month).getTime() : null;
+
+  useEffect(() => {
+    if (monthTime === null) return;
+    let isCancelled = false;
+
+    const monthStart = new Date(monthTime);
+    const from = startOfWeek(monthStart, { weekStartsOn: 1 });
+    const to = addDays(startOfWeek(endOfMonth(monthStart), { weekStartsOn: 1 }), 7);
+
+    repository
+      .fetchDaySummaries(from, to)
+      .then((rows) => {
+        if (isCancelled) return;
+        setSummaries(Object.fromEntries(rows.map((row) => [row.date, row])));
+      })
+      .catch((err) => {
+        console.error('Failed to load day summaries:', err);
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [monthTime, refreshKey, repository]);
+
+  return summaries;
+};
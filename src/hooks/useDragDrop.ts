@@ -1,45 +1,88 @@
 import { useState, useCallback, useEffect, useRef } from 'react';
 import type { DragState } from '../types';
-import { addMinutes, formatISO } from 'date-fns';
+
+const IDLE_DRAG_STATE: DragState = {
+  itemId: null,
+  itemType: null,
+  startY: 0,
+  startTime: '',
+  durationMinutes: 0,
+  isDragging: false,
+  hasMoved: false,
+  previewTime: null,
+};
+
+const MOVE_THRESHOLD_PX = 5; // Less than this is a click, not a drag
+const AUTO_SCROLL_EDGE_PX = 48; // Distance from the container edge where auto-scroll starts
+const AUTO_SCROLL_MAX_STEP_PX = 14; // Scroll per frame with the pointer at (or past) the edge
+
+interface UseDragDropOptions {
+  onDrop: (itemId: string, itemType: 'appointment' | 'break', newStartTime: Date) => void;
+  onCancel?: () => void; // The drag ended without a drop (click, Escape or unmount)
+  selectedDate: Date;
+  startHour: number;
+  endHour: number;
+  pixelsPerHour: number;
+  scrollContainerId: string;
+}
 
 /**
- * Custom hook for handling drag-and-drop functionality
- * Supports both mouse and touch events for mobile compatibility
+ * Custom hook for dragging schedule items along the timeline
+ * Supports both mouse and touch events. While dragging, `dragState.previewTime` follows
+ * the pointer (snapped to 5 minutes and kept within the working hours), the scroll
+ * container scrolls by itself near its edges and Escape cancels the drag.
  */
-export const useDragDrop = (
-  onDrop: (itemId: string, newStartTime: string) => void,
-  scheduleStartHour: number = 8,
-  pixelsPerHour: number = 80
-) => {
-  const [dragState, setDragState] = useState<DragState>({
-    itemId: null,
-    itemType: null,
-    startY: 0,
-    startTime: '',
-    isDragging: false,
-  });
-
-  const scheduleRef = useRef<HTMLDivElement>(null);
+export const useDragDrop = ({
+  onDrop,
+  onCancel,
+  selectedDate,
+  startHour,
+  endHour,
+  pixelsPerHour,
+  scrollContainerId,
+}: UseDragDropOptions) => {
+  const [dragState, setDragState] = useState<DragState>(IDLE_DRAG_STATE);
+  const dragStateRef = useRef(dragState);
+  const pointerYRef = useRef<number | null>(null);
+  const optionsRef = useRef({ onDrop, onCancel, selectedDate, startHour, endHour, pixelsPerHour, scrollContainerId });
+
+  useEffect(() => {
+    optionsRef.current = { onDrop, onCancel, selectedDate, startHour, endHour, pixelsPerHour, scrollContainerId };
+  }, [onDrop, onCancel, selectedDate, startHour, endHour, pixelsPerHour, scrollContainerId]);
+
+  const updateDragState = useCallback((next: DragState) => {
+    dragStateRef.current = next;
+    setDragState(next);
+  }, []);
 
   /**
-   * Convert Y position to time
+   * Pointer Y within the scrolled timeline content
    */
-  const yToTime = useCallback(
-    (y: number): string => {
-      const rect = scheduleRef.current?.getBoundingClientRect();
-      if (!rect) return '';
+  const toContentY = useCallback((clientY: number): number => {
+    const container = document.getElementById(optionsRef.current.scrollContainerId);
+    return container ? clientY - container.getBoundingClientRect().top + container.scrollTop : clientY;
+  }, []);
 
-      const relativeY = y - rect.top + (scheduleRef.current?.scrollTop || 0);
-      const hours = relativeY / pixelsPerHour;
-      const totalMinutes = Math.round((hours * 60) / 15) * 15; // Snap to 15-minute intervals
+  /**
+   * Start time for the dragged item with the pointer at `clientY`
+   */
+  const getPreviewTime = useCallback(
+    (state: DragState, clientY: number): Date => {
+      const { selectedDate, startHour, endHour, pixelsPerHour } = optionsRef.current;
+      const dayStart = new Date(selectedDate);
+      dayStart.setHours(startHour, 0, 0, 0);
 
-      const date = new Date();
-      date.setHours(scheduleStartHour, 0, 0, 0);
-      const newTime = addMinutes(date, totalMinutes);
+      const deltaMinutes = ((toContentY(clientY) - state.startY) / pixelsPerHour) * 60;
+      const minutesFromStart = (new Date(state.startTime).getTime() - dayStart.getTime()) / 60000 + deltaMinutes;
+      const latestStart = (endHour - startHour) * 60 - state.durationMinutes;
+      const snapped = Math.min(
+        Math.max(0, Math.round(minutesFromStart / 5) * 5),
+        Math.max(0, latestStart)
+      );
 
-      return formatISO(newTime);
+      return new Date(dayStart.getTime() + snapped * 60000);
     },
-    [scheduleStartHour, pixelsPerHour]
+    [toContentY]
   );
 
   /**
@@ -50,80 +93,138 @@ export const useDragDrop = (
       itemId: string,
       itemType: 'appointment' | 'break',
       startTime: string,
+      durationMinutes: number,
       clientY: number
     ) => {
-      setDragState({
+      pointerYRef.current = clientY;
+      updateDragState({
         itemId,
         itemType,
-        startY: clientY,
+        startY: toContentY(clientY),
         startTime,
+        durationMinutes,
         isDragging: true,
+        hasMoved: false,
+        previewTime: null,
       });
     },
-    []
+    [toContentY, updateDragState]
   );
 
   /**
-   * Handle drag move
+   * Stop dragging; drops at the pointer if the item was actually moved
    */
-  const handleDragMove = useCallback(
-    (_clientY: number) => {
-      if (!dragState.isDragging || !dragState.itemId) return;
+  const finishDrag = useCallback(
+    (clientY: number | null) => {
+      const state = dragStateRef.current;
+      if (!state.isDragging) return;
+
+      pointerYRef.current = null;
+      updateDragState(IDLE_DRAG_STATE);
 
-      // Update is handled by parent component through visual feedback
+      const { onDrop, onCancel } = optionsRef.current;
+      if (clientY !== null && state.hasMoved && state.itemId && state.itemType) {
+        onDrop(state.itemId, state.itemType, getPreviewTime(state, clientY));
+      } else {
+        onCancel?.();
+      }
     },
-    [dragState]
+    [getPreviewTime, updateDragState]
   );
 
   /**
-   * End dragging and commit changes
+   * Cancel dragging
    */
-  const handleDragEnd = useCallback(
-    (clientY: number) => {
-      if (!dragState.isDragging || !dragState.itemId) return;
+  const handleDragCancel = useCallback(() => finishDrag(null), [finishDrag]);
+
+  // Follow the pointer, auto-scroll near the edges and listen for Escape while dragging
+  useEffect(() => {
+    if (!dragState.isDragging) return;
 
-      const newTime = yToTime(clientY);
-      if (newTime) {
-        onDrop(dragState.itemId, newTime);
+    const movePreview = (clientY: number) => {
+      const state = dragStateRef.current;
+      const hasMoved =
+        state.hasMoved || Math.abs(toContentY(clientY) - state.startY) > MOVE_THRESHOLD_PX;
+      const previewTime = hasMoved ? getPreviewTime(state, clientY).toISOString() : null;
+      if (hasMoved !== state.hasMoved || previewTime !== state.previewTime) {
+        updateDragState({ ...state, hasMoved, previewTime });
       }
+    };
 
-      setDragState({
-        itemId: null,
-        itemType: null,
-        startY: 0,
-        startTime: '',
-        isDragging: false,
-      });
-    },
-    [dragState, yToTime, onDrop]
-  );
+    let frame = 0;
+    const autoScroll = () => {
+      const container = document.getElementById(optionsRef.current.scrollContainerId);
+      const clientY = pointerYRef.current;
+      if (container && clientY !== null && dragStateRef.current.hasMoved) {
+        const rect = container.getBoundingClientRect();
+        const intoTop = rect.top + AUTO_SCROLL_EDGE_PX - clientY;
+        const intoBottom = clientY - (rect.bottom - AUTO_SCROLL_EDGE_PX);
+        const step =
+          intoTop > 0
+            ? -Math.ceil(Math.min(1, intoTop / AUTO_SCROLL_EDGE_PX) * AUTO_SCROLL_MAX_STEP_PX)
+            : intoBottom > 0
+              ? Math.ceil(Math.min(1, intoBottom / AUTO_SCROLL_EDGE_PX) * AUTO_SCROLL_MAX_STEP_PX)
+              : 0;
 
-  /**
-   * Cancel dragging
-   */
-  const handleDragCancel = useCallback(() => {
-    setDragState({
-      itemId: null,
-      itemType: null,
-      startY: 0,
-      startTime: '',
-      isDragging: false,
-    });
-  }, []);
+        if (step !== 0) {
+          const scrollTop = container.scrollTop;
+          container.scrollTop += step;
+          // The content moved under the pointer
+          if (container.scrollTop !== scrollTop) movePreview(clientY);
+        }
+      }
+      frame = requestAnimationFrame(autoScroll);
+    };
+    frame = requestAnimationFrame(autoScroll);
+
+    const handleMove = (e: MouseEvent | TouchEvent) => {
+      const clientY = 'touches' in e ? e.touches[0]?.clientY : e.clientY;
+      if (clientY === undefined) return;
+
+      pointerYRef.current = clientY;
+      movePreview(clientY);
+
+      // Prevent scrolling while dragging on touch devices
+      if ('touches' in e && dragStateRef.current.hasMoved) {
+        e.preventDefault();
+      }
+    };
+
+    const handleEnd = (e: MouseEvent | TouchEvent) => {
+      const clientY = 'changedTouches' in e ? e.changedTouches[0]?.clientY : e.clientY;
+      finishDrag(clientY ?? null);
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') finishDrag(null);
+    };
+
+    window.addEventListener('mousemove', handleMove);
+    window.addEventListener('touchmove', handleMove, { passive: false });
+    window.addEventListener('mouseup', handleEnd);
+    window.addEventListener('touchend', handleEnd);
+    window.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener('mousemove', handleMove);
+      window.removeEventListener('touchmove', handleMove);
+      window.removeEventListener('mouseup', handleEnd);
+      window.removeEventListener('touchend', handleEnd);
+      window.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [dragState.isDragging, toContentY, getPreviewTime, finishDrag, updateDragState]);
 
   // Cleanup on unmount
   useEffect(() => {
     return () => {
-      handleDragCancel();
+      if (dragStateRef.current.isDragging) optionsRef.current.onCancel?.();
     };
-  }, [handleDragCancel]);
+  }, []);
 
   return {
     dragState,
-    scheduleRef,
     handleDragStart,
-    handleDragMove,
-    handleDragEnd,
     handleDragCancel,
   };
 };
@@ -0,0 +1,103 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { addDays, parseISO, startOfDay } from 'date-fns';
+import type { Appointment, ScheduleDiff, Service, WorkingHours } from '../types';
+import type { ScheduleRepository } from '../services/scheduleRepository';
+import { scheduleRepository } from '../services/appointmentService';
+import { findBookingConflicts } from '../services/workingHours';
+
+interface UseGroupMoveOptions {
+  appointments: Appointment[]; // Locally known appointments (including unsynced ones)
+  applyScheduleDiff: (diff: ScheduleDiff, historyLabel?: string | null) => Promise<void>;
+  workingHours: WorkingHours;
+  services: Service[];
+}
+
+/**
+ * Same time of day on another date
+ */
+const atDate = (startTime: string, day: Date): Date => {
+  const start = parseISO(startTime);
+  const moved = startOfDay(day);
+  moved.setHours(start.getHours(), start.getMinutes(), 0, 0);
+  return moved;
+};
+
+/**
+ * Custom hook for moving a group of appointments to another day
+ * The target day isn't loaded, so its bookings and time off are fetched to check the
+ * whole group first; then every appointment moves in one diff (one undo step).
+ */
+export const useGroupMove = (
+  { appointments, applyScheduleDiff, workingHours, services }: UseGroupMoveOptions,
+  repository: ScheduleRepository = scheduleRepository
+) => {
+  const appointmentsRef = useRef(appointments);
+
+  useEffect(() => {
+    appointmentsRef.current = appointments;
+  }, [appointments]);
+
+  /**
+   * Why the group can't move to `day` keeping its times, or null if it can
+   */
+  const findMoveConflict = useCallback(
+    async (group: Appointment[], day: Date): Promise<string | null> => {
+      const dayStart = startOfDay(day);
+      const [stored, timeOff] = await Promise.all([
+        repository.fetchAppointmentsInRange(dayStart, addDays(dayStart, 1)),
+        repository.fetchTimeOffInRange(dayStart, addDays(dayStart, 1)),
+      ]);
+
+      const local = appointmentsRef.current;
+      const localIds = new Set(local.map((apt) => apt.id));
+      const groupIds = new Set(group.map((apt) => apt.id));
+      const context = {
+        appointments: [...stored.filter((apt) => !localIds.has(apt.id)), ...local].filter(
+          (apt) => !groupIds.has(apt.id)
+        ),
+        timeOff,
+        workingHours,
+        services,
+      };
+
+      for (const appointment of group) {
+        const [conflict] = findBookingConflicts(
+          [atDate(appointment.start_time, day)],
+          appointment.duration_minutes,
+          appointment.service_id,
+          context
+        );
+        if (conflict) return `${appointment.client_name} — ${conflict.reason}`;
+      }
+      return null;
+    },
+    [repository, workingHours, services]
+  );
+
+  /**
+   * Move the group to `day`, keeping each appointment's time
+   * Returns why it couldn't be moved, or null once it has been
+   */
+  const moveToDate = useCallback(
+    async (group: Appointment[], day: Date): Promise<string | null> => {
+      const conflict = await findMoveConflict(group, day);
+      if (conflict) return conflict;
+
+      await applyScheduleDiff(
+        {
+          appointments: {
+            update: group.map((appointment) => ({
+              id: appointment.id,
+              updates: { start_time: atDate(appointment.start_time, day).toISOString() },
+            })),
+          },
+        },
+        group.length === 1 ? 'Перенесення запису' : 'Перенесення записів'
+      );
+      return null;
+    },
+    [findMoveConflict, applyScheduleDiff]
+  );
+
+  return { moveToDate };
+};
@@ -0,0 +1,214 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { MutationOperation, QueuedMutation } from '../types';
+import type { ScheduleRepository } from '../services/scheduleRepository';
+import {
+  describeError,
+  dropFailedMutations,
+  executeMutation,
+  findNextMutation,
+  isNetworkError,
+  loadQueue,
+  rebaseQueue,
+  saveQueue,
+  toSnapshot,
+  type MutationResult,
+} from '../services/mutationQueue';
+
+const RETRY_DELAY_MS = 15000;
+
+interface MutationQueueCallbacks {
+  /** Wraps every repository write (used to recognise our own realtime echoes) */
+  runWrite: <T>(write: () => Promise<T>) => Promise<T>;
+  /** Called with the stored row(s) once a mutation reached the backend, plus what is still queued */
+  onSynced: (
+    mutation: QueuedMutation,
+    result: MutationResult,
+    remaining: QueuedMutation[]
+  ) => void;
+  /** Called when the backend rejected a mutation; return true to drop it instead of keeping it as failed */
+  onFailed: (mutation: QueuedMutation, error: unknown) => boolean | void;
+  /** Called when every pending mutation has been processed */
+  onDrained: () => void;
+}
+
+/**
+ * Custom hook for the durable offline mutation queue
+ * Mutations are persisted to localStorage and sent to the repository in order;
+ * when the backend can't be reached they wait until connectivity returns.
+ */
+export const useMutationQueue = (
+  repository: ScheduleRepository,
+  callbacks: MutationQueueCallbacks
+) => {
+  const [queue, setQueue] = useState<QueuedMutation[]>(loadQueue);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const queueRef = useRef(queue);
+  const isFlushingRef = useRef(false);
+  const retryTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const callbacksRef = useRef(callbacks);
+
+  useEffect(() => {
+    callbacksRef.current = callbacks;
+  }, [callbacks]);
+
+  /**
+   * Replace the queue (ref, state and storage together)
+   */
+  const commitQueue = useCallback((next: QueuedMutation[]) => {
+    queueRef.current = next;
+    setQueue(next);
+    saveQueue(next);
+  }, []);
+
+  /**
+   * Send pending mutations in order until the queue is empty or the backend is unreachable
+   * (mutations of an item whose earlier mutation failed wait for it, see findNextMutation)
+   */
+  const flush = useCallback(async () => {
+    if (isFlushingRef.current) return;
+    if (!navigator.onLine) {
+      // The 'online' listener replays the queue once we're back
+      setIsOnline(false);
+      return;
+    }
+    isFlushingRef.current = true;
+    if (retryTimeoutRef.current) {
+      clearTimeout(retryTimeoutRef.current);
+      retryTimeoutRef.current = null;
+    }
+
+    try {
+      let mutation = findNextMutation(queueRef.current);
+      if (!mutation) return;
+
+      while (mutation) {
+        const current = mutation;
+        try {
+          const result = await callbacksRef.current.runWrite(() =>
+            executeMutation(repository, current)
+          );
+          const stored = toSnapshot(result);
+          commitQueue(
+            rebaseQueue(
+              queueRef.current.filter((m) => m.id !== current.id),
+              [...stored.appointments, ...stored.breaks]
+            )
+          );
+          setIsOnline(true);
+          callbacksRef.current.onSynced(current, result, queueRef.current);
+        } catch (err) {
+          if (isNetworkError(err)) {
+            console.warn('[Queue] Backend unreachable, will retry later');
+            setIsOnline(false);
+            retryTimeoutRef.current = setTimeout(() => {
+              retryTimeoutRef.current = null;
+              flush();
+            }, RETRY_DELAY_MS);
+            return;
+          }
+
+          console.error(`[Queue] Mutation ${current.kind} failed:`, err);
+          commitQueue(
+            queueRef.current.map((m) =>
+              m.id === current.id
+                ? { ...m, status: 'failed', error: describeError(err) }
+                : m
+            )
+          );
+          if (callbacksRef.current.onFailed(current, err)) {
+            commitQueue(queueRef.current.filter((m) => m.id !== current.id));
+          }
+        }
+        mutation = findNextMutation(queueRef.current);
+      }
+
+      callbacksRef.current.onDrained();
+    } finally {
+      isFlushingRef.current = false;
+    }
+  }, [repository, commitQueue]);
+
+  /**
+   * Add a mutation to the end of the queue and try to send it right away
+   */
+  const enqueue = useCallback(
+    (operation: MutationOperation) => {
+      const mutation = {
+        ...operation,
+        id: crypto.randomUUID(),
+        queuedAt: new Date().toISOString(),
+        status: 'pending',
+      } as QueuedMutation;
+      commitQueue([...queueRef.current, mutation]);
+      flush();
+    },
+    [commitQueue, flush]
+  );
+
+  /**
+   * Put failed mutations back in line
+   */
+  const retryFailed = useCallback(() => {
+    commitQueue(
+      queueRef.current.map((m) =>
+        m.status === 'failed' ? { ...m, status: 'pending', error: undefined } : m
+      )
+    );
+    flush();
+  }, [commitQueue, flush]);
+
+  /**
+   * Drop a single mutation, e.g. once its conflict has been resolved
+   */
+  const remove = useCallback(
+    (mutationId: string) => {
+      commitQueue(queueRef.current.filter((m) => m.id !== mutationId));
+      // Mutations held back behind it can go now
+      flush();
+    },
+    [commitQueue, flush]
+  );
+
+  /**
+   * Drop failed mutations and the ones held back behind them
+   * (the caller should reload to undo their optimistic effect)
+   */
+  const discardFailed = useCallback(() => {
+    commitQueue(dropFailedMutations(queueRef.current));
+    flush();
+  }, [commitQueue, flush]);
+
+  const getQueue = useCallback(() => queueRef.current, []);
+
+  // Replay on reconnect, and once on mount for anything left from a previous session
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      flush();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    flush();
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      if (retryTimeoutRef.current) {
+        clearTimeout(retryTimeoutRef.current);
+        retryTimeoutRef.current = null;
+      }
+    };
+  }, [flush]);
+
+  return {
+    queue,
+    isOnline,
+    enqueue,
+    remove,
+    retryFailed,
+    discardFailed,
+    getQueue,
+  };
+};
@@ -0,0 +1,74 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import type { ScheduleChange } from '../types';
+import { createMemoryRepository } from '../services/memoryRepository';
+import { appointment, at, createLiveRepository } from '../test/fixtures';
+import { useScheduleSync } from './useScheduleSync';
+
+describe('useScheduleSync', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('stays off without polling when the repository has no subscription', () => {
+    const onPoll = vi.fn(() => Promise.resolve());
+    const { result } = renderHook(() =>
+      useScheduleSync(createMemoryRepository(), vi.fn(), onPoll, 1000)
+    );
+
+    vi.advanceTimersByTime(5000);
+
+    expect(result.current).toBe('off');
+    expect(onPoll).not.toHaveBeenCalled();
+  });
+
+  it('polls until the live connection is up and again once it drops', () => {
+    const { repository, live } = createLiveRepository();
+    const onPoll = vi.fn(() => Promise.resolve());
+    const { result } = renderHook(() => useScheduleSync(repository, vi.fn(), onPoll, 1000));
+
+    expect(result.current).toBe('polling');
+    vi.advanceTimersByTime(2000);
+    expect(onPoll).toHaveBeenCalledTimes(2);
+
+    act(() => live.onStatus(true));
+    vi.advanceTimersByTime(5000);
+    expect(result.current).toBe('realtime');
+    expect(onPoll).toHaveBeenCalledTimes(2);
+
+    act(() => live.onStatus(false));
+    vi.advanceTimersByTime(1000);
+    expect(result.current).toBe('polling');
+    expect(onPoll).toHaveBeenCalledTimes(3);
+  });
+
+  it('passes live changes to the latest callback and unsubscribes on unmount', () => {
+    const { repository, live } = createLiveRepository();
+    const first = vi.fn();
+    const latest = vi.fn();
+    const onPoll = () => Promise.resolve();
+    const { rerender, unmount } = renderHook(
+      ({ onChange }) => useScheduleSync(repository, onChange, onPoll, 1000),
+      { initialProps: { onChange: first } }
+    );
+    rerender({ onChange: latest });
+
+    const change: ScheduleChange = {
+      table: 'appointments',
+      type: 'upsert',
+      row: appointment('a1', at(10)),
+    };
+    live.onChange(change);
+
+    expect(first).not.toHaveBeenCalled();
+    expect(latest).toHaveBeenCalledWith(change);
+
+    unmount();
+    expect(live.unsubscribe).toHaveBeenCalledOnce();
+  });
+});
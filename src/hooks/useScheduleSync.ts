@@ -0,0 +1,59 @@
+import { useState, useEffect, useRef } from 'react';
+import type { ScheduleChange, SyncMode } from '../types';
+import type { ScheduleRepository } from '../services/scheduleRepository';
+
+const POLL_INTERVAL_MS = 30000;
+
+/**
+ * Custom hook for keeping the schedule in sync with other devices
+ * Uses the repository's live subscription when it has one and falls back
+ * to periodic polling while the realtime connection is unavailable.
+ */
+export const useScheduleSync = (
+  repository: ScheduleRepository,
+  onChange: (change: ScheduleChange) => void,
+  onPoll: () => Promise<void>,
+  pollIntervalMs: number = POLL_INTERVAL_MS
+): SyncMode => {
+  const [mode, setMode] = useState<SyncMode>(repository.subscribe ? 'polling' : 'off');
+  const onChangeRef = useRef(onChange);
+  const onPollRef = useRef(onPoll);
+
+  // Keep the latest callbacks without resubscribing
+  useEffect(() => {
+    onChangeRef.current = onChange;
+    onPollRef.current = onPoll;
+  }, [onChange, onPoll]);
+
+  /**
+   * Subscribe to live changes
+   */
+  useEffect(() => {
+    if (!repository.subscribe) {
+      setMode('off');
+      return;
+    }
+
+    setMode('polling');
+    return repository.subscribe(
+      (change) => onChangeRef.current(change),
+      (isLive) => setMode(isLive ? 'realtime' : 'polling')
+    );
+  }, [repository]);
+
+  /**
+   * Poll while realtime isn't available
+   */
+  useEffect(() => {
+    if (mode !== 'polling') return;
+
+    const interval = setInterval(() => {
+      onPollRef.current().catch((err) => {
+        console.error('[Sync] Polling failed:', err);
+      });
+    }, pollIntervalMs);
+    return () => clearInterval(interval);
+  }, [mode, pollIntervalMs]);
+
+  return mode;
+};
@@ -0,0 +1,176 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { addDays, parseISO, startOfDay } from 'date-fns';
+import type {
+  Appointment,
+  ScheduleDiff,
+  ScheduleTemplate,
+  Service,
+  TemplatePlan,
+  TemplateResolution,
+  WorkingHours,
+} from '../types';
+import { sortTemplates, type ScheduleRepository } from '../services/scheduleRepository';
+import { scheduleRepository } from '../services/appointmentService';
+import {
+  buildTemplate,
+  getTemplateStart,
+  planTemplate,
+  resolveTemplatePlan,
+} from '../services/scheduleTemplates';
+
+interface UseScheduleTemplatesOptions {
+  appointments: Appointment[]; // Locally known appointments (including unsynced ones)
+  applyScheduleDiff: (diff: ScheduleDiff, historyLabel?: string | null) => Promise<void>;
+  workingHours: WorkingHours;
+  services: Service[];
+}
+
+/**
+ * Custom hook for day and week templates
+ * A template is saved from the stored schedule; applying it is planned first (so
+ * conflicts can be skipped or overwritten one by one) and then written as one diff.
+ */
+export const useScheduleTemplates = (
+  { appointments, applyScheduleDiff, workingHours, services }: UseScheduleTemplatesOptions,
+  repository: ScheduleRepository = scheduleRepository
+) => {
+  const [templates, setTemplates] = useState<ScheduleTemplate[]>([]);
+  const appointmentsRef = useRef(appointments);
+
+  useEffect(() => {
+    appointmentsRef.current = appointments;
+  }, [appointments]);
+
+  useEffect(() => {
+    let isCancelled = false;
+    setTemplates([]);
+
+    repository
+      .fetchTemplates()
+      .then((loaded) => {
+        if (!isCancelled) setTemplates(loaded);
+      })
+      .catch((err) => {
+        console.error('Failed to load templates:', err);
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [repository]);
+
+  /**
+   * Appointments and breaks of the days [from, to], preferring the local copies
+   */
+  const fetchDays = useCallback(
+    async (from: Date, to: Date) => {
+      const rangeStart = startOfDay(from);
+      const rangeEnd = addDays(startOfDay(to), 1);
+      const [stored, breaks, timeOff] = await Promise.all([
+        repository.fetchAppointmentsInRange(rangeStart, rangeEnd),
+        repository.fetchBreaksInRange(rangeStart, rangeEnd),
+        repository.fetchTimeOffInRange(rangeStart, rangeEnd),
+      ]);
+
+      const local = appointmentsRef.current.filter((apt) => {
+        const start = parseISO(apt.start_time);
+        return start >= rangeStart && start < rangeEnd;
+      });
+      const localIds = new Set(local.map((apt) => apt.id));
+      return {
+        appointments: [...stored.filter((apt) => !localIds.has(apt.id)), ...local],
+        breaks,
+        timeOff,
+      };
+    },
+    [repository]
+  );
+
+  /**
+   * Save the day (or the week) containing `date` as a template
+   * Returns null when there is nothing on it to save
+   */
+  const saveTemplate = useCallback(
+    async (name: string, span: ScheduleTemplate['span'], date: Date) => {
+      try {
+        const start = getTemplateStart(span, date);
+        const end = addDays(start, span === 'week' ? 6 : 0);
+        const { appointments: dayAppointments, breaks } = await fetchDays(start, end);
+        const template = buildTemplate(name, span, start, dayAppointments, breaks);
+        if (template.appointments.length === 0 && template.breaks.length === 0) return null;
+
+        const created = await repository.createTemplate(template);
+        setTemplates((prev) => sortTemplates([...prev, created]));
+        return created;
+      } catch (err) {
+        console.error('Failed to save template:', err);
+        throw err;
+      }
+    },
+    [repository, fetchDays]
+  );
+
+  /**
+   * Delete a saved template (schedules it was applied to keep their appointments)
+   */
+  const deleteTemplate = useCallback(
+    async (id: string) => {
+      try {
+        await repository.deleteTemplate(id);
+        setTemplates((prev) => prev.filter((template) => template.id !== id));
+      } catch (err) {
+        console.error('Failed to delete template:', err);
+        throw err;
+      }
+    },
+    [repository]
+  );
+
+  /**
+   * What applying a template to the days [from, to] would book, with its conflicts
+   */
+  const planTemplateApplication = useCallback(
+    async (template: ScheduleTemplate, from: Date, to: Date): Promise<TemplatePlan> => {
+      try {
+        const { appointments: existing, timeOff } = await fetchDays(from, to);
+        return planTemplate(template, from, to, {
+          appointments: existing,
+          timeOff,
+          workingHours,
+          services,
+        });
+      } catch (err) {
+        console.error('Failed to plan template:', err);
+        throw err;
+      }
+    },
+    [fetchDays, workingHours, services]
+  );
+
+  /**
+   * Apply a planned template, skipping or overwriting each conflict as resolved
+   * Returns how many appointments were booked
+   */
+  const applyTemplate = useCallback(
+    async (
+      template: ScheduleTemplate,
+      from: Date,
+      to: Date,
+      plan: TemplatePlan,
+      resolutions: TemplateResolution[]
+    ): Promise<number> => {
+      try {
+        const existing = await fetchDays(from, to);
+        const diff = resolveTemplatePlan(plan, resolutions, existing);
+        await applyScheduleDiff(diff, `Шаблон «${template.name}»`);
+        return diff.appointments?.create?.length ?? 0;
+      } catch (err) {
+        console.error('Failed to apply template:', err);
+        throw err;
+      }
+    },
+    [fetchDays, applyScheduleDiff]
+  );
+
+  return { templates, saveTemplate, deleteTemplate, planTemplateApplication, applyTemplate };
+};
@@ -0,0 +1,71 @@
+import { useState, useCallback, useEffect, useMemo } from 'react';
+import type { NewService, Service, ServiceUpdates } from '../types';
+import { sortServices, type ScheduleRepository } from '../services/scheduleRepository';
+import { scheduleRepository } from '../services/appointmentService';
+
+/**
+ * Custom hook for the service catalog
+ * `activeServices` are the ones that can be booked; the full list is kept so
+ * existing appointments of deactivated services still get their color.
+ */
+export const useServices = (repository: ScheduleRepository = scheduleRepository) => {
+  const [services, setServices] = useState<Service[]>([]);
+
+  useEffect(() => {
+    let isCancelled = false;
+    setServices([]);
+
+    repository
+      .fetchServices()
+      .then((loaded) => {
+        if (!isCancelled) setServices(sortServices(loaded));
+      })
+      .catch((err) => {
+        console.error('Failed to load services:', err);
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [repository]);
+
+  const activeServices = useMemo(() => services.filter((service) => service.is_active), [services]);
+
+  /**
+   * Add a service to the catalog
+   */
+  const createService = useCallback(
+    async (service: NewService) => {
+      try {
+        const created = await repository.createService(service);
+        setServices((prev) => sortServices([...prev, created]));
+        return created;
+      } catch (err) {
+        console.error('Failed to create service:', err);
+        throw err;
+      }
+    },
+    [repository]
+  );
+
+  /**
+   * Update a service (including activating/deactivating it)
+   */
+  const updateService = useCallback(
+    async (id: string, updates: ServiceUpdates) => {
+      try {
+        const updated = await repository.updateService(id, updates);
+        setServices((prev) =>
+          sortServices(prev.map((service) => (service.id === id ? updated : service)))
+        );
+        return updated;
+      } catch (err) {
+        console.error('Failed to update service:', err);
+        throw err;
+      }
+    },
+    [repository]
+  );
+
+  return { services, activeServices, createService, updateService };
+};
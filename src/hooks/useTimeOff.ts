@@ -0,0 +1,79 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { addMonths, format, startOfMonth } from 'date-fns';
+import type { NewTimeOff, TimeOff } from '../types';
+import { sortByStartTime, type ScheduleRepository } from '../services/scheduleRepository';
+import { scheduleRepository } from '../services/appointmentService';
+
+/**
+ * Custom hook for time off blocks
+ * Blocks are loaded a month at a time (the selected day's month and whatever
+ * month the calendar shows); loaded months are cached.
+ */
+export const useTimeOff = (repository: ScheduleRepository = scheduleRepository) => {
+  const [timeOff, setTimeOff] = useState<TimeOff[]>([]);
+  const loadedMonthsRef = useRef<Set<string>>(new Set());
+
+  useEffect(() => {
+    loadedMonthsRef.current = new Set();
+    setTimeOff([]);
+  }, [repository]);
+
+  /**
+   * Load the blocks overlapping a month (no-op if it is already loaded)
+   */
+  const loadMonth = useCallback(
+    async (date: Date) => {
+      const monthKey = format(date, 'yyyy-MM');
+      if (loadedMonthsRef.current.has(monthKey)) return;
+      loadedMonthsRef.current.add(monthKey);
+
+      try {
+        const monthStart = startOfMonth(date);
+        const blocks = await repository.fetchTimeOffInRange(monthStart, addMonths(monthStart, 1));
+        const ids = new Set(blocks.map((block) => block.id));
+        setTimeOff((prev) =>
+          sortByStartTime([...prev.filter((block) => !ids.has(block.id)), ...blocks])
+        );
+      } catch (err) {
+        loadedMonthsRef.current.delete(monthKey);
+        console.error('Failed to load time off:', err);
+      }
+    },
+    [repository]
+  );
+
+  /**
+   * Create a time off block
+   */
+  const createTimeOff = useCallback(
+    async (block: NewTimeOff) => {
+      try {
+        const created = await repository.createTimeOff(block);
+        setTimeOff((prev) => sortByStartTime([...prev, created]));
+        return created;
+      } catch (err) {
+        console.error('Failed to create time off:', err);
+        throw err;
+      }
+    },
+    [repository]
+  );
+
+  /**
+   * Delete a time off block
+   */
+  const deleteTimeOff = useCallback(
+    async (id: string) => {
+      try {
+        await repository.deleteTimeOff(id);
+        setTimeOff((prev) => prev.filter((block) => block.id !== id));
+      } catch (err) {
+        console.error('Failed to delete time off:', err);
+        throw err;
+      }
+    },
+    [repository]
+  );
+
+  return { timeOff, loadMonth, createTimeOff, deleteTimeOff };
+};
@@ -0,0 +1,84 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { addDays, parseISO, startOfDay } from 'date-fns';
+import type { Appointment, Service, WorkingHours } from '../types';
+import type { ScheduleRepository } from '../services/scheduleRepository';
+import { scheduleRepository } from '../services/appointmentService';
+import { findBookingConflicts } from '../services/workingHours';
+
+interface UseTrashOptions {
+  appointments: Appointment[]; // Locally known appointments (including unsynced ones)
+  workingHours: WorkingHours;
+  services: Service[];
+}
+
+/**
+ * Custom hook for the trash of deleted appointments
+ * The trash is loaded on demand (when it is opened); restoring itself goes through
+ * the schedule diff, this hook only checks whether the old time is still free.
+ */
+export const useTrash = (
+  { appointments, workingHours, services }: UseTrashOptions,
+  repository: ScheduleRepository = scheduleRepository
+) => {
+  const [trash, setTrash] = useState<Appointment[]>([]);
+  const appointmentsRef = useRef(appointments);
+
+  useEffect(() => {
+    appointmentsRef.current = appointments;
+  }, [appointments]);
+
+  useEffect(() => {
+    setTrash([]);
+  }, [repository]);
+
+  /**
+   * Load the deleted appointments
+   */
+  const loadTrash = useCallback(async () => {
+    try {
+      setTrash(await repository.fetchTrash());
+    } catch (err) {
+      console.error('Failed to load trash:', err);
+      throw err;
+    }
+  }, [repository]);
+
+  /**
+   * Why a trashed appointment can't go back to its time, or null if it can
+   */
+  const findRestoreConflict = useCallback(
+    async (appointment: Appointment): Promise<string | null> => {
+      const start = parseISO(appointment.start_time);
+      const dayStart = startOfDay(start);
+      const [stored, timeOff] = await Promise.all([
+        repository.fetchAppointmentsInRange(dayStart, addDays(dayStart, 1)),
+        repository.fetchTimeOffInRange(dayStart, addDays(dayStart, 1)),
+      ]);
+
+      const local = appointmentsRef.current;
+      const localIds = new Set(local.map((apt) => apt.id));
+      const [conflict] = findBookingConflicts(
+        [start],
+        appointment.duration_minutes,
+        appointment.service_id,
+        {
+          appointments: [...stored.filter((apt) => !localIds.has(apt.id)), ...local],
+          timeOff,
+          workingHours,
+          services,
+        }
+      );
+      return conflict?.reason ?? null;
+    },
+    [repository, workingHours, services]
+  );
+
+  /**
+   * Drop a restored appointment from the list
+   */
+  const removeFromTrash = useCallback((id: string) => {
+    setTrash((prev) => prev.filter((apt) => apt.id !== id));
+  }, []);
+
+  return { trash, loadTrash, findRestoreConflict, removeFromTrash };
+};
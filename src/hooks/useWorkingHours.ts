@@ -0,0 +1,48 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { WorkingHours } from '../types';
+import type { ScheduleRepository } from '../services/scheduleRepository';
+import { scheduleRepository } from '../services/appointmentService';
+import { DEFAULT_WORKING_HOURS } from '../services/workingHours';
+
+/**
+ * Custom hook for the working hours settings
+ * Loaded from the schedule repository; defaults apply until they are saved once.
+ */
+export const useWorkingHours = (repository: ScheduleRepository = scheduleRepository) => {
+  const [workingHours, setWorkingHours] = useState<WorkingHours>(DEFAULT_WORKING_HOURS);
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    repository
+      .fetchWorkingHours()
+      .then((stored) => {
+        if (stored && !isCancelled) setWorkingHours(stored);
+      })
+      .catch((err) => {
+        console.error('Failed to load working hours:', err);
+      });
+
+    return () => {
+      isCancelled = true;
+    };
+  }, [repository]);
+
+  /**
+   * Save new working hours (applied locally right away)
+   */
+  const saveWorkingHours = useCallback(
+    async (hours: WorkingHours) => {
+      setWorkingHours(hours);
+      try {
+        await repository.saveWorkingHours(hours);
+      } catch (err) {
+        console.error('Failed to save working hours:', err);
+        throw err;
+      }
+    },
+    [repository]
+  );
+
+  return { workingHours, saveWorkingHours };
+};
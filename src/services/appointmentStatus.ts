@@ -0,0 +1,78 @@
+import type { Appointment, AppointmentStatus, AppointmentUpdates } from '../types';
+
+export const STATUS_LABELS: Record<AppointmentStatus, string> = {
+  booked: 'Заплановано',
+  confirmed: 'Підтверджено',
+  arrived: 'Клієнт прийшов',
+  in_progress: 'Триває',
+  completed: 'Завершено',
+  cancelled: 'Скасовано',
+  no_show: 'Не прийшов',
+};
+
+/**
+ * Menu action moving an appointment into each status
+ */
+export const STATUS_ACTION_LABELS: Record<AppointmentStatus, string> = {
+  booked: 'Відновити запис',
+  confirmed: 'Підтвердити',
+  arrived: 'Клієнт прийшов',
+  in_progress: 'Почати сеанс',
+  completed: 'Завершити',
+  cancelled: 'Скасувати запис',
+  no_show: 'Клієнт не прийшов',
+};
+
+/**
+ * Statuses each status may move to (cancelled and no-show can be restored)
+ */
+export const STATUS_TRANSITIONS: Record<AppointmentStatus, AppointmentStatus[]> = {
+  booked: ['confirmed', 'arrived', 'cancelled', 'no_show'],
+  confirmed: ['arrived', 'cancelled', 'no_show'],
+  arrived: ['in_progress', 'completed'],
+  in_progress: ['completed'],
+  completed: [],
+  cancelled: ['booked'],
+  no_show: ['booked'],
+};
+
+/**
+ * Status of an appointment (older appointments have none and count as booked)
+ */
+export const getStatus = (appointment: Appointment): AppointmentStatus =>
+  appointment.status ?? 'booked';
+
+/**
+ * Check if an appointment still occupies its time
+ * Cancelled and no-show appointments are kept for history but skipped by overlap
+ * checks, break generation and booked totals.
+ */
+export const isActiveAppointment = (appointment: Appointment): boolean => {
+  const status = getStatus(appointment);
+  return status !== 'cancelled' && status !== 'no_show';
+};
+
+/**
+ * Statuses an appointment can move to from its current one
+ */
+export const getNextStatuses = (appointment: Appointment): AppointmentStatus[] =>
+  STATUS_TRANSITIONS[getStatus(appointment)];
+
+/**
+ * Updates moving an appointment to `status`, stamping when it happened
+ */
+export const buildStatusUpdate = (
+  appointment: Appointment,
+  status: AppointmentStatus,
+  now: Date = new Date()
+): AppointmentUpdates => {
+  const current = getStatus(appointment);
+  if (!STATUS_TRANSITIONS[current].includes(status)) {
+    throw new Error(`Cannot change appointment status from ${current} to ${status}`);
+  }
+
+  return {
+    status,
+    status_timestamps: { ...appointment.status_timestamps, [status]: now.toISOString() },
+  };
+};
@@ -0,0 +1,270 @@
+import { format, parseISO } from 'date-fns';
+import { uk } from 'date-fns/locale';
+import type { ScheduleRepository, ScheduleSnapshot } from './scheduleRepository';
+import { getStatus, STATUS_LABELS } from './appointmentStatus';
+import type {
+  AuditEntry,
+  NewAuditEntry,
+  ScheduleItem,
+  TableDiff,
+} from '../types';
+
+const ACTOR_KEY = 'massage-planner:actor';
+const DEVICE_ID_KEY = 'massage-planner:device-id';
+
+export const UNKNOWN_ACTOR = 'Невідомо';
+
+type AuditChange = Pick<NewAuditEntry, 'table_name' | 'record_id' | 'action' | 'before' | 'after'>;
+
+/**
+ * Name of whoever works on this device (set in the change log)
+ */
+export const getActorName = (): string => {
+  try {
+    return window.localStorage.getItem(ACTOR_KEY)?.trim() || UNKNOWN_ACTOR;
+  } catch (err) {
+    console.error('Error reading actor name:', err);
+    return UNKNOWN_ACTOR;
+  }
+};
+
+export const saveActorName = (name: string): void => {
+  try {
+    window.localStorage.setItem(ACTOR_KEY, name.trim());
+  } catch (err) {
+    console.error('Error writing actor name:', err);
+    throw err;
+  }
+};
+
+/**
+ * Random id of this browser, created on first use
+ */
+const getDeviceId = (): string => {
+  try {
+    const stored = window.localStorage.getItem(DEVICE_ID_KEY);
+    if (stored) return stored;
+    const id = crypto.randomUUID();
+    window.localStorage.setItem(DEVICE_ID_KEY, id);
+    return id;
+  } catch (err) {
+    console.error('Error reading device id:', err);
+    return 'unknown';
+  }
+};
+
+/**
+ * Readable device label, e.g. "iPhone · 3f2a9c1d"
+ */
+export const getDeviceLabel = (): string => {
+  const agent = navigator.userAgent;
+  const platform =
+    [/iPhone/, /iPad/, /Android/, /Windows/, /Mac/, /Linux/]
+      .map((pattern) => agent.match(pattern)?.[0])
+      .find(Boolean) ?? 'Браузер';
+  return `${platform} · ${getDeviceId().slice(0, 8)}`;
+};
+
+const findById = (items: ScheduleItem[], id: string): ScheduleItem | null =>
+  items.find((item) => item.id === id) ?? null;
+
+/**
+ * Audit changes for one table of an applied batch
+ */
+const toBatchChanges = (
+  table: AuditChange['table_name'],
+  diff: TableDiff<{ id?: string }, unknown> | undefined,
+  before: ScheduleItem[],
+  saved: ScheduleItem[]
+): AuditChange[] => {
+  if (!diff) return [];
+  const updatedIds = new Set((diff.update ?? []).map(({ id }) => id));
+
+  return [
+    ...(diff.delete ?? []).map((id): AuditChange => ({
+      table_name: table,
+      record_id: id,
+      action: 'delete',
+      before: findById(before, id),
+      after: null,
+    })),
+    ...saved.map((item): AuditChange => ({
+      table_name: table,
+      record_id: item.id,
+      action: updatedIds.has(item.id) ? 'update' : 'create',
+      before: findById(before, item.id),
+      after: item,
+    })),
+  ];
+};
+
+/**
+ * Wrap a repository so every appointment and break write is recorded in its audit log
+ * The rows a write touches are read first, so each entry holds the state before and after.
+ * A failed log write is reported but doesn't fail the change itself.
+ */
+export const withAuditLog = (repository: ScheduleRepository): ScheduleRepository => {
+  const record = async (changes: AuditChange[]) => {
+    if (changes.length === 0) return;
+    const actor = getActorName();
+    const device = getDeviceLabel();
+    const createdAt = new Date().toISOString();
+    try {
+      await repository.appendAuditEntries(
+        changes.map((change) => ({ ...change, actor, device, created_at: createdAt }))
+      );
+    } catch (err) {
+      console.error('Failed to write audit log:', err);
+    }
+  };
+
+  const fetchBefore = (ids: string[]): Promise<ScheduleSnapshot> =>
+    repository.fetchScheduleItems(ids);
+
+  return {
+    ...repository,
+
+    async createAppointment(appointment) {
+      // Creating with an existing id restores it from the trash
+      const before = await fetchBefore(appointment.id ? [appointment.id] : []);
+      const created = await repository.createAppointment(appointment);
+      await record([
+        {
+          table_name: 'appointments',
+          record_id: created.id,
+          action: 'create',
+          before: findById(before.appointments, created.id),
+          after: created,
+        },
+      ]);
+      return created;
+    },
+
+    async updateAppointment(id, updates, expectedUpdatedAt) {
+      const before = await fetchBefore([id]);
+      const updated = await repository.updateAppointment(id, updates, expectedUpdatedAt);
+      await record([
+        {
+          table_name: 'appointments',
+          record_id: id,
+          action: 'update',
+          before: findById(before.appointments, id),
+          after: updated,
+        },
+      ]);
+      return updated;
+    },
+
+    async deleteAppointment(id) {
+      const before = await fetchBefore([id]);
+      await repository.deleteAppointment(id);
+      await record([
+        {
+          table_name: 'appointments',
+          record_id: id,
+          action: 'delete',
+          before: findById(before.appointments, id),
+          after: null,
+        },
+      ]);
+    },
+
+    async createBreak(breakItem) {
+      const created = await repository.createBreak(breakItem);
+      await record([
+        { table_name: 'breaks', record_id: created.id, action: 'create', before: null, after: created },
+      ]);
+      return created;
+    },
+
+    async updateBreak(id, updates, expectedUpdatedAt) {
+      const before = await fetchBefore([id]);
+      const updated = await repository.updateBreak(id, updates, expectedUpdatedAt);
+      await record([
+        {
+          table_name: 'breaks',
+          record_id: id,
+          action: 'update',
+          before: findById(before.breaks, id),
+          after: updated,
+        },
+      ]);
+      return updated;
+    },
+
+    async deleteBreak(id) {
+      const before = await fetchBefore([id]);
+      await repository.deleteBreak(id);
+      await record([
+        {
+          table_name: 'breaks',
+          record_id: id,
+          action: 'delete',
+          before: findById(before.breaks, id),
+          after: null,
+        },
+      ]);
+    },
+
+    async applyBatch(diff) {
+      const ids = [diff.appointments, diff.breaks].flatMap((tableDiff) => [
+        ...(tableDiff?.delete ?? []),
+        ...(tableDiff?.update ?? []).map(({ id }) => id),
+        ...(tableDiff?.create ?? []).flatMap((row) => (row.id ? [row.id] : [])),
+      ]);
+      const before = await fetchBefore(ids);
+      const saved = await repository.applyBatch(diff);
+      await record([
+        ...toBatchChanges('appointments', diff.appointments, before.appointments, saved.appointments),
+        ...toBatchChanges('breaks', diff.breaks, before.breaks, saved.breaks),
+      ]);
+      return saved;
+    },
+  };
+};
+
+const formatSlot = (item: ScheduleItem): string =>
+  `${format(parseISO(item.start_time), 'd MMM, HH:mm', { locale: uk })}–${format(
+    parseISO(item.end_time),
+    'HH:mm'
+  )}`;
+
+/**
+ * What changed between the logged versions of an appointment or break
+ */
+const describeUpdate = (before: ScheduleItem, after: ScheduleItem): string[] => {
+  const changes: string[] = [];
+  if (before.start_time !== after.start_time || before.duration_minutes !== after.duration_minutes) {
+    changes.push(`Час: ${formatSlot(before)} → ${formatSlot(after)}`);
+  }
+  if (!('client_name' in before) || !('client_name' in after)) return changes;
+
+  if (before.client_name !== after.client_name) {
+    changes.push(`Клієнт: ${before.client_name} → ${after.client_name}`);
+  }
+  if ((before.service_id ?? null) !== (after.service_id ?? null)) changes.push('Змінено послугу');
+  if ((before.notes || '') !== (after.notes || '')) changes.push('Змінено нотатки');
+  if (getStatus(before) !== getStatus(after)) {
+    changes.push(`Статус: ${STATUS_LABELS[getStatus(before)]} → ${STATUS_LABELS[getStatus(after)]}`);
+  }
+  return changes;
+};
+
+/**
+ * Readable lines for an audit entry: the action first, then the details
+ */
+export const describeAuditEntry = (entry: AuditEntry): string[] => {
+  const item = entry.after ?? entry.before;
+  const slot = item ? formatSlot(item) : '';
+
+  switch (entry.action) {
+    case 'create':
+      return [entry.before ? 'Відновлено з кошика' : 'Створено', slot];
+    case 'delete':
+      return [entry.table_name === 'appointments' ? 'Видалено в кошик' : 'Видалено', slot];
+    case 'update': {
+      const changes = entry.before && entry.after ? describeUpdate(entry.before, entry.after) : [];
+      return ['Змінено', ...(changes.length > 0 ? changes : [slot])];
+    }
+  }
+};
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { appointment, at, breakAt } from '../test/fixtures';
+import { DEFAULT_BREAK_POLICY, planBreaks } from './breakPlanner';
+
+const DAY_HOURS = { startHour: 9, endHour: 20 };
+const VERSION = '2025-01-01T00:00:00.000Z';
+
+describe('planBreaks', () => {
+  it('creates a break for a short gap between appointments', () => {
+    const plan = planBreaks(
+      [appointment('a', at(10), 60), appointment('b', at(11, 20), 60)],
+      [],
+      DAY_HOURS
+    );
+
+    expect(plan.create).toEqual([
+      {
+        start_time: at(11).toISOString(),
+        duration_minutes: 20,
+        end_time: at(11, 20).toISOString(),
+      },
+    ]);
+    expect(plan.update).toEqual([]);
+    expect(plan.delete).toEqual([]);
+  });
+
+  it('leaves gaps longer than the policy allows free', () => {
+    const plan = planBreaks(
+      [appointment('a', at(10), 60), appointment('b', at(12), 60)],
+      [],
+      DAY_HOURS
+    );
+
+    expect(plan.create).toEqual([]);
+  });
+
+  it('stretches an existing break to fill the gap and deletes the rest', () => {
+    const plan = planBreaks(
+      [appointment('a', at(10), 60), appointment('b', at(11, 20), 60)],
+      [breakAt('short', at(11), 10, { updated_at: VERSION }), breakAt('stale', at(15), 15)],
+      DAY_HOURS
+    );
+
+    expect(plan.create).toEqual([]);
+    expect(plan.update).toEqual([
+      {
+        id: 'short',
+        updates: { start_time: at(11).toISOString(), duration_minutes: 20 },
+        expectedUpdatedAt: VERSION,
+      },
+    ]);
+    expect(plan.delete).toEqual(['stale']);
+  });
+
+  it('keeps manual breaks when the policy protects them', () => {
+    const appointments = [appointment('a', at(10), 60), appointment('b', at(11, 20), 60)];
+    const breaks = [breakAt('manual', at(11, 5), 10, { is_manual: true })];
+
+    expect(planBreaks(appointments, breaks, DAY_HOURS)).toEqual({
+      create: [],
+      update: [],
+      delete: [],
+    });
+
+    const unprotected = planBreaks(appointments, breaks, DAY_HOURS, {
+      ...DEFAULT_BREAK_POLICY,
+      protectManualBreaks: false,
+    });
+    expect(unprotected.update.map(({ id }) => id)).toEqual(['manual']);
+  });
+
+  it('treats cancelled appointments as free time', () => {
+    const plan = planBreaks(
+      [
+        appointment('a', at(10), 60),
+        appointment('cancelled', at(11, 5), 10, { status: 'cancelled' }),
+        appointment('b', at(11, 20), 60),
+      ],
+      [],
+      DAY_HOURS
+    );
+
+    expect(plan.create.map((brk) => brk.duration_minutes)).toEqual([20]);
+  });
+
+  it('only fills gaps inside the working hours', () => {
+    const plan = planBreaks(
+      [appointment('a', at(19, 30), 60), appointment('b', at(20, 45), 30)],
+      [],
+      DAY_HOURS
+    );
+
+    expect(plan.create).toEqual([]);
+  });
+
+  it('plans no breaks on a day off and deletes the auto-generated ones', () => {
+    const plan = planBreaks(
+      [appointment('a', at(10), 60), appointment('b', at(11, 20), 60)],
+      [breakAt('auto', at(11), 20), breakAt('manual', at(13), 15, { is_manual: true })],
+      null
+    );
+
+    expect(plan.create).toEqual([]);
+    expect(plan.delete).toEqual(['auto']);
+  });
+});
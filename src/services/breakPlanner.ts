@@ -0,0 +1,123 @@
+import { parseISO, setHours, startOfDay } from 'date-fns';
+import type { Appointment, Break, BreakPlan, BreakPolicy, DayHours } from '../types';
+import { sortByStartTime } from './scheduleRepository';
+import { isActiveAppointment } from './appointmentStatus';
+
+export const DEFAULT_BREAK_POLICY: BreakPolicy = {
+  maxGapMinutes: 30,
+  minBreakMinutes: 1,
+  protectManualBreaks: true,
+};
+
+/**
+ * Make sure a stored policy has every setting, filling in defaults for anything missing
+ */
+export const normalizeBreakPolicy = (value: unknown): BreakPolicy => {
+  const stored = value && typeof value === 'object' ? (value as Partial<BreakPolicy>) : {};
+  return {
+    maxGapMinutes: stored.maxGapMinutes ?? DEFAULT_BREAK_POLICY.maxGapMinutes,
+    minBreakMinutes: stored.minBreakMinutes ?? DEFAULT_BREAK_POLICY.minBreakMinutes,
+    protectManualBreaks: stored.protectManualBreaks ?? DEFAULT_BREAK_POLICY.protectManualBreaks,
+  };
+};
+
+interface Gap {
+  start: Date;
+  end: Date;
+}
+
+/**
+ * Gaps between consecutive appointments, inside the day's working hours, that should be
+ * filled with a break (none on a day off)
+ */
+const findBreakGaps = (
+  appointments: Appointment[],
+  dayHours: DayHours | null,
+  policy: BreakPolicy
+): Gap[] => {
+  if (!dayHours) return [];
+
+  const sorted = sortByStartTime(appointments.filter(isActiveAppointment));
+  const gaps: Gap[] = [];
+
+  for (let i = 0; i < sorted.length - 1; i++) {
+    const start = parseISO(sorted[i].end_time);
+    const end = parseISO(sorted[i + 1].start_time);
+    const gapMinutes = (end.getTime() - start.getTime()) / 60000;
+
+    const dayStart = startOfDay(start);
+    const isWithinHours =
+      start >= setHours(dayStart, dayHours.startHour) &&
+      end <= setHours(dayStart, dayHours.endHour);
+
+    if (
+      gapMinutes > 0 &&
+      gapMinutes >= policy.minBreakMinutes &&
+      gapMinutes <= policy.maxGapMinutes &&
+      isWithinHours
+    ) {
+      gaps.push({ start, end });
+    }
+  }
+
+  return gaps;
+};
+
+/**
+ * Check if a break overlaps a gap at all
+ */
+const overlapsGap = (brk: Break, gap: Gap): boolean =>
+  parseISO(brk.start_time) < gap.end && parseISO(brk.end_time) > gap.start;
+
+/**
+ * Work out how a day's breaks should change so that every short gap between
+ * consecutive appointments is covered by exactly one break
+ * - the first break overlapping a gap is stretched to fill it, otherwise one is created
+ * - every other break is deleted
+ * - manual breaks are left alone when the policy protects them
+ *   (a gap that already has one gets no auto break)
+ * - cancelled and no-show appointments leave their time free
+ * - only gaps inside the day's working hours (`getDayHours`) count; a day off gets no auto breaks
+ */
+export const planBreaks = (
+  appointments: Appointment[],
+  breaks: Break[],
+  dayHours: DayHours | null,
+  policy: BreakPolicy = DEFAULT_BREAK_POLICY
+): BreakPlan => {
+  const plan: BreakPlan = { create: [], update: [], delete: [] };
+  const isProtected = (brk: Break) => policy.protectManualBreaks && !!brk.is_manual;
+  const kept = new Set<string>(breaks.filter(isProtected).map((brk) => brk.id));
+
+  for (const gap of findBreakGaps(appointments, dayHours, policy)) {
+    const overlapping = breaks.filter((brk) => overlapsGap(brk, gap));
+    if (overlapping.some(isProtected)) continue;
+
+    const durationMinutes = Math.floor((gap.end.getTime() - gap.start.getTime()) / 60000);
+    const existing = overlapping.find((brk) => !kept.has(brk.id));
+
+    if (!existing) {
+      plan.create.push({
+        start_time: gap.start.toISOString(),
+        duration_minutes: durationMinutes,
+        end_time: gap.end.toISOString(),
+      });
+      continue;
+    }
+
+    kept.add(existing.id);
+    if (
+      parseISO(existing.start_time).getTime() !== gap.start.getTime() ||
+      existing.duration_minutes !== durationMinutes
+    ) {
+      plan.update.push({
+        id: existing.id,
+        updates: { start_time: gap.start.toISOString(), duration_minutes: durationMinutes },
+        expectedUpdatedAt: existing.updated_at,
+      });
+    }
+  }
+
+  plan.delete = breaks.filter((brk) => !kept.has(brk.id)).map((brk) => brk.id);
+  return plan;
+};
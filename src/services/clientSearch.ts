@@ -0,0 +1,77 @@
+import type { Client } from '../types';
+import { normalizeClientName } from './scheduleRepository';
+
+/**
+ * Latin spelling of Cyrillic letters (Ukrainian, plus the Russian-only ones)
+ */
+const CYRILLIC_TO_LATIN: Record<string, string> = {
+  а: 'a', б: 'b', в: 'v', г: 'h', ґ: 'g', д: 'd', е: 'e', є: 'ye', ж: 'zh', з: 'z',
+  и: 'y', і: 'i', ї: 'yi', й: 'y', к: 'k', л: 'l', м: 'm', н: 'n', о: 'o', п: 'p',
+  р: 'r', с: 's', т: 't', у: 'u', ф: 'f', х: 'kh', ц: 'ts', ч: 'ch', ш: 'sh', щ: 'shch',
+  ь: '', ю: 'yu', я: 'ya', ё: 'yo', ъ: '', ы: 'y', э: 'e', "'": '', '’': '', 'ʼ': '',
+};
+
+/**
+ * Key for matching names regardless of alphabet and spelling variant
+ * ("Юлія", "Yulia" and "Julia" all become "iulia")
+ */
+export const toSearchKey = (text: string): string =>
+  [...normalizeClientName(text)]
+    .map((char) => CYRILLIC_TO_LATIN[char] ?? char)
+    .join('')
+    .replace(/kh/g, 'h')
+    .replace(/[yj]/g, 'i')
+    .replace(/w/g, 'v')
+    .replace(/i+/g, 'i');
+
+/**
+ * Edit distance between two strings
+ */
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/**
+ * How well a name matches the query (lower is better, null for no match):
+ * whole-name prefix, word prefix, substring, then word prefixes within a typo or two
+ */
+const scoreMatch = (nameKey: string, queryKey: string): number | null => {
+  if (nameKey.startsWith(queryKey)) return 0;
+  const words = nameKey.split(' ');
+  if (words.some((word) => word.startsWith(queryKey))) return 1;
+  if (nameKey.includes(queryKey)) return 2;
+
+  const allowedTypos = queryKey.length >= 6 ? 2 : queryKey.length >= 3 ? 1 : 0;
+  if (allowedTypos === 0) return null;
+  const distance = Math.min(
+    ...words.map((word) => levenshtein(word.slice(0, queryKey.length), queryKey))
+  );
+  return distance <= allowedTypos ? 3 + distance : null;
+};
+
+/**
+ * Clients matching a typed name, best matches first
+ */
+export const searchClients = (clients: Client[], query: string, limit = 6): Client[] => {
+  const queryKey = toSearchKey(query);
+  if (!queryKey) return [];
+
+  return clients
+    .map((client) => ({ client, score: scoreMatch(toSearchKey(client.name), queryKey) }))
+    .filter((match): match is { client: Client; score: number } => match.score !== null)
+    .sort((a, b) => a.score - b.score || a.client.name.localeCompare(b.client.name, 'uk'))
+    .slice(0, limit)
+    .map((match) => match.client);
+};
@@ -0,0 +1,48 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { appointment, at } from '../test/fixtures';
+import { createLocalStorageRepository } from './localStorageRepository';
+
+const STORAGE_KEY = 'test:schedule';
+
+describe('createLocalStorageRepository', () => {
+  beforeEach(() => {
+    window.localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('keeps the schedule and the other collections across reloads', async () => {
+    const repository = createLocalStorageRepository(STORAGE_KEY);
+    await repository.createAppointment(appointment('a1', at(10)));
+    await repository.createClient({ name: 'Олена' });
+    await repository.saveBreakPolicy({
+      maxGapMinutes: 20,
+      minBreakMinutes: 5,
+      protectManualBreaks: false,
+    });
+
+    const reloaded = createLocalStorageRepository(STORAGE_KEY);
+
+    expect((await reloaded.fetchAppointments()).map((apt) => apt.id)).toEqual(['a1']);
+    expect((await reloaded.fetchClients()).map((client) => client.name)).toEqual(['Олена']);
+    expect(await reloaded.fetchBreakPolicy()).toMatchObject({ maxGapMinutes: 20 });
+    expect(window.localStorage.getItem(`${STORAGE_KEY}:clients`)).toContain('Олена');
+  });
+
+  it('leaves the schedule unchanged when local storage rejects the write', async () => {
+    const repository = createLocalStorageRepository(STORAGE_KEY);
+    await repository.createAppointment(appointment('a1', at(10)));
+    vi.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+      throw new DOMException('Quota exceeded', 'QuotaExceededError');
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(repository.createAppointment(appointment('a2', at(12)))).rejects.toThrow();
+    await expect(repository.deleteAppointment('a1')).rejects.toThrow();
+
+    expect((await repository.fetchAppointments()).map((apt) => apt.id)).toEqual(['a1']);
+  });
+});
@@ -0,0 +1,84 @@
+import { createMemoryRepository, type MemoryCollections } from './memoryRepository';
+import { normalizeWorkingHours } from './workingHours';
+import { normalizeBreakPolicy } from './breakPlanner';
+import type { ScheduleRepository, ScheduleSnapshot } from './scheduleRepository';
+
+const DEFAULT_STORAGE_KEY = 'massage-planner:schedule';
+
+type SideCollection = Exclude<keyof MemoryCollections, 'appointments' | 'breaks'>;
+
+/**
+ * Storage key suffixes of the collections kept next to the schedule
+ */
+const COLLECTION_KEYS: Record<SideCollection, string> = {
+  workingHours: 'working-hours',
+  breakPolicy: 'break-policy',
+  timeOff: 'time-off',
+  clients: 'clients',
+  services: 'services',
+  series: 'series',
+  templates: 'templates',
+  auditLog: 'audit-log',
+};
+
+/**
+ * Read a JSON value from local storage, falling back when it is missing or unreadable
+ */
+const loadJson = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = window.localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as T) : fallback;
+  } catch (err) {
+    console.error(`Error reading ${key} from local storage:`, err);
+    return fallback;
+  }
+};
+
+/**
+ * Write a JSON value to local storage
+ */
+const saveJson = (key: string, value: unknown): void => {
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+  } catch (err) {
+    console.error(`Error writing ${key} to local storage:`, err);
+    throw err;
+  }
+};
+
+/**
+ * Browser-local schedule repository for offline/demo use
+ * The in-memory repository loaded from localStorage once; every change is written back
+ * before it is applied. Appointments and breaks are stored under `storageKey`, the other
+ * collections next to them as `<storageKey>:working-hours`, `<storageKey>:clients` and so on
+ * (see COLLECTION_KEYS).
+ */
+export const createLocalStorageRepository = (
+  storageKey: string = DEFAULT_STORAGE_KEY
+): ScheduleRepository => {
+  const keyOf = (name: SideCollection) => `${storageKey}:${COLLECTION_KEYS[name]}`;
+  const saved = loadJson<Partial<ScheduleSnapshot>>(storageKey, {});
+  const workingHours = loadJson<unknown>(keyOf('workingHours'), null);
+  const breakPolicy = loadJson<unknown>(keyOf('breakPolicy'), null);
+
+  return createMemoryRepository(
+    {
+      appointments: saved.appointments || [],
+      breaks: saved.breaks || [],
+      workingHours: workingHours ? normalizeWorkingHours(workingHours) : null,
+      breakPolicy: breakPolicy ? normalizeBreakPolicy(breakPolicy) : null,
+      timeOff: loadJson(keyOf('timeOff'), []),
+      clients: loadJson(keyOf('clients'), []),
+      services: loadJson(keyOf('services'), []),
+      series: loadJson(keyOf('series'), []),
+      templates: loadJson(keyOf('templates'), []),
+      auditLog: loadJson(keyOf('auditLog'), []),
+    },
+    ({ appointments, breaks, ...changed }) => {
+      if (appointments && breaks) saveJson(storageKey, { appointments, breaks });
+      for (const name of Object.keys(changed) as SideCollection[]) {
+        saveJson(keyOf(name), changed[name]);
+      }
+    }
+  );
+};
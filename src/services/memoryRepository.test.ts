@@ -0,0 +1,109 @@
+import { describe, expect, it, vi } from 'vitest';
+import { appointment, at, breakAt } from '../test/fixtures';
+import { isConflictError } from './scheduleRepository';
+import { createMemoryRepository, type PersistCollections } from './memoryRepository';
+
+describe('createMemoryRepository', () => {
+  it('rejects creating an appointment or break with an id already in use', async () => {
+    const repository = createMemoryRepository();
+    await repository.createAppointment(appointment('a1', at(10)));
+    await repository.createBreak(breakAt('b1', at(11)));
+
+    await expect(repository.createAppointment(appointment('a1', at(12)))).rejects.toThrow(
+      'already exists'
+    );
+    await expect(repository.createBreak(breakAt('b1', at(12)))).rejects.toThrow('already exists');
+    expect(await repository.fetchAppointments()).toHaveLength(1);
+    expect(await repository.fetchBreaks()).toHaveLength(1);
+  });
+
+  it('rejects an update based on a stale version with the stored row', async () => {
+    const repository = createMemoryRepository({
+      appointments: [appointment('a1', at(10), 60, { updated_at: 'v1' })],
+    });
+    const moved = await repository.updateAppointment(
+      'a1',
+      { start_time: at(11).toISOString() },
+      'v1'
+    );
+
+    const stale = repository.updateAppointment('a1', { notes: 'Застаріла зміна' }, 'v1');
+
+    await expect(stale).rejects.toSatisfy(
+      (err) => isConflictError(err) && err.table === 'appointments' && err.current === moved
+    );
+    expect((await repository.fetchAppointments())[0].notes).toBeUndefined();
+  });
+
+  it('rolls a batch back completely when one of its steps fails', async () => {
+    const repository = createMemoryRepository({
+      appointments: [appointment('a1', at(10)), appointment('a2', at(12))],
+      breaks: [breakAt('b1', at(11))],
+    });
+
+    const batch = repository.applyBatch({
+      appointments: {
+        delete: ['a1'],
+        update: [{ id: 'a2', updates: { notes: 'Оновлено' } }],
+        create: [appointment('a3', at(14))],
+      },
+      breaks: { update: [{ id: 'missing', updates: { duration_minutes: 20 } }] },
+    });
+
+    await expect(batch).rejects.toThrow('not found');
+    const stored = await repository.fetchAppointments();
+    expect(stored.map((apt) => apt.id)).toEqual(['a1', 'a2']);
+    expect(stored[1].notes).toBeUndefined();
+    expect(await repository.fetchTrash()).toEqual([]);
+  });
+
+  it('restores a trashed appointment when it is created again with its id', async () => {
+    const repository = createMemoryRepository();
+    const created = await repository.createAppointment(appointment('a1', at(10)));
+    await repository.deleteAppointment('a1');
+    expect((await repository.fetchTrash()).map((apt) => apt.id)).toEqual(['a1']);
+
+    const restored = await repository.createAppointment(appointment('a1', at(10)));
+
+    expect(restored).toMatchObject({ deleted_at: null, created_at: created.created_at });
+    expect(await repository.fetchAppointments()).toEqual([restored]);
+    expect(await repository.fetchTrash()).toEqual([]);
+  });
+
+  it('persists each change before applying it and stays unchanged when that fails', async () => {
+    const persist = vi.fn<Parameters<PersistCollections>, void>();
+    const repository = createMemoryRepository({}, persist);
+
+    await repository.createClient({ name: 'Олена' });
+    expect(persist).toHaveBeenLastCalledWith({
+      clients: [expect.objectContaining({ name: 'Олена' })],
+    });
+
+    persist.mockImplementation(() => {
+      throw new Error('QuotaExceededError');
+    });
+    await expect(repository.createAppointment(appointment('a1', at(10)))).rejects.toThrow();
+    await expect(repository.createClient({ name: 'Ірина' })).rejects.toThrow();
+    await expect(
+      repository.applyBatch({ appointments: { create: [appointment('a2', at(12))] } })
+    ).rejects.toThrow();
+
+    expect(await repository.fetchAppointments()).toEqual([]);
+    expect((await repository.fetchClients()).map((client) => client.name)).toEqual(['Олена']);
+  });
+
+  it('persists a batch once, after all of its steps succeeded', async () => {
+    const persist = vi.fn<Parameters<PersistCollections>, void>();
+    const repository = createMemoryRepository({}, persist);
+
+    await repository.applyBatch({
+      appointments: { create: [appointment('a1', at(10)), appointment('a2', at(12))] },
+      breaks: { create: [breakAt('b1', at(11))] },
+    });
+
+    expect(persist).toHaveBeenCalledOnce();
+    const [{ appointments, breaks }] = persist.mock.calls[0];
+    expect(appointments?.map((apt) => apt.id)).toEqual(['a1', 'a2']);
+    expect(breaks?.map((brk) => brk.id)).toEqual(['b1']);
+  });
+});
@@ -0,0 +1,457 @@
+import {
+  calculateEndTime,
+  createConflictError,
+  getTrashCutoff,
+  sortByCreatedAt,
+  sortByDeletedAt,
+  sortByStartTime,
+  sortClientsByName,
+  sortServices,
+  sortTemplates,
+  summarizeClientVisits,
+  trimAuditLog,
+  startsInRange,
+  summarizeDays,
+  type ScheduleRepository,
+  type ScheduleSnapshot,
+} from './scheduleRepository';
+import { parseISO } from 'date-fns';
+import { overlapsTimeOff } from './timeOff';
+import type {
+  Appointment,
+  AppointmentSeries,
+  AuditEntry,
+  Break,
+  BreakPolicy,
+  Client,
+  ScheduleTemplate,
+  Service,
+  TimeOff,
+  WorkingHours,
+} from '../types';
+
+/**
+ * Everything a memory repository stores
+ */
+export interface MemoryCollections {
+  appointments: Appointment[];
+  breaks: Break[];
+  workingHours: WorkingHours | null;
+  breakPolicy: BreakPolicy | null;
+  timeOff: TimeOff[];
+  clients: Client[];
+  services: Service[];
+  series: AppointmentSeries[];
+  templates: ScheduleTemplate[];
+  auditLog: AuditEntry[];
+}
+
+/**
+ * Writes changed collections somewhere durable (appointments and breaks always come together)
+ * Called before a change is applied; when it throws, the repository stays as it was.
+ */
+export type PersistCollections = (changed: Partial<MemoryCollections>) => void;
+
+/**
+ * In-memory schedule repository
+ * Used for tests and as the engine behind the local storage backend, which passes
+ * its stored collections as `initial` and writes them back with `persist`.
+ */
+export const createMemoryRepository = (
+  initial: Partial<MemoryCollections> = {},
+  persist?: PersistCollections
+): ScheduleRepository => {
+  let appointments = sortByStartTime(initial.appointments ?? []);
+  let breaks = sortByStartTime(initial.breaks ?? []);
+  let isBatching = false;
+  let collections: Omit<MemoryCollections, 'appointments' | 'breaks'> = {
+    workingHours: initial.workingHours ?? null,
+    breakPolicy: initial.breakPolicy ?? null,
+    timeOff: initial.timeOff ?? [],
+    clients: initial.clients ?? [],
+    services: initial.services ?? [],
+    series: initial.series ?? [],
+    templates: initial.templates ?? [],
+    auditLog: initial.auditLog ?? [],
+  };
+
+  // Inside a batch, changes are only persisted once the whole batch succeeded
+  const commit = (next: ScheduleSnapshot) => {
+    const sorted = {
+      appointments: sortByStartTime(next.appointments),
+      breaks: sortByStartTime(next.breaks),
+    };
+    if (!isBatching) persist?.(sorted);
+    appointments = sorted.appointments;
+    breaks = sorted.breaks;
+  };
+
+  /**
+   * Replace one of the other collections
+   */
+  const save = <K extends keyof typeof collections>(
+    name: K,
+    value: (typeof collections)[K]
+  ): void => {
+    persist?.({ [name]: value });
+    collections = { ...collections, [name]: value };
+  };
+
+  // Deleted appointments stay in the list (with `deleted_at`) until purged from the trash
+  const liveAppointments = () => appointments.filter((apt) => !apt.deleted_at);
+
+  const findAppointment = (id: string): Appointment => {
+    const appointment = liveAppointments().find((apt) => apt.id === id);
+    if (!appointment) {
+      throw new Error(`Appointment with id ${id} not found or already deleted`);
+    }
+    return appointment;
+  };
+
+  const findBreak = (id: string): Break => {
+    const breakItem = breaks.find((brk) => brk.id === id);
+    if (!breakItem) {
+      throw new Error(`Break with id ${id} not found or already deleted`);
+    }
+    return breakItem;
+  };
+
+  const repository: ScheduleRepository = {
+    async fetchAppointments() {
+      return liveAppointments();
+    },
+
+    async fetchAppointmentsInRange(from, to) {
+      return liveAppointments().filter((apt) => startsInRange(apt, from, to));
+    },
+
+    async createAppointment(appointment) {
+      const now = new Date().toISOString();
+      const created: Appointment = {
+        ...appointment,
+        id: appointment.id ?? crypto.randomUUID(),
+        end_time: calculateEndTime(appointment.start_time, appointment.duration_minutes),
+        deleted_at: null,
+        created_at: now,
+        updated_at: now,
+      };
+      // Ids are unique like in the database; creating a trashed appointment again restores it
+      if (liveAppointments().some((apt) => apt.id === created.id)) {
+        throw new Error(`Appointment with id ${created.id} already exists`);
+      }
+      const trashed = appointments.find((apt) => apt.id === created.id && apt.deleted_at);
+      if (trashed) created.created_at = trashed.created_at;
+      commit({ appointments: [...appointments.filter((apt) => apt !== trashed), created], breaks });
+      return created;
+    },
+
+    async updateAppointment(id, updates, expectedUpdatedAt) {
+      const current = findAppointment(id);
+      if (expectedUpdatedAt && current.updated_at !== expectedUpdatedAt) {
+        throw createConflictError('appointments', current);
+      }
+      const merged = { ...current, ...updates };
+      const updated: Appointment = {
+        ...merged,
+        end_time: calculateEndTime(merged.start_time, merged.duration_minutes),
+        updated_at: new Date().toISOString(),
+      };
+      commit({ appointments: appointments.map((apt) => (apt.id === id ? updated : apt)), breaks });
+      return updated;
+    },
+
+    async deleteAppointment(id) {
+      const now = new Date().toISOString();
+      commit({
+        appointments: appointments.map((apt) =>
+          apt.id === id && !apt.deleted_at ? { ...apt, deleted_at: now, updated_at: now } : apt
+        ),
+        breaks,
+      });
+    },
+
+    async fetchTrash() {
+      const cutoff = getTrashCutoff();
+      const expired = appointments.filter((apt) => apt.deleted_at && apt.deleted_at < cutoff);
+      if (expired.length > 0) {
+        commit({ appointments: appointments.filter((apt) => !expired.includes(apt)), breaks });
+      }
+      return sortByDeletedAt(appointments.filter((apt) => apt.deleted_at));
+    },
+
+    async fetchBreaks() {
+      return [...breaks];
+    },
+
+    async fetchBreaksInRange(from, to) {
+      return breaks.filter((brk) => startsInRange(brk, from, to));
+    },
+
+    async createBreak(breakItem) {
+      const now = new Date().toISOString();
+      const created: Break = {
+        ...breakItem,
+        id: breakItem.id ?? crypto.randomUUID(),
+        end_time: calculateEndTime(breakItem.start_time, breakItem.duration_minutes),
+        created_at: now,
+        updated_at: now,
+      };
+      if (breaks.some((brk) => brk.id === created.id)) {
+        throw new Error(`Break with id ${created.id} already exists`);
+      }
+      commit({ appointments, breaks: [...breaks, created] });
+      return created;
+    },
+
+    async updateBreak(id, updates, expectedUpdatedAt) {
+      const current = findBreak(id);
+      if (expectedUpdatedAt && current.updated_at !== expectedUpdatedAt) {
+        throw createConflictError('breaks', current);
+      }
+      const merged = { ...current, ...updates };
+      const updated: Break = {
+        ...merged,
+        end_time: calculateEndTime(merged.start_time, merged.duration_minutes),
+        updated_at: new Date().toISOString(),
+      };
+      commit({ appointments, breaks: breaks.map((brk) => (brk.id === id ? updated : brk)) });
+      return updated;
+    },
+
+    async deleteBreak(id) {
+      commit({ appointments, breaks: breaks.filter((brk) => brk.id !== id) });
+    },
+
+    async fetchDaySummaries(from, to) {
+      return summarizeDays(liveAppointments().filter((apt) => startsInRange(apt, from, to)));
+    },
+
+    async fetchScheduleItems(ids) {
+      return {
+        appointments: appointments.filter((apt) => ids.includes(apt.id)),
+        breaks: breaks.filter((brk) => ids.includes(brk.id)),
+      };
+    },
+
+    async applyBatch(diff) {
+      const before = { appointments, breaks };
+      const saved: ScheduleSnapshot = { appointments: [], breaks: [] };
+
+      isBatching = true;
+      try {
+        for (const id of diff.appointments?.delete ?? []) {
+          await repository.deleteAppointment(id);
+        }
+        for (const id of diff.breaks?.delete ?? []) {
+          await repository.deleteBreak(id);
+        }
+        for (const { id, updates, expectedUpdatedAt } of diff.appointments?.update ?? []) {
+          saved.appointments.push(
+            await repository.updateAppointment(id, updates, expectedUpdatedAt)
+          );
+        }
+        for (const { id, updates, expectedUpdatedAt } of diff.breaks?.update ?? []) {
+          saved.breaks.push(await repository.updateBreak(id, updates, expectedUpdatedAt));
+        }
+        for (const appointment of diff.appointments?.create ?? []) {
+          saved.appointments.push(await repository.createAppointment(appointment));
+        }
+        for (const breakItem of diff.breaks?.create ?? []) {
+          saved.breaks.push(await repository.createBreak(breakItem));
+        }
+
+        isBatching = false;
+        commit({ appointments, breaks });
+      } catch (err) {
+        // Roll back everything the batch already applied
+        appointments = before.appointments;
+        breaks = before.breaks;
+        throw err;
+      } finally {
+        isBatching = false;
+      }
+
+      return saved;
+    },
+
+    async fetchWorkingHours() {
+      return collections.workingHours;
+    },
+
+    async saveWorkingHours(hours) {
+      save('workingHours', hours);
+      return hours;
+    },
+
+    async fetchBreakPolicy() {
+      return collections.breakPolicy;
+    },
+
+    async saveBreakPolicy(policy) {
+      save('breakPolicy', policy);
+      return policy;
+    },
+
+    async fetchTimeOffInRange(from, to) {
+      return collections.timeOff.filter((block) => overlapsTimeOff(block, from, to));
+    },
+
+    async createTimeOff(block) {
+      const now = new Date().toISOString();
+      const created: TimeOff = {
+        ...block,
+        id: block.id ?? crypto.randomUUID(),
+        created_at: now,
+        updated_at: now,
+      };
+      save('timeOff', sortByStartTime([...collections.timeOff, created]));
+      return created;
+    },
+
+    async deleteTimeOff(id) {
+      save('timeOff', collections.timeOff.filter((block) => block.id !== id));
+    },
+
+    async fetchClients() {
+      return [...collections.clients];
+    },
+
+    async createClient(client) {
+      const now = new Date().toISOString();
+      const created: Client = {
+        ...client,
+        id: client.id ?? crypto.randomUUID(),
+        created_at: now,
+        updated_at: now,
+      };
+      save('clients', sortClientsByName([...collections.clients, created]));
+      return created;
+    },
+
+    async updateClient(id, updates) {
+      const current = collections.clients.find((client) => client.id === id);
+      if (!current) {
+        throw new Error(`Client with id ${id} not found`);
+      }
+      const updated: Client = { ...current, ...updates, updated_at: new Date().toISOString() };
+      const clients = collections.clients.map((client) => (client.id === id ? updated : client));
+      save('clients', sortClientsByName(clients));
+      return updated;
+    },
+
+    async fetchClientAppointments(clientId) {
+      return liveAppointments().filter((apt) => apt.client_id === clientId);
+    },
+
+    async fetchClientVisitSummaries() {
+      return summarizeClientVisits(liveAppointments());
+    },
+
+    async fetchServices() {
+      return [...collections.services];
+    },
+
+    async createService(service) {
+      const now = new Date().toISOString();
+      const created: Service = {
+        ...service,
+        id: service.id ?? crypto.randomUUID(),
+        created_at: now,
+        updated_at: now,
+      };
+      save('services', sortServices([...collections.services, created]));
+      return created;
+    },
+
+    async updateService(id, updates) {
+      const current = collections.services.find((service) => service.id === id);
+      if (!current) {
+        throw new Error(`Service with id ${id} not found`);
+      }
+      const updated: Service = { ...current, ...updates, updated_at: new Date().toISOString() };
+      const services = collections.services.map((item) => (item.id === id ? updated : item));
+      save('services', sortServices(services));
+      return updated;
+    },
+
+    async fetchSeries() {
+      return [...collections.series];
+    },
+
+    async createSeries(newSeries) {
+      const now = new Date().toISOString();
+      const created: AppointmentSeries = {
+        ...newSeries,
+        id: newSeries.id ?? crypto.randomUUID(),
+        created_at: now,
+        updated_at: now,
+      };
+      save('series', [...collections.series, created]);
+      return created;
+    },
+
+    async updateSeries(id, updates) {
+      const current = collections.series.find((item) => item.id === id);
+      if (!current) {
+        throw new Error(`Series with id ${id} not found`);
+      }
+      const updated: AppointmentSeries = { ...current, ...updates, updated_at: new Date().toISOString() };
+      save('series', collections.series.map((item) => (item.id === id ? updated : item)));
+      return updated;
+    },
+
+    async deleteSeries(id) {
+      save('series', collections.series.filter((item) => item.id !== id));
+    },
+
+    async fetchSeriesAppointments(seriesId) {
+      return liveAppointments().filter((apt) => apt.series_id === seriesId);
+    },
+
+    async fetchTemplates() {
+      return sortTemplates(collections.templates);
+    },
+
+    async createTemplate(newTemplate) {
+      const now = new Date().toISOString();
+      const created: ScheduleTemplate = {
+        ...newTemplate,
+        id: newTemplate.id ?? crypto.randomUUID(),
+        created_at: now,
+        updated_at: now,
+      };
+      save('templates', [...collections.templates, created]);
+      return created;
+    },
+
+    async deleteTemplate(id) {
+      save('templates', collections.templates.filter((template) => template.id !== id));
+    },
+
+    async appendAuditEntries(entries) {
+      // Trimmed on every write so a persisted log can't fill up the storage quota
+      save(
+        'auditLog',
+        trimAuditLog([
+          ...collections.auditLog,
+          ...entries.map((entry) => ({ ...entry, id: crypto.randomUUID() })),
+        ])
+      );
+    },
+
+    async fetchRecordAuditLog(recordId) {
+      return sortByCreatedAt(collections.auditLog.filter((entry) => entry.record_id === recordId));
+    },
+
+    async fetchAuditLogInRange(from, to) {
+      return sortByCreatedAt(
+        collections.auditLog.filter((entry) => {
+          const createdAt = parseISO(entry.created_at);
+          return createdAt >= from && createdAt < to;
+        })
+      );
+    },
+  };
+
+  return repository;
+};
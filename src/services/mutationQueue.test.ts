@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import type { MutationOperation, QueuedMutation, SyncStatus } from '../types';
+import { at, breakAt } from '../test/fixtures';
+import { dropFailedMutations, findNextMutation, rebaseQueue } from './mutationQueue';
+
+const queued = (
+  id: string,
+  operation: MutationOperation,
+  status: SyncStatus = 'pending'
+): QueuedMutation => ({
+  ...operation,
+  id,
+  queuedAt: '2025-01-06T10:00:00.000Z',
+  status,
+});
+
+const storedBreak = (id: string, updatedAt?: string) =>
+  breakAt(id, at(10), 15, { updated_at: updatedAt });
+
+describe('rebaseQueue', () => {
+  it('points later updates of a stored item at its stored version', () => {
+    const queue = [
+      queued('1', {
+        kind: 'updateBreak',
+        targetId: 'b1',
+        updates: { duration_minutes: 20 },
+        expectedUpdatedAt: 'optimistic',
+      }),
+      queued('2', {
+        kind: 'updateBreak',
+        targetId: 'b2',
+        updates: { duration_minutes: 20 },
+        expectedUpdatedAt: 'untouched',
+      }),
+      queued('3', { kind: 'deleteBreak', targetId: 'b1' }),
+    ];
+
+    const rebased = rebaseQueue(queue, [storedBreak('b1', 'stored')]);
+
+    expect(rebased[0]).toMatchObject({ expectedUpdatedAt: 'stored' });
+    expect(rebased[1]).toMatchObject({ expectedUpdatedAt: 'untouched' });
+    expect(rebased[2]).toEqual(queue[2]);
+  });
+
+  it('rebases the updates inside a batch', () => {
+    const queue = [
+      queued('1', {
+        kind: 'applyBatch',
+        diff: {
+          breaks: {
+            update: [
+              { id: 'b1', updates: { duration_minutes: 20 }, expectedUpdatedAt: 'optimistic' },
+              { id: 'b2', updates: { duration_minutes: 20 } },
+            ],
+          },
+        },
+      }),
+    ];
+
+    const [rebased] = rebaseQueue(queue, [storedBreak('b1', 'stored')]);
+
+    expect(rebased.kind === 'applyBatch' && rebased.diff.breaks?.update).toEqual([
+      { id: 'b1', updates: { duration_minutes: 20 }, expectedUpdatedAt: 'stored' },
+      { id: 'b2', updates: { duration_minutes: 20 }, expectedUpdatedAt: undefined },
+    ]);
+  });
+
+  it('returns the queue as is when no stored row has a version', () => {
+    const queue = [queued('1', { kind: 'deleteBreak', targetId: 'b1' })];
+
+    expect(rebaseQueue(queue, [storedBreak('b1')])).toBe(queue);
+  });
+});
+
+describe('findNextMutation', () => {
+  it('holds back later mutations of an item whose mutation failed', () => {
+    const queue = [
+      queued('1', { kind: 'deleteBreak', targetId: 'b1' }, 'failed'),
+      queued('2', { kind: 'updateBreak', targetId: 'b1', updates: { duration_minutes: 20 } }),
+      queued('3', { kind: 'deleteBreak', targetId: 'b2' }),
+    ];
+
+    expect(findNextMutation(queue)?.id).toBe('3');
+  });
+
+  it('also holds back mutations queued behind a held one', () => {
+    const queue = [
+      queued('1', { kind: 'deleteBreak', targetId: 'b1' }, 'failed'),
+      queued('2', {
+        kind: 'applyBatch',
+        diff: { breaks: { delete: ['b1', 'b2'] } },
+      }),
+      queued('3', { kind: 'deleteBreak', targetId: 'b2' }),
+    ];
+
+    expect(findNextMutation(queue)).toBeUndefined();
+  });
+});
+
+describe('dropFailedMutations', () => {
+  it('removes failed mutations with everything held back behind them', () => {
+    const queue = [
+      queued('1', { kind: 'deleteBreak', targetId: 'b1' }, 'failed'),
+      queued('2', { kind: 'updateBreak', targetId: 'b1', updates: { duration_minutes: 20 } }),
+      queued('3', { kind: 'deleteBreak', targetId: 'b2' }),
+    ];
+
+    expect(dropFailedMutations(queue).map(({ id }) => id)).toEqual(['3']);
+  });
+});
@@ -0,0 +1,305 @@
+import {
+  calculateEndTime,
+  sortByStartTime,
+  type ScheduleRepository,
+  type ScheduleSnapshot,
+} from './scheduleRepository';
+import type {
+  Appointment,
+  Break,
+  MutationOperation,
+  NewAppointment,
+  NewBreak,
+  QueuedMutation,
+  ScheduleDiff,
+  ScheduleItem,
+  TableDiff,
+} from '../types';
+
+const STORAGE_KEY = 'massage-planner:mutation-queue';
+
+/**
+ * What the backend stored for a mutation: a row, the rows of a batch, or nothing (deletes)
+ */
+export type MutationResult = Appointment | Break | ScheduleSnapshot | void;
+
+/**
+ * Read the persisted offline queue
+ */
+export const loadQueue = (): QueuedMutation[] => {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as QueuedMutation[]) : [];
+  } catch (err) {
+    console.error('Error reading mutation queue:', err);
+    return [];
+  }
+};
+
+/**
+ * Persist the offline queue so pending changes survive a reload
+ */
+export const saveQueue = (queue: QueuedMutation[]): void => {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(queue));
+  } catch (err) {
+    console.error('Error writing mutation queue:', err);
+  }
+};
+
+/**
+ * Check if an error means the backend couldn't be reached (as opposed to rejecting the write)
+ */
+export const isNetworkError = (err: unknown): boolean => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  return /failed to fetch|networkerror|load failed|network request failed/i.test(
+    describeError(err)
+  );
+};
+
+/**
+ * Human-readable message for an error thrown by a repository
+ */
+export const describeError = (err: unknown): string => {
+  const message = (err as { message?: unknown } | null)?.message;
+  return typeof message === 'string' ? message : String(err);
+};
+
+/**
+ * Ids of the items a mutation changes
+ */
+export const getTargetIds = (mutation: MutationOperation): string[] => {
+  if (mutation.kind !== 'applyBatch') return [mutation.targetId];
+
+  const { appointments, breaks } = mutation.diff;
+  return [appointments, breaks].flatMap((diff) => [
+    ...(diff?.create ?? []).flatMap((row) => (row.id ? [row.id] : [])),
+    ...(diff?.update ?? []).map(({ id }) => id),
+    ...(diff?.delete ?? []),
+  ]);
+};
+
+/**
+ * Next pending mutation that can be sent
+ * Items stay in order: once a mutation failed, later mutations of the same items are held
+ * back (and so are the mutations queued behind those) until it is retried or removed.
+ */
+export const findNextMutation = (queue: QueuedMutation[]): QueuedMutation | undefined => {
+  const heldIds = new Set<string>();
+
+  for (const mutation of queue) {
+    const targetIds = getTargetIds(mutation);
+    if (mutation.status === 'pending' && !targetIds.some((id) => heldIds.has(id))) {
+      return mutation;
+    }
+    targetIds.forEach((id) => heldIds.add(id));
+  }
+  return undefined;
+};
+
+/**
+ * The queue without its failed mutations and the mutations held back behind them
+ */
+export const dropFailedMutations = (queue: QueuedMutation[]): QueuedMutation[] => {
+  const droppedIds = new Set<string>();
+
+  return queue.filter((mutation) => {
+    const targetIds = getTargetIds(mutation);
+    if (mutation.status === 'pending' && !targetIds.some((id) => droppedIds.has(id))) {
+      return true;
+    }
+    targetIds.forEach((id) => droppedIds.add(id));
+    return false;
+  });
+};
+
+/**
+ * Stored rows of a mutation result, split by table
+ */
+export const toSnapshot = (result: MutationResult): ScheduleSnapshot => {
+  if (!result) return { appointments: [], breaks: [] };
+  if ('appointments' in result) return result;
+  return 'client_name' in result
+    ? { appointments: [result], breaks: [] }
+    : { appointments: [], breaks: [result] };
+};
+
+/**
+ * Send a queued mutation to the repository
+ */
+export const executeMutation = (
+  repository: ScheduleRepository,
+  mutation: QueuedMutation
+): Promise<MutationResult> => {
+  switch (mutation.kind) {
+    case 'createAppointment':
+      return repository.createAppointment(mutation.row);
+    case 'updateAppointment':
+      return repository.updateAppointment(
+        mutation.targetId,
+        mutation.updates,
+        mutation.expectedUpdatedAt
+      );
+    case 'deleteAppointment':
+      return repository.deleteAppointment(mutation.targetId);
+    case 'createBreak':
+      return repository.createBreak(mutation.row);
+    case 'updateBreak':
+      return repository.updateBreak(mutation.targetId, mutation.updates, mutation.expectedUpdatedAt);
+    case 'deleteBreak':
+      return repository.deleteBreak(mutation.targetId);
+    case 'applyBatch':
+      return repository.applyBatch(mutation.diff);
+  }
+};
+
+/**
+ * Later queued updates of an item were based on its optimistic row;
+ * once a write is stored, point their version check at the stored version
+ */
+export const rebaseQueue = (queue: QueuedMutation[], stored: ScheduleItem[]): QueuedMutation[] => {
+  const versions = new Map(
+    stored.flatMap((row) => (row.updated_at ? [[row.id, row.updated_at] as const] : []))
+  );
+  if (versions.size === 0) return queue;
+
+  const rebaseDiff = <TNew, TUpdates>(diff?: TableDiff<TNew, TUpdates>) =>
+    diff && {
+      ...diff,
+      update: diff.update?.map((entry) => ({
+        ...entry,
+        expectedUpdatedAt: versions.get(entry.id) ?? entry.expectedUpdatedAt,
+      })),
+    };
+
+  return queue.map((m) => {
+    switch (m.kind) {
+      case 'updateAppointment':
+      case 'updateBreak':
+        return { ...m, expectedUpdatedAt: versions.get(m.targetId) ?? m.expectedUpdatedAt };
+      case 'applyBatch':
+        return {
+          ...m,
+          diff: {
+            appointments: rebaseDiff(m.diff.appointments),
+            breaks: rebaseDiff(m.diff.breaks),
+          },
+        };
+      default:
+        return m;
+    }
+  });
+};
+
+/**
+ * Apply updates to an item locally, recalculating its end time
+ */
+export const applyUpdates = <T extends Appointment | Break>(
+  item: T,
+  updates: Partial<T>
+): T => {
+  const merged = { ...item, ...updates };
+  return {
+    ...merged,
+    end_time: calculateEndTime(merged.start_time, merged.duration_minutes),
+  };
+};
+
+/**
+ * Turn a create payload into the row it will become
+ */
+const toCreatedRow = <T extends NewAppointment | NewBreak>(row: T) => ({
+  ...row,
+  id: row.id ?? crypto.randomUUID(),
+  end_time: calculateEndTime(row.start_time, row.duration_minutes),
+});
+
+/**
+ * Apply one table's diff to local items
+ */
+const applyTableDiff = <T extends ScheduleItem>(
+  items: T[],
+  diff: TableDiff<unknown, Partial<T>> | undefined,
+  created: T[]
+): T[] => {
+  if (!diff) return items;
+
+  const deleted = new Set(diff.delete ?? []);
+  const createdIds = new Set(created.map((item) => item.id));
+
+  const updated = items
+    .filter((item) => !deleted.has(item.id) && !createdIds.has(item.id))
+    .map((item) =>
+      (diff.update ?? []).reduce(
+        (current, { id, updates }) => (id === item.id ? applyUpdates<T>(current, updates) : current),
+        item
+      )
+    );
+
+  return sortByStartTime([...updated, ...created]);
+};
+
+/**
+ * Apply a batch diff to local data (same order as the backend: deletes, updates, creates)
+ */
+export const applyDiff = (snapshot: ScheduleSnapshot, diff: ScheduleDiff): ScheduleSnapshot => ({
+  appointments: applyTableDiff<Appointment>(
+    snapshot.appointments,
+    diff.appointments,
+    (diff.appointments?.create ?? []).map(toCreatedRow)
+  ),
+  breaks: applyTableDiff<Break>(
+    snapshot.breaks,
+    diff.breaks,
+    (diff.breaks?.create ?? []).map(toCreatedRow)
+  ),
+});
+
+/**
+ * Replay queued (not yet synced) mutations on top of data fetched from the backend,
+ * so optimistic changes stay visible after a reload or refetch
+ */
+export const applyQueuedMutations = (
+  snapshot: ScheduleSnapshot,
+  queue: QueuedMutation[]
+): ScheduleSnapshot => {
+  let { appointments, breaks } = snapshot;
+
+  for (const mutation of queue) {
+    switch (mutation.kind) {
+      case 'createAppointment':
+        appointments = [
+          ...appointments.filter((apt) => apt.id !== mutation.targetId),
+          mutation.row,
+        ];
+        break;
+      case 'updateAppointment':
+        appointments = appointments.map((apt) =>
+          apt.id === mutation.targetId ? applyUpdates<Appointment>(apt, mutation.updates) : apt
+        );
+        break;
+      case 'deleteAppointment':
+        appointments = appointments.filter((apt) => apt.id !== mutation.targetId);
+        break;
+      case 'createBreak':
+        breaks = [...breaks.filter((brk) => brk.id !== mutation.targetId), mutation.row];
+        break;
+      case 'updateBreak':
+        breaks = breaks.map((brk) =>
+          brk.id === mutation.targetId ? applyUpdates<Break>(brk, mutation.updates) : brk
+        );
+        break;
+      case 'deleteBreak':
+        breaks = breaks.filter((brk) => brk.id !== mutation.targetId);
+        break;
+      case 'applyBatch':
+        ({ appointments, breaks } = applyDiff({ appointments, breaks }, mutation.diff));
+        break;
+    }
+  }
+
+  return {
+    appointments: sortByStartTime(appointments),
+    breaks: sortByStartTime(breaks),
+  };
+};
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { expandOccurrences } from './recurrence';
+
+/**
+ * 10:00 on a day of 2025 (months count from 0, like in Date)
+ */
+const on = (month: number, day: number) => new Date(2025, month, day, 10, 0);
+
+const days = (starts: Date[]) => starts.map((start) => [start.getMonth(), start.getDate()]);
+
+describe('expandOccurrences', () => {
+  const first = on(0, 6).toISOString(); // Monday
+
+  it('repeats weekly at the rule interval until the count runs out', () => {
+    const starts = expandOccurrences(
+      first,
+      { frequency: 'weekly', interval: 2, count: 3 },
+      null,
+      on(11, 31)
+    );
+
+    expect(days(starts)).toEqual([
+      [0, 6],
+      [0, 20],
+      [1, 3],
+    ]);
+    expect(starts.every((start) => start.getHours() === 10)).toBe(true);
+  });
+
+  it('stops at the end of the rule end date and at `until`', () => {
+    const rule = { frequency: 'weekly' as const, interval: 1, until: '2025-01-20' };
+
+    expect(days(expandOccurrences(first, rule, null, on(11, 31)))).toEqual([
+      [0, 6],
+      [0, 13],
+      [0, 20],
+    ]);
+    expect(days(expandOccurrences(first, rule, null, on(0, 13)))).toEqual([
+      [0, 6],
+      [0, 13],
+    ]);
+  });
+
+  it('only returns occurrences after `after`', () => {
+    const starts = expandOccurrences(
+      first,
+      { frequency: 'weekly', interval: 1, count: 4 },
+      on(0, 13),
+      on(11, 31)
+    );
+
+    expect(days(starts)).toEqual([
+      [0, 20],
+      [0, 27],
+    ]);
+  });
+
+  it('keeps the same weekday of the same week each month', () => {
+    const secondTuesday = on(0, 14).toISOString();
+    const starts = expandOccurrences(
+      secondTuesday,
+      { frequency: 'monthly_weekday', interval: 1, count: 3 },
+      null,
+      on(11, 31)
+    );
+
+    expect(days(starts)).toEqual([
+      [0, 14],
+      [1, 11],
+      [2, 11],
+    ]);
+  });
+
+  it('falls back to the last such weekday in months without a fifth one', () => {
+    const fifthWednesday = on(0, 29).toISOString();
+    const starts = expandOccurrences(
+      fifthWednesday,
+      { frequency: 'monthly_weekday', interval: 1, count: 4 },
+      null,
+      on(11, 31)
+    );
+
+    expect(days(starts)).toEqual([
+      [0, 29],
+      [1, 26],
+      [2, 26],
+      [3, 30],
+    ]);
+  });
+});
@@ -0,0 +1,119 @@
+import {
+  addMonths,
+  addWeeks,
+  endOfDay,
+  format,
+  getDate,
+  parseISO,
+  setDate,
+  startOfMonth,
+  subDays,
+} from 'date-fns';
+import { uk } from 'date-fns/locale';
+import type { AppointmentSeries, NewAppointment, RecurrenceRule, SeriesScope } from '../types';
+
+/**
+ * How far ahead occurrences of open-ended series exist as real appointments
+ */
+export const RECURRENCE_HORIZON_WEEKS = 12;
+
+export const SERIES_SCOPE_LABELS: Record<SeriesScope, string> = {
+  this: 'Лише цей',
+  following: 'Цей і наступні',
+  all: 'Усі',
+};
+
+/**
+ * End of the rolling horizon as seen from `now`
+ */
+export const getRecurrenceHorizon = (now: Date = new Date()): Date =>
+  endOfDay(addWeeks(now, RECURRENCE_HORIZON_WEEKS));
+
+/**
+ * Same weekday in the same week of the month (the last one if the month is shorter),
+ * e.g. the 2nd Tuesday
+ */
+const getMonthlyWeekdayOccurrence = (first: Date, monthsAhead: number): Date => {
+  const weekOfMonth = Math.ceil(getDate(first) / 7);
+  const monthStart = startOfMonth(addMonths(first, monthsAhead));
+  const firstWeekday = setDate(monthStart, 1 + ((first.getDay() - monthStart.getDay() + 7) % 7));
+
+  let date = addWeeks(firstWeekday, weekOfMonth - 1);
+  if (date.getMonth() !== monthStart.getMonth()) date = addWeeks(date, -1);
+  date.setHours(first.getHours(), first.getMinutes(), 0, 0);
+  return date;
+};
+
+/**
+ * Start of the occurrence with the given index (0 is the first one)
+ */
+const getOccurrenceStart = (first: Date, rule: RecurrenceRule, index: number): Date =>
+  rule.frequency === 'weekly'
+    ? addWeeks(first, index * rule.interval)
+    : getMonthlyWeekdayOccurrence(first, index * rule.interval);
+
+/**
+ * Occurrence starts in (after, until], respecting the rule's end date and count
+ */
+export const expandOccurrences = (
+  firstStart: string,
+  rule: RecurrenceRule,
+  after: Date | null,
+  until: Date
+): Date[] => {
+  const first = parseISO(firstStart);
+  const ruleEnd = rule.until ? endOfDay(parseISO(rule.until)) : null;
+  const starts: Date[] = [];
+
+  for (let index = 0; !rule.count || index < rule.count; index++) {
+    const start = getOccurrenceStart(first, rule, index);
+    if (start > until || (ruleEnd && start > ruleEnd)) break;
+    if (!after || start > after) starts.push(start);
+  }
+
+  return starts;
+};
+
+/**
+ * Rule ending just before the given occurrence (for "this and following" edits)
+ */
+export const endRuleBefore = (rule: RecurrenceRule, occurrenceStart: Date): RecurrenceRule => ({
+  ...rule,
+  until: format(subDays(occurrenceStart, 1), 'yyyy-MM-dd'),
+  count: null,
+});
+
+/**
+ * New appointment for one occurrence of a series
+ */
+export const buildOccurrence = (series: AppointmentSeries, start: Date): NewAppointment => ({
+  client_name: series.client_name,
+  client_id: series.client_id ?? null,
+  service_id: series.service_id ?? null,
+  notes: series.notes,
+  start_time: start.toISOString(),
+  duration_minutes: series.duration_minutes,
+  end_time: '', // Will be calculated
+  series_id: series.id,
+  status: 'booked',
+  status_timestamps: { booked: new Date().toISOString() },
+});
+
+/**
+ * "Щотижня", "Кожні 2 тижні", "Щомісяця, 2-й вівторок"
+ */
+export const describeRecurrence = (rule: RecurrenceRule, firstStart: string): string => {
+  const first = parseISO(firstStart);
+  let text: string;
+  if (rule.frequency === 'weekly') {
+    text = rule.interval === 1 ? 'Щотижня' : `Кожні ${rule.interval} тижні`;
+  } else {
+    const weekday = format(first, 'EEEE', { locale: uk });
+    const prefix = rule.interval === 1 ? 'Щомісяця' : `Кожні ${rule.interval} місяці`;
+    text = `${prefix}, ${Math.ceil(getDate(first) / 7)}-й ${weekday}`;
+  }
+
+  if (rule.until) return `${text} до ${format(parseISO(rule.until), 'd MMMM yyyy', { locale: uk })}`;
+  if (rule.count) return `${text}, ${rule.count} раз(ів)`;
+  return text;
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import type { ScheduleDiff } from '../types';
+import { appointment, at, breakAt } from '../test/fixtures';
+import { invertDiff, toHistoryEntry } from './scheduleHistory';
+
+const manualBreak = breakAt('b1', at(12), 15, { is_manual: true });
+
+const snapshot = {
+  appointments: [
+    appointment('a1', at(9), 60, { updated_at: '2025-01-01T00:00:00.000Z' }),
+    appointment('a2', at(10)),
+  ],
+  breaks: [manualBreak],
+};
+
+const diff: ScheduleDiff = {
+  appointments: {
+    create: [appointment('new', at(11))],
+    update: [
+      {
+        id: 'a1',
+        updates: { duration_minutes: 90, notes: 'Довший сеанс' },
+        expectedUpdatedAt: '2025-01-01T00:00:00.000Z',
+      },
+    ],
+    delete: ['a2'],
+  },
+  breaks: { delete: ['b1', 'missing'] },
+};
+
+describe('invertDiff', () => {
+  it('recreates deleted rows, restores updated fields and deletes created rows', () => {
+    expect(invertDiff(snapshot, diff)).toEqual({
+      appointments: {
+        create: [snapshot.appointments[1]],
+        update: [{ id: 'a1', updates: { duration_minutes: 60, notes: null } }],
+        delete: ['new'],
+      },
+      breaks: { create: [manualBreak], update: [], delete: [] },
+    });
+  });
+
+  it('leaves tables the diff does not touch alone', () => {
+    expect(invertDiff(snapshot, { breaks: { delete: ['b1'] } }).appointments).toBeUndefined();
+  });
+});
+
+describe('toHistoryEntry', () => {
+  it('replays the diff without its version checks', () => {
+    const entry = toHistoryEntry('Зміна запису', snapshot, diff);
+
+    expect(entry.label).toBe('Зміна запису');
+    expect(entry.undo).toEqual(invertDiff(snapshot, diff));
+    expect(entry.redo.appointments?.update).toEqual([
+      { id: 'a1', updates: { duration_minutes: 90, notes: 'Довший сеанс' } },
+    ]);
+    expect(entry.redo.breaks).toEqual(diff.breaks);
+  });
+});
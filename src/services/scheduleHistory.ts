@@ -0,0 +1,118 @@
+import type { ScheduleSnapshot } from './scheduleRepository';
+import type {
+  Appointment,
+  Break,
+  HistoryEntry,
+  ScheduleDiff,
+  ScheduleHistory,
+  TableDiff,
+} from '../types';
+
+const STORAGE_KEY = 'massage-planner:history';
+
+/**
+ * Oldest entries are dropped beyond this many
+ */
+export const HISTORY_LIMIT = 50;
+
+export const EMPTY_HISTORY: ScheduleHistory = { past: [], future: [] };
+
+/**
+ * Read the history of this browser session
+ */
+export const loadHistory = (): ScheduleHistory => {
+  try {
+    const raw = window.sessionStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as ScheduleHistory) : EMPTY_HISTORY;
+  } catch (err) {
+    console.error('Error reading schedule history:', err);
+    return EMPTY_HISTORY;
+  }
+};
+
+/**
+ * Persist the history for the rest of the session (it is dropped when the tab closes)
+ */
+export const saveHistory = (history: ScheduleHistory): void => {
+  try {
+    window.sessionStorage.setItem(STORAGE_KEY, JSON.stringify(history));
+  } catch (err) {
+    console.error('Error writing schedule history:', err);
+  }
+};
+
+/**
+ * Add an entry; a new edit clears whatever could have been redone
+ */
+export const pushHistory = (
+  history: ScheduleHistory,
+  entry: Omit<HistoryEntry, 'id'>
+): ScheduleHistory => ({
+  past: [...history.past, { ...entry, id: crypto.randomUUID() }].slice(-HISTORY_LIMIT),
+  future: [],
+});
+
+/**
+ * Current values of the fields an update is about to change
+ * Missing values become null so replaying the update clears them again.
+ */
+const pickPrevious = <T extends Appointment | Break>(item: T, updates: Partial<T>): Partial<T> =>
+  Object.fromEntries(
+    Object.keys(updates).map((key) => [key, item[key as keyof T] ?? null])
+  ) as Partial<T>;
+
+/**
+ * Versions are checked against the rows current at replay time, not the recorded ones
+ */
+const withoutVersions = <TNew, TUpdates>(
+  diff: TableDiff<TNew, TUpdates> | undefined
+): TableDiff<TNew, TUpdates> | undefined =>
+  diff && {
+    ...diff,
+    update: diff.update?.map(({ id, updates }) => ({ id, updates })),
+  };
+
+/**
+ * Inverse of one table's diff against the items it is applied to
+ */
+const invertTableDiff = <T extends Appointment | Break>(
+  items: T[],
+  diff: TableDiff<Omit<T, 'id'> & { id?: string }, Partial<T>> | undefined
+): TableDiff<T, Partial<T>> | undefined => {
+  if (!diff) return undefined;
+  const findItem = (id: string) => items.find((item) => item.id === id);
+
+  return {
+    create: (diff.delete ?? []).map(findItem).filter((item): item is T => !!item),
+    update: (diff.update ?? []).flatMap(({ id, updates }) => {
+      const item = findItem(id);
+      return item ? [{ id, updates: pickPrevious(item, updates) }] : [];
+    }),
+    delete: (diff.create ?? []).flatMap((row) => (row.id ? [row.id] : [])),
+  };
+};
+
+/**
+ * Diff that reverts `diff` once it has been applied to `snapshot`
+ * Created rows must already have their ids (see `applyScheduleDiff`).
+ */
+export const invertDiff = (snapshot: ScheduleSnapshot, diff: ScheduleDiff): ScheduleDiff => ({
+  appointments: invertTableDiff<Appointment>(snapshot.appointments, diff.appointments),
+  breaks: invertTableDiff<Break>(snapshot.breaks, diff.breaks),
+});
+
+/**
+ * History entry for a diff about to be applied to `snapshot`
+ */
+export const toHistoryEntry = (
+  label: string,
+  snapshot: ScheduleSnapshot,
+  diff: ScheduleDiff
+): Omit<HistoryEntry, 'id'> => ({
+  label,
+  undo: invertDiff(snapshot, diff),
+  redo: {
+    appointments: withoutVersions(diff.appointments),
+    breaks: withoutVersions(diff.breaks),
+  },
+});
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { appointment, at } from '../test/fixtures';
+import { diffAppointmentFields } from './scheduleRepository';
+
+describe('diffAppointmentFields', () => {
+  const base = appointment('a1', at(10), 60, { client_id: 'c1', service_id: 's1', notes: '' });
+
+  it('finds no difference between equal versions', () => {
+    expect(diffAppointmentFields(base, { ...base, notes: undefined })).toEqual([]);
+  });
+
+  it('reports a changed client profile or service even when the name stays', () => {
+    expect(diffAppointmentFields(base, { ...base, client_id: 'c2' })).toEqual(['client']);
+    expect(diffAppointmentFields(base, { ...base, client_id: null })).toEqual(['client']);
+    expect(diffAppointmentFields(base, { ...base, service_id: 's2' })).toEqual(['service']);
+  });
+
+  it('treats missing and null links alike', () => {
+    const unlinked = appointment('a1', at(10), 60, { client_id: null, service_id: null });
+
+    expect(
+      diffAppointmentFields(unlinked, { ...unlinked, client_id: undefined, service_id: undefined })
+    ).toEqual([]);
+  });
+
+  it('reports time, notes and status changes', () => {
+    const changed = appointment('a1', at(10), 90, {
+      client_id: 'c1',
+      service_id: 's1',
+      notes: 'Нова примітка',
+      status: 'arrived',
+    });
+
+    expect(diffAppointmentFields(base, changed)).toEqual(['time', 'notes', 'status']);
+  });
+});
@@ -0,0 +1,360 @@
+import type {
+  Appointment,
+  AppointmentSeries,
+  AppointmentSeriesUpdates,
+  AppointmentUpdates,
+  AuditEntry,
+  Break,
+  BreakPolicy,
+  BreakUpdates,
+  Client,
+  ClientUpdates,
+  ClientVisitSummary,
+  ConflictError,
+  ConflictField,
+  DaySummary,
+  NewAppointment,
+  NewAuditEntry,
+  NewBreak,
+  NewClient,
+  ScheduleChange,
+  ScheduleDiff,
+  ScheduleItem,
+  Service,
+  ServiceUpdates,
+  NewService,
+  NewAppointmentSeries,
+  NewScheduleTemplate,
+  NewTimeOff,
+  ScheduleTemplate,
+  TimeOff,
+  WorkingHours,
+} from '../types';
+import { addMinutes, parseISO, format, formatISO, subDays } from 'date-fns';
+import { isActiveAppointment } from './appointmentStatus';
+
+/**
+ * Storage contract for appointments and breaks
+ * Every backend (Supabase, local storage, in-memory) implements this interface,
+ * so hooks and components never talk to a concrete database client.
+ *
+ * Updates given `expectedUpdatedAt` only apply if the row still has that version,
+ * otherwise they reject with a ConflictError holding the stored row.
+ */
+export interface ScheduleRepository {
+  fetchAppointments(): Promise<Appointment[]>;
+  fetchAppointmentsInRange(from: Date, to: Date): Promise<Appointment[]>;
+  createAppointment(appointment: NewAppointment): Promise<Appointment>;
+  updateAppointment(
+    id: string,
+    updates: AppointmentUpdates,
+    expectedUpdatedAt?: string
+  ): Promise<Appointment>;
+  deleteAppointment(id: string): Promise<void>;
+
+  /**
+   * Deleted appointments (most recently deleted first); they are only moved to the
+   * trash and come back when created again with the same id
+   */
+  fetchTrash(): Promise<Appointment[]>;
+
+  fetchBreaks(): Promise<Break[]>;
+  fetchBreaksInRange(from: Date, to: Date): Promise<Break[]>;
+  createBreak(breakItem: NewBreak): Promise<Break>;
+  updateBreak(id: string, updates: BreakUpdates, expectedUpdatedAt?: string): Promise<Break>;
+  deleteBreak(id: string): Promise<void>;
+
+  /**
+   * Apply a whole diff atomically (deletes, then updates, then creates)
+   * Resolves with the created and updated rows; on any error nothing is changed.
+   */
+  applyBatch(diff: ScheduleDiff): Promise<ScheduleSnapshot>;
+
+  /**
+   * Appointments and breaks with the given ids, trashed appointments included
+   */
+  fetchScheduleItems(ids: string[]): Promise<ScheduleSnapshot>;
+
+  /**
+   * Per-day appointment totals for appointments starting within [from, to)
+   * (days without appointments are omitted)
+   */
+  fetchDaySummaries(from: Date, to: Date): Promise<DaySummary[]>;
+
+  /**
+   * Working hours settings (null when they were never saved)
+   */
+  fetchWorkingHours(): Promise<WorkingHours | null>;
+  saveWorkingHours(workingHours: WorkingHours): Promise<WorkingHours>;
+
+  /**
+   * Break auto-generation settings, shared by every device (null when never saved)
+   */
+  fetchBreakPolicy(): Promise<BreakPolicy | null>;
+  saveBreakPolicy(policy: BreakPolicy): Promise<BreakPolicy>;
+
+  /**
+   * Time off blocks overlapping [from, to)
+   */
+  fetchTimeOffInRange(from: Date, to: Date): Promise<TimeOff[]>;
+  createTimeOff(timeOff: NewTimeOff): Promise<TimeOff>;
+  deleteTimeOff(id: string): Promise<void>;
+
+  /**
+   * Client directory; `fetchClientAppointments` returns a client's whole visit history
+   */
+  fetchClients(): Promise<Client[]>;
+  createClient(client: NewClient): Promise<Client>;
+  updateClient(id: string, updates: ClientUpdates): Promise<Client>;
+  fetchClientAppointments(clientId: string): Promise<Appointment[]>;
+  fetchClientVisitSummaries(): Promise<ClientVisitSummary[]>;
+
+  /**
+   * Service catalog (services are deactivated rather than deleted)
+   */
+  fetchServices(): Promise<Service[]>;
+  createService(service: NewService): Promise<Service>;
+  updateService(id: string, updates: ServiceUpdates): Promise<Service>;
+
+  /**
+   * Recurring appointment series; `fetchSeriesAppointments` returns every generated occurrence
+   */
+  fetchSeries(): Promise<AppointmentSeries[]>;
+  createSeries(series: NewAppointmentSeries): Promise<AppointmentSeries>;
+  updateSeries(id: string, updates: AppointmentSeriesUpdates): Promise<AppointmentSeries>;
+  deleteSeries(id: string): Promise<void>;
+  fetchSeriesAppointments(seriesId: string): Promise<Appointment[]>;
+
+  /**
+   * Saved day and week templates, sorted by name
+   */
+  fetchTemplates(): Promise<ScheduleTemplate[]>;
+  createTemplate(template: NewScheduleTemplate): Promise<ScheduleTemplate>;
+  deleteTemplate(id: string): Promise<void>;
+
+  /**
+   * Audit log of appointment and break writes (entries are only ever appended);
+   * both fetches return the oldest entry first
+   */
+  appendAuditEntries(entries: NewAuditEntry[]): Promise<void>;
+  fetchRecordAuditLog(recordId: string): Promise<AuditEntry[]>;
+  fetchAuditLogInRange(from: Date, to: Date): Promise<AuditEntry[]>;
+
+  /**
+   * Listen for row changes made elsewhere (optional - only shared backends support it)
+   * `onStatus` reports whether the live connection is up; returns an unsubscribe function.
+   */
+  subscribe?(
+    onChange: (change: ScheduleChange) => void,
+    onStatus: (isLive: boolean) => void
+  ): () => void;
+}
+
+/**
+ * Appointments and breaks loaded together (a day, a range, or everything)
+ */
+export interface ScheduleSnapshot {
+  appointments: Appointment[];
+  breaks: Break[];
+}
+
+/**
+ * Fetch appointments and breaks starting within [from, to) in parallel
+ */
+export const fetchScheduleRange = async (
+  repository: ScheduleRepository,
+  from: Date,
+  to: Date
+): Promise<ScheduleSnapshot> => {
+  const [appointments, breaks] = await Promise.all([
+    repository.fetchAppointmentsInRange(from, to),
+    repository.fetchBreaksInRange(from, to),
+  ]);
+  return { appointments, breaks };
+};
+
+/**
+ * Create the error thrown when an update hits a newer version of the row
+ */
+export const createConflictError = (
+  table: ConflictError['table'],
+  current: ScheduleItem
+): ConflictError => {
+  const label = table === 'appointments' ? 'Appointment' : 'Break';
+  return Object.assign(new Error(`${label} with id ${current.id} was changed by someone else`), {
+    name: 'ConflictError',
+    table,
+    current,
+  }) as ConflictError;
+};
+
+/**
+ * Check if an error is a version conflict
+ */
+export const isConflictError = (err: unknown): err is ConflictError =>
+  err instanceof Error && err.name === 'ConflictError';
+
+/**
+ * Fields in which two versions of an appointment differ
+ */
+export const diffAppointmentFields = (a: Appointment, b: Appointment): ConflictField[] => {
+  const fields: ConflictField[] = [];
+  if (a.client_name !== b.client_name || (a.client_id ?? null) !== (b.client_id ?? null)) {
+    fields.push('client');
+  }
+  if ((a.service_id ?? null) !== (b.service_id ?? null)) fields.push('service');
+  if (a.start_time !== b.start_time || a.duration_minutes !== b.duration_minutes) {
+    fields.push('time');
+  }
+  if ((a.notes || '') !== (b.notes || '')) fields.push('notes');
+  if ((a.status ?? 'booked') !== (b.status ?? 'booked')) fields.push('status');
+  return fields;
+};
+
+/**
+ * Calculate end time based on start time and duration
+ */
+export const calculateEndTime = (
+  startTime: string,
+  durationMinutes: number
+): string => {
+  const start = parseISO(startTime);
+  const end = addMinutes(start, durationMinutes);
+  return formatISO(end);
+};
+
+/**
+ * Sort schedule items by start time (ascending)
+ */
+export const sortByStartTime = <T extends { start_time: string }>(items: T[]): T[] =>
+  [...items].sort((a, b) => a.start_time.localeCompare(b.start_time));
+
+/**
+ * Check if an item starts within [from, to)
+ */
+export const startsInRange = (item: ScheduleItem, from: Date, to: Date): boolean => {
+  const start = parseISO(item.start_time);
+  return start >= from && start < to;
+};
+
+/**
+ * Group appointments into per-day totals (local calendar days; cancelled and no-show
+ * appointments are left out)
+ */
+export const summarizeDays = (appointments: Appointment[]): DaySummary[] => {
+  const summaries = new Map<string, DaySummary>();
+
+  for (const apt of sortByStartTime(appointments.filter(isActiveAppointment))) {
+    const date = format(parseISO(apt.start_time), 'yyyy-MM-dd');
+    const summary = summaries.get(date);
+    if (!summary) {
+      summaries.set(date, {
+        date,
+        appointmentCount: 1,
+        bookedMinutes: apt.duration_minutes,
+        firstStart: apt.start_time,
+        lastEnd: apt.end_time,
+      });
+      continue;
+    }
+    summary.appointmentCount += 1;
+    summary.bookedMinutes += apt.duration_minutes;
+    if (parseISO(apt.end_time) > parseISO(summary.lastEnd)) summary.lastEnd = apt.end_time;
+  }
+
+  return [...summaries.values()];
+};
+
+/**
+ * Normalize a client name for matching ("  Олена  Коваль " and "олена коваль" are the same)
+ */
+export const normalizeClientName = (name: string): string =>
+  name.trim().replace(/\s+/g, ' ').toLocaleLowerCase('uk');
+
+/**
+ * Per-client visit statistics (appointments without a client, cancellations and no-shows
+ * are skipped)
+ */
+export const summarizeClientVisits = (
+  appointments: Appointment[],
+  now: Date = new Date()
+): ClientVisitSummary[] => {
+  const byClient = new Map<string, Appointment[]>();
+  for (const apt of appointments) {
+    if (!apt.client_id || !isActiveAppointment(apt)) continue;
+    byClient.set(apt.client_id, [...(byClient.get(apt.client_id) ?? []), apt]);
+  }
+
+  return [...byClient.entries()].map(([clientId, clientAppointments]) => {
+    const past = sortByStartTime(clientAppointments).filter((apt) => parseISO(apt.start_time) < now);
+    const durationCounts = new Map<number, number>();
+    for (const apt of past) {
+      durationCounts.set(apt.duration_minutes, (durationCounts.get(apt.duration_minutes) ?? 0) + 1);
+    }
+    const usual = [...durationCounts.entries()].sort((a, b) => b[1] - a[1])[0];
+
+    return {
+      clientId,
+      visitCount: past.length,
+      lastVisit: past.length > 0 ? past[past.length - 1].start_time : null,
+      usualDurationMinutes: usual ? usual[0] : null,
+    };
+  });
+};
+
+/**
+ * Sort clients alphabetically by name
+ */
+export const sortClientsByName = (clients: Client[]): Client[] =>
+  [...clients].sort((a, b) => a.name.localeCompare(b.name, 'uk'));
+
+/**
+ * Sort services by duration, then name
+ */
+export const sortServices = (services: Service[]): Service[] =>
+  [...services].sort(
+    (a, b) => a.duration_minutes - b.duration_minutes || a.name.localeCompare(b.name, 'uk')
+  );
+
+/**
+ * Days a deleted appointment stays in the trash before it is purged
+ */
+export const TRASH_RETENTION_DAYS = 30;
+
+/**
+ * ISO time before which trashed appointments are purged
+ */
+export const getTrashCutoff = (now: Date = new Date()): string =>
+  subDays(now, TRASH_RETENTION_DAYS).toISOString();
+
+/**
+ * Most audit entries the browser backends keep (on top of the trash retention)
+ */
+export const AUDIT_LOG_MAX_ENTRIES = 5000;
+
+/**
+ * Audit entries still worth keeping: those of the last TRASH_RETENTION_DAYS,
+ * at most the newest AUDIT_LOG_MAX_ENTRIES (entries are stored oldest first)
+ */
+export const trimAuditLog = (entries: AuditEntry[], now: Date = new Date()): AuditEntry[] => {
+  const cutoff = getTrashCutoff(now);
+  return entries.filter((entry) => entry.created_at >= cutoff).slice(-AUDIT_LOG_MAX_ENTRIES);
+};
+
+/**
+ * Sort trashed appointments, most recently deleted first
+ */
+export const sortByDeletedAt = (appointments: Appointment[]): Appointment[] =>
+  [...appointments].sort((a, b) => (b.deleted_at ?? '').localeCompare(a.deleted_at ?? ''));
+
+/**
+ * Sort schedule templates by name
+ */
+export const sortTemplates = (templates: ScheduleTemplate[]): ScheduleTemplate[] =>
+  [...templates].sort((a, b) => a.name.localeCompare(b.name, 'uk'));
+
+/**
+ * Sort audit entries, oldest first
+ */
+export const sortByCreatedAt = (entries: AuditEntry[]): AuditEntry[] =>
+  [...entries].sort((a, b) => a.created_at.localeCompare(b.created_at));
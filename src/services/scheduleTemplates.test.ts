@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import type { Break, TemplatePlan } from '../types';
+import { appointment, at, breakAt } from '../test/fixtures';
+import { resolveTemplatePlan } from './scheduleTemplates';
+
+/**
+ * Manual break of a plan (plans only book manual breaks)
+ */
+const plannedBreak = (start: Date, durationMinutes: number) =>
+  breakAt(`break ${start.getHours()}:${start.getMinutes()}`, start, durationMinutes, {
+    is_manual: true,
+  });
+
+const occupying = appointment('occupying', at(10), 90);
+
+const plan: TemplatePlan = {
+  appointments: [
+    appointment('free', at(9)),
+    appointment('clashing', at(10)),
+    appointment('day off', at(14)),
+  ],
+  conflicts: [
+    null,
+    {
+      start_time: at(10).toISOString(),
+      client_name: 'clashing',
+      reason: 'зайнято',
+      clashes: [occupying],
+    },
+    {
+      start_time: at(14).toISOString(),
+      client_name: 'day off',
+      reason: 'вихідний',
+      clashes: [],
+    },
+  ],
+  breaks: [plannedBreak(at(11, 15), 15), plannedBreak(at(13), 15)],
+};
+
+describe('resolveTemplatePlan', () => {
+  const existing = { appointments: [occupying], breaks: [] as Break[] };
+
+  it('skips conflicting appointments and breaks that would overlap existing ones', () => {
+    const diff = resolveTemplatePlan(plan, ['skip', 'skip', 'skip'], existing);
+
+    expect(diff.appointments?.create?.map((apt) => apt.client_name)).toEqual(['free']);
+    expect(diff.appointments?.delete).toEqual([]);
+    expect(diff.breaks?.create?.map((brk) => brk.start_time)).toEqual([at(13).toISOString()]);
+  });
+
+  it('overwrites clashes by deleting the appointments in the way', () => {
+    const diff = resolveTemplatePlan(plan, ['skip', 'overwrite', 'overwrite'], existing);
+
+    expect(diff.appointments?.create?.map((apt) => apt.client_name)).toEqual(['free', 'clashing']);
+    expect(diff.appointments?.delete).toEqual(['occupying']);
+    expect(diff.breaks?.create).toEqual(plan.breaks);
+  });
+
+  it('lets breaks overlap cancelled appointments and auto breaks but not manual ones', () => {
+    const diff = resolveTemplatePlan(plan, ['skip', 'skip', 'skip'], {
+      appointments: [appointment('cancelled', at(11), 60, { status: 'cancelled' })],
+      breaks: [
+        breakAt('auto', at(11, 20), 10),
+        breakAt('manual', at(13, 5), 10, { is_manual: true }),
+      ],
+    });
+
+    expect(diff.breaks?.create?.map((brk) => brk.start_time)).toEqual([at(11, 15).toISOString()]);
+  });
+});
@@ -0,0 +1,217 @@
+import { addDays, differenceInCalendarDays, parseISO, startOfDay, startOfWeek } from 'date-fns';
+import type {
+  Appointment,
+  BookingContext,
+  Break,
+  NewAppointment,
+  NewScheduleTemplate,
+  ScheduleDiff,
+  ScheduleTemplate,
+  TemplateConflict,
+  TemplatePlan,
+  TemplateResolution,
+  WorkingHours,
+} from '../types';
+import { findBookingConflicts, getDayHours } from './workingHours';
+import { clashesWithAppointment, findService } from './serviceCatalog';
+import { isActiveAppointment } from './appointmentStatus';
+
+export const TEMPLATE_SPAN_LABELS: Record<ScheduleTemplate['span'], string> = {
+  day: 'День',
+  week: 'Тиждень',
+};
+
+/**
+ * First day a template saved from (or applied around) `date` starts on; weeks start on Monday
+ */
+export const getTemplateStart = (span: ScheduleTemplate['span'], date: Date): Date =>
+  span === 'week' ? startOfWeek(date, { weekStartsOn: 1 }) : startOfDay(date);
+
+const minutesAfterMidnight = (date: Date): number => date.getHours() * 60 + date.getMinutes();
+
+const atMinutes = (day: Date, minutes: number): Date => {
+  const time = startOfDay(day);
+  time.setMinutes(minutes);
+  return time;
+};
+
+/**
+ * Template of the day or week starting at `start`: its booked appointments and manual breaks
+ * (cancelled and no-show appointments and auto-generated breaks are left out)
+ */
+export const buildTemplate = (
+  name: string,
+  span: ScheduleTemplate['span'],
+  start: Date,
+  appointments: Appointment[],
+  breaks: Break[]
+): NewScheduleTemplate => {
+  const dayOffset = (startTime: string) => differenceInCalendarDays(parseISO(startTime), start);
+  const days = span === 'week' ? 7 : 1;
+  const inSpan = (item: { start_time: string }) => {
+    const offset = dayOffset(item.start_time);
+    return offset >= 0 && offset < days;
+  };
+
+  return {
+    name: name.trim(),
+    span,
+    appointments: appointments
+      .filter((apt) => isActiveAppointment(apt) && inSpan(apt))
+      .map((apt) => ({
+        day_offset: dayOffset(apt.start_time),
+        start_minutes: minutesAfterMidnight(parseISO(apt.start_time)),
+        duration_minutes: apt.duration_minutes,
+        client_name: apt.client_name,
+        client_id: apt.client_id ?? null,
+        service_id: apt.service_id ?? null,
+        notes: apt.notes,
+      })),
+    breaks: breaks
+      .filter((brk) => brk.is_manual && inSpan(brk))
+      .map((brk) => ({
+        day_offset: dayOffset(brk.start_time),
+        start_minutes: minutesAfterMidnight(parseISO(brk.start_time)),
+        duration_minutes: brk.duration_minutes,
+      })),
+  };
+};
+
+/**
+ * Days of [from, to] the template lands on, each with its offset in the template
+ * Day templates skip days off; week templates keep weekdays aligned (Monday is offset 0).
+ */
+export const getTemplateDays = (
+  template: ScheduleTemplate,
+  from: Date,
+  to: Date,
+  workingHours: WorkingHours
+): { day: Date; offset: number }[] => {
+  const days: { day: Date; offset: number }[] = [];
+  for (let day = startOfDay(from); day <= to; day = addDays(day, 1)) {
+    if (template.span === 'day') {
+      if (getDayHours(workingHours, day)) days.push({ day, offset: 0 });
+    } else {
+      days.push({ day, offset: differenceInCalendarDays(day, getTemplateStart('week', day)) });
+    }
+  }
+  return days;
+};
+
+/**
+ * Everything applying a template to [from, to] would book, and what stands in the way
+ * (`context.appointments` are the existing ones in that range)
+ */
+export const planTemplate = (
+  template: ScheduleTemplate,
+  from: Date,
+  to: Date,
+  context: BookingContext & { appointments: Appointment[] }
+): TemplatePlan => {
+  const plan: TemplatePlan = { appointments: [], conflicts: [], breaks: [] };
+  const bookedAt = new Date().toISOString();
+  const { appointments, ...availability } = context;
+  const existing = appointments.filter(isActiveAppointment);
+
+  for (const { day, offset } of getTemplateDays(template, from, to, context.workingHours)) {
+    for (const item of template.appointments.filter((apt) => apt.day_offset === offset)) {
+      const start = atMinutes(day, item.start_minutes);
+      const end = new Date(start.getTime() + item.duration_minutes * 60000);
+      const appointment: NewAppointment = {
+        client_name: item.client_name,
+        client_id: item.client_id ?? null,
+        service_id: item.service_id ?? null,
+        notes: item.notes,
+        start_time: start.toISOString(),
+        duration_minutes: item.duration_minutes,
+        end_time: '', // Will be calculated
+        status: 'booked',
+        status_timestamps: { booked: bookedAt },
+      };
+
+      // Days off, working hours and time off can only be skipped; clashes can be overwritten
+      const [unavailable] = findBookingConflicts(
+        [start],
+        item.duration_minutes,
+        item.service_id,
+        availability
+      );
+      const service = findService(context.services, item.service_id);
+      const clashes = existing.filter((apt) =>
+        clashesWithAppointment(start, end, service, apt, context.services)
+      );
+      const conflict: TemplateConflict | null = unavailable
+        ? { start_time: appointment.start_time, client_name: item.client_name, reason: unavailable.reason, clashes: [] }
+        : clashes.length > 0
+          ? {
+              start_time: appointment.start_time,
+              client_name: item.client_name,
+              reason: `зайнято: ${clashes.map((apt) => apt.client_name).join(', ')}`,
+              clashes,
+            }
+          : null;
+
+      plan.appointments.push(appointment);
+      plan.conflicts.push(conflict);
+    }
+
+    for (const item of template.breaks.filter((brk) => brk.day_offset === offset)) {
+      const start = atMinutes(day, item.start_minutes);
+      const unavailable = findBookingConflicts([start], item.duration_minutes, null, availability);
+      if (unavailable.length > 0) continue;
+
+      plan.breaks.push({
+        start_time: start.toISOString(),
+        duration_minutes: item.duration_minutes,
+        end_time: new Date(start.getTime() + item.duration_minutes * 60000).toISOString(),
+        is_manual: true,
+      });
+    }
+  }
+
+  return plan;
+};
+
+/**
+ * Diff applying a plan: conflicting appointments are skipped unless overwritten, which
+ * moves the appointments in their way to the trash. Breaks that would overlap a
+ * remaining appointment or manual break are left out.
+ */
+export const resolveTemplatePlan = (
+  plan: TemplatePlan,
+  resolutions: TemplateResolution[],
+  existing: { appointments: Appointment[]; breaks: Break[] }
+): ScheduleDiff => {
+  const overwrites = (index: number) =>
+    resolutions[index] === 'overwrite' && (plan.conflicts[index]?.clashes.length ?? 0) > 0;
+
+  const create = plan.appointments.filter((_, index) => !plan.conflicts[index] || overwrites(index));
+  const deleteIds = new Set(
+    plan.conflicts.flatMap((conflict, index) =>
+      conflict && overwrites(index) ? conflict.clashes.map((apt) => apt.id) : []
+    )
+  );
+
+  const taken = [
+    ...existing.appointments
+      .filter((apt) => isActiveAppointment(apt) && !deleteIds.has(apt.id))
+      .map((apt) => ({ start: parseISO(apt.start_time), end: parseISO(apt.end_time) })),
+    ...existing.breaks
+      .filter((brk) => brk.is_manual)
+      .map((brk) => ({ start: parseISO(brk.start_time), end: parseISO(brk.end_time) })),
+    ...create.map((apt) => {
+      const start = parseISO(apt.start_time);
+      return { start, end: new Date(start.getTime() + apt.duration_minutes * 60000) };
+    }),
+  ];
+  const breaks = plan.breaks.filter((brk) => {
+    const start = parseISO(brk.start_time);
+    const end = parseISO(brk.end_time);
+    return !taken.some((slot) => start < slot.end && end > slot.start);
+  });
+
+  return {
+    appointments: { create, delete: [...deleteIds] },
+    breaks: { create: breaks },
+  };
+};
@@ -0,0 +1,82 @@
+import { addMinutes, parseISO } from 'date-fns';
+import type { Appointment, NewService, Service } from '../types';
+
+/**
+ * Colors offered for services (dark enough for white text)
+ */
+export const SERVICE_COLORS = [
+  '#0284c7',
+  '#0d9488',
+  '#16a34a',
+  '#ca8a04',
+  '#ea580c',
+  '#dc2626',
+  '#db2777',
+  '#9333ea',
+  '#4f46e5',
+  '#475569',
+];
+
+/**
+ * Starting point for a new catalog entry
+ */
+export const createEmptyService = (): NewService => ({
+  name: '',
+  duration_minutes: 60,
+  price: null,
+  color: SERVICE_COLORS[0],
+  buffer_before_minutes: 0,
+  buffer_after_minutes: 0,
+  is_active: true,
+});
+
+/**
+ * Service an appointment was booked for, if it is in the catalog
+ */
+export const findService = (
+  services: Service[],
+  serviceId: string | null | undefined
+): Service | undefined => (serviceId ? services.find((service) => service.id === serviceId) : undefined);
+
+/**
+ * Active service whose duration is closest to the given one
+ */
+export const findClosestService = (services: Service[], minutes: number): Service | undefined =>
+  services
+    .filter((service) => service.is_active)
+    .reduce<Service | undefined>(
+      (best, service) =>
+        !best ||
+        Math.abs(service.duration_minutes - minutes) < Math.abs(best.duration_minutes - minutes)
+          ? service
+          : best,
+      undefined
+    );
+
+/**
+ * Check if [start, end) of a booking of `service` comes too close to another appointment
+ * The gap between two appointments has to cover the buffer after the earlier one
+ * and the buffer before the later one (whichever is longer).
+ */
+export const clashesWithAppointment = (
+  start: Date,
+  end: Date,
+  service: Service | undefined,
+  other: Appointment,
+  services: Service[]
+): boolean => {
+  const otherService = findService(services, other.service_id);
+  const gapBefore = Math.max(service?.buffer_before_minutes ?? 0, otherService?.buffer_after_minutes ?? 0);
+  const gapAfter = Math.max(service?.buffer_after_minutes ?? 0, otherService?.buffer_before_minutes ?? 0);
+
+  return (
+    addMinutes(start, -gapBefore) < parseISO(other.end_time) &&
+    addMinutes(end, gapAfter) > parseISO(other.start_time)
+  );
+};
+
+/**
+ * "650 грн" (prices are stored in hryvnias)
+ */
+export const formatPrice = (price: number): string =>
+  `${price.toLocaleString('uk-UA', { maximumFractionDigits: 2 })} грн`;
@@ -1,25 +1,35 @@
-import { createClient } from '@supabase/supabase-js';
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
 import type { Database } from '../types';
 
 /**
  * Initialize Supabase client with environment variables
  * Make sure to set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY in your .env file
+ *
+ * The client is created lazily so the planner can run on a local storage
+ * backend without any Supabase credentials configured.
  */
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
 
-if (!supabaseUrl || !supabaseAnonKey) {
-  console.warn(
-    'Supabase credentials not found. Please set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY in your .env file.'
-  );
-}
+let client: SupabaseClient<Database> | null = null;
+
+export const getSupabaseClient = (): SupabaseClient<Database> => {
+  if (client) return client;
 
-export const supabase = createClient<Database>(
-  supabaseUrl || '',
-  supabaseAnonKey || '',
-  {
-    auth: {
-      persistSession: false, // No authentication needed for private use
-    },
+  if (!supabaseUrl || !supabaseAnonKey) {
+    console.warn(
+      'Supabase credentials not found. Please set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY in your .env file.'
+    );
   }
-);
+
+  client = createClient<Database>(
+    supabaseUrl || '',
+    supabaseAnonKey || '',
+    {
+      auth: {
+        persistSession: false, // No authentication needed for private use
+      },
+    }
+  );
+  return client;
+};
@@ -0,0 +1,942 @@
+import { getSupabaseClient } from './supabaseClient';
+import {
+  calculateEndTime,
+  createConflictError,
+  type ScheduleRepository,
+  type ScheduleSnapshot,
+} from './scheduleRepository';
+import { normalizeWorkingHours } from './workingHours';
+import { normalizeBreakPolicy } from './breakPlanner';
+import type {
+  Appointment,
+  AppointmentSeries,
+  Break,
+  Client,
+  ScheduleItem,
+  ScheduleTemplate,
+  Service,
+  TimeOff,
+} from '../types';
+
+const WORKING_HOURS_KEY = 'working_hours';
+const BREAK_POLICY_KEY = 'break_policy';
+
+/**
+ * Error code raised by `apply_schedule_batch` when an update matched no row
+ * (details: table name, hint: row id)
+ */
+const BATCH_CONFLICT_CODE = '40001';
+
+/**
+ * Row returned by the schedule_day_summaries function
+ */
+interface DaySummaryRow {
+  day: string;
+  appointment_count: number;
+  booked_minutes: number;
+  first_start: string;
+  last_end: string;
+}
+
+/**
+ * Row returned by the client_visit_summaries function
+ */
+interface ClientVisitSummaryRow {
+  client_id: string;
+  visit_count: number;
+  last_visit: string | null;
+  usual_duration_minutes: number | null;
+}
+
+/**
+ * Work out why a versioned update matched no row: either the row changed
+ * since the expected version (conflict) or it doesn't exist anymore
+ */
+const explainMissedUpdate = async (
+  table: 'appointments' | 'breaks',
+  id: string
+): Promise<Error> => {
+  const { data } = await getSupabaseClient().from(table).select('*').eq('id', id).maybeSingle();
+
+  // Trashed appointments count as deleted
+  if (data && !(data as Partial<Appointment>).deleted_at) {
+    return createConflictError(table, data as ScheduleItem);
+  }
+  const label = table === 'appointments' ? 'Appointment' : 'Break';
+  return new Error(`${label} with id ${id} not found or already deleted`);
+};
+
+/**
+ * Supabase-backed schedule repository
+ * Talks to the `appointments` and `breaks` tables directly
+ */
+export const createSupabaseRepository = (): ScheduleRepository => {
+  return {
+    /**
+     * Fetch all appointments from Supabase
+     */
+    async fetchAppointments() {
+      const { data, error } = await getSupabaseClient()
+        .from('appointments')
+        .select('*')
+        .is('deleted_at', null)
+        .order('start_time', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching appointments:', error);
+        throw error;
+      }
+
+      return data || [];
+    },
+
+    /**
+     * Fetch appointments starting within [from, to)
+     */
+    async fetchAppointmentsInRange(from, to) {
+      const { data, error } = await getSupabaseClient()
+        .from('appointments')
+        .select('*')
+        .is('deleted_at', null)
+        .gte('start_time', from.toISOString())
+        .lt('start_time', to.toISOString())
+        .order('start_time', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching appointments in range:', error);
+        throw error;
+      }
+
+      return data || [];
+    },
+
+    /**
+     * Fetch all breaks from Supabase
+     */
+    async fetchBreaks() {
+      const { data, error } = await getSupabaseClient()
+        .from('breaks')
+        .select('*')
+        .order('start_time', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching breaks:', error);
+        throw error;
+      }
+
+      return data || [];
+    },
+
+    /**
+     * Fetch breaks starting within [from, to)
+     */
+    async fetchBreaksInRange(from, to) {
+      const { data, error } = await getSupabaseClient()
+        .from('breaks')
+        .select('*')
+        .gte('start_time', from.toISOString())
+        .lt('start_time', to.toISOString())
+        .order('start_time', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching breaks in range:', error);
+        throw error;
+      }
+
+      return data || [];
+    },
+
+    /**
+     * Create a new appointment in Supabase
+     */
+    async createAppointment(appointment) {
+      const endTime = calculateEndTime(
+        appointment.start_time,
+        appointment.duration_minutes
+      );
+
+      const { data, error } = (await getSupabaseClient()
+        .from('appointments')
+        // @ts-ignore - Supabase generic type issue
+        .insert({
+          ...appointment,
+          end_time: endTime,
+        })
+        .select()
+        .single()) as { data: Appointment | null; error: any };
+
+      if (error || !data) {
+        console.error('Error creating appointment:', error);
+        throw error || new Error('No data returned');
+      }
+
+      return data;
+    },
+
+    /**
+     * Update an existing appointment in Supabase
+     * With `expectedUpdatedAt` the row is only written if its version still matches
+     */
+    async updateAppointment(id, updates, expectedUpdatedAt) {
+      // Recalculate end_time if start_time or duration changed
+      let endTime: string | undefined;
+      if (updates.start_time || updates.duration_minutes) {
+        const { data: currentData } = await getSupabaseClient()
+          .from('appointments')
+          .select('start_time, duration_minutes')
+          .eq('id', id)
+          .single();
+
+        if (currentData) {
+          const startTime = updates.start_time || (currentData as any).start_time;
+          const duration = updates.duration_minutes || (currentData as any).duration_minutes;
+          endTime = calculateEndTime(startTime, duration);
+        }
+      }
+
+      const { data, error } = (await getSupabaseClient()
+        .from('appointments')
+        // @ts-ignore - Supabase generic type issue
+        .update({
+          ...updates,
+          ...(endTime && { end_time: endTime }),
+          updated_at: new Date().toISOString(),
+        })
+        .match({ id, ...(expectedUpdatedAt && { updated_at: expectedUpdatedAt }) })
+        .is('deleted_at', null)
+        .select()
+        .maybeSingle()) as { data: Appointment | null; error: any };
+
+      if (error) {
+        console.error('Error updating appointment:', error);
+        throw error;
+      }
+
+      if (!data) {
+        throw await explainMissedUpdate('appointments', id);
+      }
+
+      return data;
+    },
+
+    /**
+     * Move an appointment to the trash (the cleanup function purges it later)
+     */
+    async deleteAppointment(id) {
+      const now = new Date().toISOString();
+      const { error } = await getSupabaseClient()
+        .from('appointments')
+        // @ts-ignore - Supabase generic type issue
+        .update({ deleted_at: now, updated_at: now })
+        .eq('id', id)
+        .is('deleted_at', null);
+
+      if (error) {
+        console.error('Error deleting appointment:', error);
+        throw error;
+      }
+    },
+
+    /**
+     * Fetch the appointments in the trash
+     */
+    async fetchTrash() {
+      const { data, error } = await getSupabaseClient()
+        .from('appointments')
+        .select('*')
+        .not('deleted_at', 'is', null)
+        .order('deleted_at', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching trash:', error);
+        throw error;
+      }
+
+      return data || [];
+    },
+
+    /**
+     * Create a new break in Supabase
+     */
+    async createBreak(breakItem) {
+      const endTime = calculateEndTime(
+        breakItem.start_time,
+        breakItem.duration_minutes
+      );
+
+      const { data, error } = (await getSupabaseClient()
+        .from('breaks')
+        // @ts-ignore - Supabase generic type issue
+        .insert({
+          ...breakItem,
+          end_time: endTime,
+        })
+        .select()
+        .single()) as { data: Break | null; error: any };
+
+      if (error || !data) {
+        console.error('Error creating break:', error);
+        throw error || new Error('No data returned');
+      }
+
+      return data;
+    },
+
+    /**
+     * Update an existing break in Supabase
+     * With `expectedUpdatedAt` the row is only written if its version still matches
+     */
+    async updateBreak(id, updates, expectedUpdatedAt) {
+      // Recalculate end_time if start_time or duration changed
+      let endTime: string | undefined;
+      if (updates.start_time || updates.duration_minutes) {
+        const { data: currentData, error: fetchError } = await getSupabaseClient()
+          .from('breaks')
+          .select('start_time, duration_minutes')
+          .eq('id', id)
+          .single();
+
+        if (fetchError) {
+          console.error('Error fetching break for update:', fetchError);
+          throw new Error(`Break with id ${id} not found or already deleted`);
+        }
+
+        if (currentData) {
+          const startTime = updates.start_time || (currentData as any).start_time;
+          const duration = updates.duration_minutes || (currentData as any).duration_minutes;
+          endTime = calculateEndTime(startTime, duration);
+        }
+      }
+
+      const { data, error } = (await getSupabaseClient()
+        .from('breaks')
+        // @ts-ignore - Supabase generic type issue
+        .update({
+          ...updates,
+          ...(endTime && { end_time: endTime }),
+          updated_at: new Date().toISOString(),
+        })
+        .match({ id, ...(expectedUpdatedAt && { updated_at: expectedUpdatedAt }) })
+        .select()
+        .maybeSingle()) as { data: Break | null; error: any };
+
+      if (error) {
+        console.error('Error updating break:', error);
+        throw error;
+      }
+
+      if (!data) {
+        throw await explainMissedUpdate('breaks', id);
+      }
+
+      return data;
+    },
+
+    /**
+     * Fetch appointments (trashed ones included) and breaks by id
+     */
+    async fetchScheduleItems(ids) {
+      if (ids.length === 0) return { appointments: [], breaks: [] };
+
+      const client = getSupabaseClient();
+      const [appointmentsResult, breaksResult] = await Promise.all([
+        client.from('appointments').select('*').in('id', ids),
+        client.from('breaks').select('*').in('id', ids),
+      ]);
+
+      const error = appointmentsResult.error || breaksResult.error;
+      if (error) {
+        console.error('Error fetching schedule items:', error);
+        throw error;
+      }
+
+      return {
+        appointments: appointmentsResult.data || [],
+        breaks: breaksResult.data || [],
+      };
+    },
+
+    /**
+     * Apply a schedule diff in a single transaction via the `apply_schedule_batch` function
+     */
+    async applyBatch(diff) {
+      const { data, error } = (await getSupabaseClient()
+        // @ts-ignore - Supabase generic type issue
+        .rpc('apply_schedule_batch', { diff })) as { data: ScheduleSnapshot | null; error: any };
+
+      if (error) {
+        if (error.code === BATCH_CONFLICT_CODE) {
+          throw await explainMissedUpdate(error.details, error.hint);
+        }
+        console.error('Error applying schedule batch:', error);
+        throw error;
+      }
+
+      return {
+        appointments: data?.appointments || [],
+        breaks: data?.breaks || [],
+      };
+    },
+
+    /**
+     * Fetch per-day appointment totals, aggregated in the database
+     * (days are cut in this device's time zone)
+     */
+    async fetchDaySummaries(from, to) {
+      const { data, error } = (await getSupabaseClient()
+        // @ts-ignore - Supabase generic type issue
+        .rpc('schedule_day_summaries', {
+          range_start: from.toISOString(),
+          range_end: to.toISOString(),
+          tz: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        })) as { data: DaySummaryRow[] | null; error: any };
+
+      if (error) {
+        console.error('Error fetching day summaries:', error);
+        throw error;
+      }
+
+      return (data || []).map((row) => ({
+        date: row.day,
+        appointmentCount: row.appointment_count,
+        bookedMinutes: row.booked_minutes,
+        firstStart: row.first_start,
+        lastEnd: row.last_end,
+      }));
+    },
+
+    /**
+     * Fetch the working hours settings row
+     */
+    async fetchWorkingHours() {
+      const { data, error } = (await getSupabaseClient()
+        .from('settings')
+        .select('value')
+        .eq('key', WORKING_HOURS_KEY)
+        .maybeSingle()) as { data: { value: unknown } | null; error: any };
+
+      if (error) {
+        console.error('Error fetching working hours:', error);
+        throw error;
+      }
+
+      return data ? normalizeWorkingHours(data.value) : null;
+    },
+
+    /**
+     * Save the working hours settings row
+     */
+    async saveWorkingHours(workingHours) {
+      const { error } = await getSupabaseClient()
+        .from('settings')
+        // @ts-ignore - Supabase generic type issue
+        .upsert({
+          key: WORKING_HOURS_KEY,
+          value: workingHours,
+          updated_at: new Date().toISOString(),
+        });
+
+      if (error) {
+        console.error('Error saving working hours:', error);
+        throw error;
+      }
+
+      return workingHours;
+    },
+
+    /**
+     * Fetch the break policy settings row
+     */
+    async fetchBreakPolicy() {
+      const { data, error } = (await getSupabaseClient()
+        .from('settings')
+        .select('value')
+        .eq('key', BREAK_POLICY_KEY)
+        .maybeSingle()) as { data: { value: unknown } | null; error: any };
+
+      if (error) {
+        console.error('Error fetching break policy:', error);
+        throw error;
+      }
+
+      return data ? normalizeBreakPolicy(data.value) : null;
+    },
+
+    /**
+     * Save the break policy settings row
+     */
+    async saveBreakPolicy(policy) {
+      const { error } = await getSupabaseClient()
+        .from('settings')
+        // @ts-ignore - Supabase generic type issue
+        .upsert({
+          key: BREAK_POLICY_KEY,
+          value: policy,
+          updated_at: new Date().toISOString(),
+        });
+
+      if (error) {
+        console.error('Error saving break policy:', error);
+        throw error;
+      }
+
+      return policy;
+    },
+
+    /**
+     * Fetch time off blocks overlapping [from, to)
+     */
+    async fetchTimeOffInRange(from, to) {
+      const { data, error } = await getSupabaseClient()
+        .from('time_off')
+        .select('*')
+        .lt('start_time', to.toISOString())
+        .gt('end_time', from.toISOString())
+        .order('start_time', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching time off:', error);
+        throw error;
+      }
+
+      return data || [];
+    },
+
+    /**
+     * Create a time off block in Supabase
+     */
+    async createTimeOff(timeOff) {
+      const { data, error } = (await getSupabaseClient()
+        .from('time_off')
+        // @ts-ignore - Supabase generic type issue
+        .insert(timeOff)
+        .select()
+        .single()) as { data: TimeOff | null; error: any };
+
+      if (error || !data) {
+        console.error('Error creating time off:', error);
+        throw error || new Error('No data returned');
+      }
+
+      return data;
+    },
+
+    /**
+     * Delete a time off block from Supabase
+     */
+    async deleteTimeOff(id) {
+      const { error } = await getSupabaseClient().from('time_off').delete().eq('id', id);
+
+      if (error) {
+        console.error('Error deleting time off:', error);
+        throw error;
+      }
+    },
+
+    /**
+     * Fetch the whole client directory
+     */
+    async fetchClients() {
+      const { data, error } = await getSupabaseClient()
+        .from('clients')
+        .select('*')
+        .order('name', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching clients:', error);
+        throw error;
+      }
+
+      return data || [];
+    },
+
+    /**
+     * Create a client in Supabase
+     */
+    async createClient(client) {
+      const { data, error } = (await getSupabaseClient()
+        .from('clients')
+        // @ts-ignore - Supabase generic type issue
+        .insert(client)
+        .select()
+        .single()) as { data: Client | null; error: any };
+
+      if (error || !data) {
+        console.error('Error creating client:', error);
+        throw error || new Error('No data returned');
+      }
+
+      return data;
+    },
+
+    /**
+     * Update a client in Supabase
+     */
+    async updateClient(id, updates) {
+      const { data, error } = (await getSupabaseClient()
+        .from('clients')
+        // @ts-ignore - Supabase generic type issue
+        .update({ ...updates, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .select()
+        .single()) as { data: Client | null; error: any };
+
+      if (error || !data) {
+        console.error('Error updating client:', error);
+        throw error || new Error('No data returned');
+      }
+
+      return data;
+    },
+
+    /**
+     * Fetch every appointment linked to a client
+     */
+    async fetchClientAppointments(clientId) {
+      const { data, error } = await getSupabaseClient()
+        .from('appointments')
+        .select('*')
+        .eq('client_id', clientId)
+        .is('deleted_at', null)
+        .order('start_time', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching client appointments:', error);
+        throw error;
+      }
+
+      return data || [];
+    },
+
+    /**
+     * Fetch visit statistics of every client
+     */
+    async fetchClientVisitSummaries() {
+      const { data, error } = (await getSupabaseClient()
+        // @ts-ignore - Supabase generic type issue
+        .rpc('client_visit_summaries')) as { data: ClientVisitSummaryRow[] | null; error: any };
+
+      if (error) {
+        console.error('Error fetching client visit summaries:', error);
+        throw error;
+      }
+
+      return (data || []).map((row) => ({
+        clientId: row.client_id,
+        visitCount: row.visit_count,
+        lastVisit: row.last_visit,
+        usualDurationMinutes: row.usual_duration_minutes,
+      }));
+    },
+
+    /**
+     * Fetch the whole service catalog
+     */
+    async fetchServices() {
+      const { data, error } = await getSupabaseClient()
+        .from('services')
+        .select('*')
+        .order('duration_minutes', { ascending: true })
+        .order('name', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching services:', error);
+        throw error;
+      }
+
+      return data || [];
+    },
+
+    /**
+     * Create a service in Supabase
+     */
+    async createService(service) {
+      const { data, error } = (await getSupabaseClient()
+        .from('services')
+        // @ts-ignore - Supabase generic type issue
+        .insert(service)
+        .select()
+        .single()) as { data: Service | null; error: any };
+
+      if (error || !data) {
+        console.error('Error creating service:', error);
+        throw error || new Error('No data returned');
+      }
+
+      return data;
+    },
+
+    /**
+     * Update a service in Supabase
+     */
+    async updateService(id, updates) {
+      const { data, error } = (await getSupabaseClient()
+        .from('services')
+        // @ts-ignore - Supabase generic type issue
+        .update({ ...updates, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .select()
+        .single()) as { data: Service | null; error: any };
+
+      if (error || !data) {
+        console.error('Error updating service:', error);
+        throw error || new Error('No data returned');
+      }
+
+      return data;
+    },
+
+    /**
+     * Fetch every recurring series
+     */
+    async fetchSeries() {
+      const { data, error } = await getSupabaseClient()
+        .from('appointment_series')
+        .select('*')
+        .order('start_time', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching appointment series:', error);
+        throw error;
+      }
+
+      return data || [];
+    },
+
+    /**
+     * Create a recurring series in Supabase
+     */
+    async createSeries(series) {
+      const { data, error } = (await getSupabaseClient()
+        .from('appointment_series')
+        // @ts-ignore - Supabase generic type issue
+        .insert(series)
+        .select()
+        .single()) as { data: AppointmentSeries | null; error: any };
+
+      if (error || !data) {
+        console.error('Error creating appointment series:', error);
+        throw error || new Error('No data returned');
+      }
+
+      return data;
+    },
+
+    /**
+     * Update a recurring series in Supabase
+     */
+    async updateSeries(id, updates) {
+      const { data, error } = (await getSupabaseClient()
+        .from('appointment_series')
+        // @ts-ignore - Supabase generic type issue
+        .update({ ...updates, updated_at: new Date().toISOString() })
+        .eq('id', id)
+        .select()
+        .single()) as { data: AppointmentSeries | null; error: any };
+
+      if (error || !data) {
+        console.error('Error updating appointment series:', error);
+        throw error || new Error('No data returned');
+      }
+
+      return data;
+    },
+
+    /**
+     * Delete a recurring series from Supabase (its occurrences keep existing)
+     */
+    async deleteSeries(id) {
+      const { error } = await getSupabaseClient()
+        .from('appointment_series')
+        .delete()
+        .eq('id', id);
+
+      if (error) {
+        console.error('Error deleting appointment series:', error);
+        throw error;
+      }
+    },
+
+    /**
+     * Fetch every occurrence generated from a series
+     */
+    async fetchSeriesAppointments(seriesId) {
+      const { data, error } = await getSupabaseClient()
+        .from('appointments')
+        .select('*')
+        .eq('series_id', seriesId)
+        .is('deleted_at', null)
+        .order('start_time', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching series appointments:', error);
+        throw error;
+      }
+
+      return data || [];
+    },
+
+    /**
+     * Fetch every saved schedule template
+     */
+    async fetchTemplates() {
+      const { data, error } = await getSupabaseClient()
+        .from('schedule_templates')
+        .select('*')
+        .order('name', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching schedule templates:', error);
+        throw error;
+      }
+
+      return data || [];
+    },
+
+    /**
+     * Create a schedule template in Supabase
+     */
+    async createTemplate(template) {
+      const { data, error } = (await getSupabaseClient()
+        .from('schedule_templates')
+        // @ts-ignore - Supabase generic type issue
+        .insert(template)
+        .select()
+        .single()) as { data: ScheduleTemplate | null; error: any };
+
+      if (error || !data) {
+        console.error('Error creating schedule template:', error);
+        throw error || new Error('No data returned');
+      }
+
+      return data;
+    },
+
+    /**
+     * Delete a schedule template from Supabase
+     */
+    async deleteTemplate(id) {
+      const { error } = await getSupabaseClient()
+        .from('schedule_templates')
+        .delete()
+        .eq('id', id);
+
+      if (error) {
+        console.error('Error deleting schedule template:', error);
+        throw error;
+      }
+    },
+
+    /**
+     * Delete a break from Supabase
+     */
+    async deleteBreak(id) {
+      const { error } = await getSupabaseClient().from('breaks').delete().eq('id', id);
+
+      if (error) {
+        console.error('Error deleting break:', error);
+        throw error;
+      }
+    },
+
+    /**
+     * Append entries to the audit log
+     */
+    async appendAuditEntries(entries) {
+      if (entries.length === 0) return;
+
+      const { error } = await getSupabaseClient()
+        .from('audit_log')
+        // @ts-ignore - Supabase generic type issue
+        .insert(entries);
+
+      if (error) {
+        console.error('Error writing audit log:', error);
+        throw error;
+      }
+    },
+
+    /**
+     * Fetch every logged write of one appointment or break
+     */
+    async fetchRecordAuditLog(recordId) {
+      const { data, error } = await getSupabaseClient()
+        .from('audit_log')
+        .select('*')
+        .eq('record_id', recordId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching audit log:', error);
+        throw error;
+      }
+
+      return data || [];
+    },
+
+    /**
+     * Fetch the writes logged within [from, to)
+     */
+    async fetchAuditLogInRange(from, to) {
+      const { data, error } = await getSupabaseClient()
+        .from('audit_log')
+        .select('*')
+        .gte('created_at', from.toISOString())
+        .lt('created_at', to.toISOString())
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching audit log in range:', error);
+        throw error;
+      }
+
+      return data || [];
+    },
+
+    /**
+     * Subscribe to postgres changes on the appointments and breaks tables
+     */
+    subscribe(onChange, onStatus) {
+      const client = getSupabaseClient();
+      const channel = client
+        .channel('schedule-changes')
+        .on<Appointment>(
+          'postgres_changes',
+          { event: '*', schema: 'public', table: 'appointments' },
+          (payload) => {
+            if (payload.eventType === 'DELETE') {
+              if (payload.old.id) onChange({ table: 'appointments', type: 'delete', id: payload.old.id });
+            } else if (payload.new.deleted_at) {
+              // Moved to the trash elsewhere
+              onChange({ table: 'appointments', type: 'delete', id: payload.new.id });
+            } else {
+              onChange({ table: 'appointments', type: 'upsert', row: payload.new });
+            }
+          }
+        )
+        .on<Break>(
+          'postgres_changes',
+          { event: '*', schema: 'public', table: 'breaks' },
+          (payload) => {
+            if (payload.eventType === 'DELETE') {
+              if (payload.old.id) onChange({ table: 'breaks', type: 'delete', id: payload.old.id });
+            } else {
+              onChange({ table: 'breaks', type: 'upsert', row: payload.new });
+            }
+          }
+        )
+        .subscribe((status, err) => {
+          if (status === 'SUBSCRIBED') {
+            onStatus(true);
+          } else {
+            if (err) console.error('Realtime subscription error:', err);
+            onStatus(false);
+          }
+        });
+
+      return () => {
+        client.removeChannel(channel);
+      };
+    },
+  };
+};
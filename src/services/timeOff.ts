@@ -0,0 +1,65 @@
+import { addDays, parseISO, startOfDay } from 'date-fns';
+import type { NewTimeOff, TimeOff } from '../types';
+
+/**
+ * Check if a time off block overlaps [from, to)
+ */
+export const overlapsTimeOff = (timeOff: TimeOff, from: Date, to: Date): boolean =>
+  parseISO(timeOff.start_time) < to && parseISO(timeOff.end_time) > from;
+
+/**
+ * First time off block overlapping [from, to), if any
+ */
+export const findTimeOffOverlap = (
+  timeOff: TimeOff[],
+  from: Date,
+  to: Date
+): TimeOff | undefined => timeOff.find((block) => overlapsTimeOff(block, from, to));
+
+/**
+ * Time off blocks touching the given day
+ */
+export const getTimeOffForDay = (timeOff: TimeOff[], day: Date): TimeOff[] => {
+  const dayStart = startOfDay(day);
+  return timeOff.filter((block) => overlapsTimeOff(block, dayStart, addDays(dayStart, 1)));
+};
+
+/**
+ * Payload for a block covering whole days, from `firstDay` through `lastDay` inclusive
+ */
+export const createFullDayTimeOff = (
+  firstDay: Date,
+  lastDay: Date,
+  reason?: string
+): NewTimeOff => ({
+  start_time: startOfDay(firstDay).toISOString(),
+  end_time: addDays(startOfDay(lastDay), 1).toISOString(),
+  is_full_day: true,
+  reason,
+});
+
+/**
+ * Part of a block inside the [startHour, endHour) window of a day, in hours from startHour
+ * (null if the block doesn't reach into the window)
+ */
+export const clipTimeOffToDay = (
+  timeOff: TimeOff,
+  day: Date,
+  startHour: number,
+  endHour: number
+): { from: number; to: number } | null => {
+  const windowStart = new Date(day);
+  windowStart.setHours(startHour, 0, 0, 0);
+  const windowEnd = new Date(day);
+  windowEnd.setHours(endHour, 0, 0, 0);
+
+  const from = Math.max(parseISO(timeOff.start_time).getTime(), windowStart.getTime());
+  const to = Math.min(parseISO(timeOff.end_time).getTime(), windowEnd.getTime());
+  if (from >= to) return null;
+
+  const hour = 60 * 60 * 1000;
+  return {
+    from: (from - windowStart.getTime()) / hour,
+    to: (to - windowStart.getTime()) / hour,
+  };
+};
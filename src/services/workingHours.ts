@@ -0,0 +1,93 @@
+import type { BookingConflict, BookingContext, DayHours, WorkingHours } from '../types';
+import { findTimeOffOverlap } from './timeOff';
+import { clashesWithAppointment, findService } from './serviceCatalog';
+import { isActiveAppointment } from './appointmentStatus';
+
+/**
+ * Window shown for days without configured hours (and the historical default)
+ */
+export const DEFAULT_DAY_HOURS: DayHours = { startHour: 8, endHour: 19 };
+
+export const DEFAULT_WORKING_HOURS: WorkingHours = Array.from({ length: 7 }, () => ({
+  ...DEFAULT_DAY_HOURS,
+}));
+
+/**
+ * Weekday names in Date.getDay() order
+ */
+export const WEEKDAY_NAMES = [
+  'Неділя',
+  'Понеділок',
+  'Вівторок',
+  'Середа',
+  'Четвер',
+  "П'ятниця",
+  'Субота',
+];
+
+/**
+ * Working window for a date, or null if it's a day off
+ */
+export const getDayHours = (workingHours: WorkingHours, date: Date): DayHours | null =>
+  workingHours[date.getDay()] ?? null;
+
+/**
+ * Format a whole hour as HH:00
+ */
+export const formatHour = (hour: number): string => `${hour.toString().padStart(2, '0')}:00`;
+
+/**
+ * Make sure stored hours have an entry for every weekday
+ */
+export const normalizeWorkingHours = (value: unknown): WorkingHours =>
+  Array.isArray(value) && value.length === 7
+    ? (value as WorkingHours)
+    : DEFAULT_WORKING_HOURS;
+
+/**
+ * Starts that can't be booked for `durationMinutes`: days off, outside working hours,
+ * time off or clashes with existing (active) appointments
+ */
+export const findBookingConflicts = (
+  starts: Date[],
+  durationMinutes: number,
+  serviceId: string | null | undefined,
+  context: BookingContext
+): BookingConflict[] => {
+  const service = findService(context.services, serviceId);
+  const conflicts: BookingConflict[] = [];
+
+  for (const start of starts) {
+    const end = new Date(start.getTime() + durationMinutes * 60000);
+    const conflict = (reason: string) => conflicts.push({ start_time: start.toISOString(), reason });
+
+    const hours = getDayHours(context.workingHours, start);
+    if (!hours) {
+      conflict('вихідний день');
+      continue;
+    }
+    const dayOpen = new Date(start);
+    dayOpen.setHours(hours.startHour, 0, 0, 0);
+    const dayClose = new Date(start);
+    dayClose.setHours(hours.endHour, 0, 0, 0);
+    if (start < dayOpen || end > dayClose) {
+      conflict('поза робочим часом');
+      continue;
+    }
+
+    const blocked = findTimeOffOverlap(context.timeOff, start, end);
+    if (blocked) {
+      conflict(blocked.reason ? `недоступно (${blocked.reason})` : 'недоступно');
+      continue;
+    }
+
+    const clash = (context.appointments ?? []).find(
+      (apt) =>
+        isActiveAppointment(apt) &&
+        clashesWithAppointment(start, end, service, apt, context.services)
+    );
+    if (clash) conflict(`зайнято: ${clash.client_name}`);
+  }
+
+  return conflicts;
+};
@@ -0,0 +1,68 @@
+import { vi } from 'vitest';
+import type { Appointment, Break, ScheduleChange } from '../types';
+import type { ScheduleRepository, ScheduleSnapshot } from '../services/scheduleRepository';
+import { createMemoryRepository } from '../services/memoryRepository';
+
+/**
+ * Local time on the day the tests are set on (Monday, 6 January 2025)
+ */
+export const at = (hours: number, minutes = 0): Date => new Date(2025, 0, 6, hours, minutes);
+
+const endOf = (start: Date, durationMinutes: number): string =>
+  new Date(start.getTime() + durationMinutes * 60000).toISOString();
+
+/**
+ * Booked appointment named after its id
+ */
+export const appointment = (
+  id: string,
+  start: Date,
+  durationMinutes = 60,
+  overrides: Partial<Appointment> = {}
+): Appointment => ({
+  id,
+  client_name: id,
+  start_time: start.toISOString(),
+  duration_minutes: durationMinutes,
+  end_time: endOf(start, durationMinutes),
+  status: 'booked',
+  ...overrides,
+});
+
+/**
+ * Auto-generated break
+ */
+export const breakAt = (
+  id: string,
+  start: Date,
+  durationMinutes = 15,
+  overrides: Partial<Break> = {}
+): Break => ({
+  id,
+  start_time: start.toISOString(),
+  duration_minutes: durationMinutes,
+  end_time: endOf(start, durationMinutes),
+  is_manual: false,
+  ...overrides,
+});
+
+/**
+ * Memory repository with a live subscription the test drives by hand
+ * (`live.onStatus(true)` brings the connection up, `live.onChange` pushes a remote change)
+ */
+export const createLiveRepository = (initial?: ScheduleSnapshot) => {
+  const live = {
+    onChange: (_change: ScheduleChange) => {},
+    onStatus: (_isLive: boolean) => {},
+    unsubscribe: vi.fn(),
+  };
+  const repository: ScheduleRepository = {
+    ...createMemoryRepository(initial),
+    subscribe(onChange, onStatus) {
+      live.onChange = onChange;
+      live.onStatus = onStatus;
+      return live.unsubscribe;
+    },
+  };
+  return { repository, live };
+};
@@ -1,17 +1,184 @@
+/**
+ * Where an appointment is in its lifecycle
+ * Cancelled and no-show appointments are kept for history but don't occupy time.
+ */
+export type AppointmentStatus =
+  | 'booked'
+  | 'confirmed'
+  | 'arrived'
+  | 'in_progress'
+  | 'completed'
+  | 'cancelled'
+  | 'no_show';
+
 /**
  * Core appointment type representing a massage session
  */
 export interface Appointment {
   id: string;
   client_name: string;
+  client_id?: string | null; // Linked client profile (older appointments only have the name)
+  service_id?: string | null; // Booked service from the catalog (older appointments have none)
+  series_id?: string | null; // Recurring series this occurrence was generated from
   start_time: string; // ISO 8601 format
   duration_minutes: number;
   end_time: string; // ISO 8601 format (calculated)
   notes?: string; // Optional notes
+  status?: AppointmentStatus; // Missing on older appointments, which count as booked
+  status_timestamps?: Partial<Record<AppointmentStatus, string>>; // When each status was last entered
+  deleted_at?: string | null; // Set while the appointment is in the trash
+  created_at?: string;
+  updated_at?: string;
+}
+
+/**
+ * A client of the practice; appointments link to it by `client_id`
+ */
+export interface Client {
+  id: string;
+  name: string;
+  phone?: string | null;
+  email?: string | null;
+  birthday?: string | null; // yyyy-MM-dd
+  notes?: string | null;
+  preferred_duration_minutes?: number | null; // Preferred massage type (see AppointmentForm)
+  created_at?: string;
+  updated_at?: string;
+}
+
+/**
+ * A bookable service from the catalog
+ * Buffers are free time the service needs before/after it (setup, cleanup);
+ * inactive services are kept for existing appointments but can't be booked.
+ */
+export interface Service {
+  id: string;
+  name: string;
+  duration_minutes: number; // Default duration
+  price?: number | null;
+  color: string; // Hex color of its appointment blocks
+  buffer_before_minutes: number;
+  buffer_after_minutes: number;
+  is_active: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+/**
+ * How a recurring appointment repeats
+ * `interval` counts weeks (weekly) or months (monthly_weekday, e.g. every 2nd Tuesday);
+ * the series ends on `until` (a yyyy-MM-dd date, inclusive) or after `count`
+ * occurrences, or never when both are missing.
+ */
+export interface RecurrenceRule {
+  frequency: 'weekly' | 'monthly_weekday';
+  interval: number;
+  until?: string | null;
+  count?: number | null;
+}
+
+/**
+ * A recurring appointment: the rule plus the template its occurrences are created from
+ * Occurrences are generated as regular appointments up to `generated_until`, which
+ * moves forward with a rolling horizon.
+ */
+export interface AppointmentSeries {
+  id: string;
+  rule: RecurrenceRule;
+  start_time: string; // ISO 8601 start of the first occurrence
+  duration_minutes: number;
+  client_name: string;
+  client_id?: string | null;
+  service_id?: string | null;
+  notes?: string;
+  generated_until: string; // ISO 8601; occurrences up to here already exist
+  created_at?: string;
+  updated_at?: string;
+}
+
+/**
+ * A start time that can't be booked, with the reason shown to the user
+ */
+export interface BookingConflict {
+  start_time: string;
+  reason: string;
+}
+
+/**
+ * What decides whether a time can be booked
+ * (without `appointments` only availability is checked, not clashes)
+ */
+export interface BookingContext {
+  appointments?: Appointment[];
+  timeOff: TimeOff[];
+  workingHours: WorkingHours;
+  services: Service[];
+}
+
+/**
+ * Which occurrences of a series an edit or delete applies to
+ */
+export type SeriesScope = 'this' | 'following' | 'all';
+
+/**
+ * An appointment of a schedule template, timed relative to the template's first day
+ */
+export interface TemplateAppointment {
+  day_offset: number; // Days after the first day (0 for day templates, 0-6 for week templates)
+  start_minutes: number; // Minutes after midnight
+  duration_minutes: number;
+  client_name: string;
+  client_id?: string | null;
+  service_id?: string | null;
+  notes?: string;
+}
+
+/**
+ * A manual break of a schedule template (auto-generated breaks are planned anew)
+ */
+export interface TemplateBreak {
+  day_offset: number;
+  start_minutes: number;
+  duration_minutes: number;
+}
+
+/**
+ * A day or week of the schedule saved by name, to be repeated on other dates
+ */
+export interface ScheduleTemplate {
+  id: string;
+  name: string;
+  span: 'day' | 'week';
+  appointments: TemplateAppointment[];
+  breaks: TemplateBreak[];
   created_at?: string;
   updated_at?: string;
 }
 
+/**
+ * A templated appointment that can't be booked as is
+ * `clashes` are the existing appointments in its way, which overwriting moves to the
+ * trash; without any, the time itself is unavailable and it can only be skipped.
+ */
+export interface TemplateConflict {
+  start_time: string;
+  client_name: string;
+  reason: string;
+  clashes: Appointment[];
+}
+
+export type TemplateResolution = 'skip' | 'overwrite';
+
+/**
+ * What applying a template to a date range would book; `appointments[i]` conflicts
+ * when `conflicts[i]` is set
+ */
+export interface TemplatePlan {
+  appointments: NewAppointment[];
+  conflicts: (TemplateConflict | null)[];
+  breaks: NewBreak[];
+}
+
 /**
  * Break block type for gaps between appointments
  */
@@ -20,6 +187,7 @@ export interface Break {
   start_time: string; // ISO 8601 format
   duration_minutes: number;
   end_time: string; // ISO 8601 format
+  is_manual?: boolean; // Placed or moved by the user rather than auto-generated
   created_at?: string;
   updated_at?: string;
 }
@@ -29,6 +197,204 @@ export interface Break {
  */
 export type ScheduleItem = Appointment | Break;
 
+/**
+ * A period when no appointments can be booked (vacation, sick day, errand...)
+ * Full-day blocks run from midnight of their first day to midnight after the last one;
+ * `end_time` is exclusive in both cases.
+ */
+export interface TimeOff {
+  id: string;
+  start_time: string; // ISO 8601 format
+  end_time: string; // ISO 8601 format
+  is_full_day: boolean;
+  reason?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+/**
+ * Payloads accepted by the storage layer when creating/updating items
+ * (`id` may be chosen by the client so offline creates keep their id once synced)
+ */
+export type NewAppointment = Omit<Appointment, 'id' | 'created_at' | 'updated_at'> & { id?: string };
+export type AppointmentUpdates = Partial<Omit<Appointment, 'id' | 'created_at' | 'updated_at'>>;
+export type NewBreak = Omit<Break, 'id' | 'created_at' | 'updated_at'> & { id?: string };
+export type BreakUpdates = Partial<Omit<Break, 'id' | 'created_at' | 'updated_at'>>;
+export type NewTimeOff = Omit<TimeOff, 'id' | 'created_at' | 'updated_at'> & { id?: string };
+export type NewClient = Omit<Client, 'id' | 'created_at' | 'updated_at'> & { id?: string };
+export type ClientUpdates = Partial<Omit<Client, 'id' | 'created_at' | 'updated_at'>>;
+export type NewAppointmentSeries = Omit<AppointmentSeries, 'id' | 'created_at' | 'updated_at'> & {
+  id?: string;
+};
+export type AppointmentSeriesUpdates = Partial<
+  Omit<AppointmentSeries, 'id' | 'created_at' | 'updated_at'>
+>;
+export type NewScheduleTemplate = Omit<ScheduleTemplate, 'id' | 'created_at' | 'updated_at'> & {
+  id?: string;
+};
+export type NewService = Omit<Service, 'id' | 'created_at' | 'updated_at'> & { id?: string };
+export type ServiceUpdates = Partial<Omit<Service, 'id' | 'created_at' | 'updated_at'>>;
+
+/**
+ * Working window of one weekday, in whole hours (0-24)
+ */
+export interface DayHours {
+  startHour: number;
+  endHour: number;
+}
+
+/**
+ * Working hours for each weekday, indexed like Date.getDay() (0 = Sunday);
+ * null marks a day off
+ */
+export type WorkingHours = (DayHours | null)[];
+
+/**
+ * Rules for auto-generating breaks between appointments
+ */
+export interface BreakPolicy {
+  maxGapMinutes: number; // Longer gaps are left free
+  minBreakMinutes: number; // Shorter gaps are left free
+  protectManualBreaks: boolean; // Never move or delete breaks placed by the user
+}
+
+/**
+ * Creates, updates and deletes for one table
+ * Updates may carry the `updated_at` they were based on, for the conflict check
+ */
+export interface TableDiff<TNew, TUpdates> {
+  create?: TNew[];
+  update?: { id: string; updates: TUpdates; expectedUpdatedAt?: string }[];
+  delete?: string[];
+}
+
+/**
+ * A set of schedule changes applied atomically - all of them or none
+ */
+export interface ScheduleDiff {
+  appointments?: TableDiff<NewAppointment, AppointmentUpdates>;
+  breaks?: TableDiff<NewBreak, BreakUpdates>;
+}
+
+/**
+ * Changes needed to bring a day's breaks in line with a BreakPolicy
+ */
+export type BreakPlan = Required<TableDiff<NewBreak, BreakUpdates>>;
+
+/**
+ * A row change pushed by the storage backend (e.g. from another device)
+ */
+export type ScheduleChange =
+  | { table: 'appointments'; type: 'upsert'; row: Appointment }
+  | { table: 'appointments'; type: 'delete'; id: string }
+  | { table: 'breaks'; type: 'upsert'; row: Break }
+  | { table: 'breaks'; type: 'delete'; id: string };
+
+/**
+ * Thrown by the storage layer when an update was based on an outdated version
+ * of the row (`updated_at` no longer matches); `current` is the stored row
+ */
+export type ConflictError = Error & { name: 'ConflictError' } & (
+  | { table: 'appointments'; current: Appointment }
+  | { table: 'breaks'; current: Break }
+);
+
+/**
+ * A schedule write waiting in the offline queue
+ * Updates carry the `updated_at` they were based on, for the conflict check;
+ * a batch touches several items, so it has no single target
+ */
+export type MutationOperation =
+  | { kind: 'createAppointment'; targetId: string; row: Appointment }
+  | {
+      kind: 'updateAppointment';
+      targetId: string;
+      updates: AppointmentUpdates;
+      expectedUpdatedAt?: string;
+    }
+  | { kind: 'deleteAppointment'; targetId: string }
+  | { kind: 'createBreak'; targetId: string; row: Break }
+  | { kind: 'updateBreak'; targetId: string; updates: BreakUpdates; expectedUpdatedAt?: string }
+  | { kind: 'deleteBreak'; targetId: string }
+  | { kind: 'applyBatch'; diff: ScheduleDiff };
+
+/**
+ * Sync state of a locally changed item
+ */
+export type SyncStatus = 'pending' | 'failed';
+
+export type QueuedMutation = MutationOperation & {
+  id: string;
+  queuedAt: string;
+  status: SyncStatus;
+  error?: string;
+};
+
+/**
+ * One undoable schedule edit: the diff that reverts it and the one that applies it again
+ */
+export interface HistoryEntry {
+  id: string;
+  label: string; // Shown on the undo/redo buttons, e.g. "Видалення запису"
+  undo: ScheduleDiff;
+  redo: ScheduleDiff;
+}
+
+/**
+ * Undo/redo stacks (most recent entry last in `past`, first in `future`)
+ */
+export interface ScheduleHistory {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+/**
+ * What a logged write did to an appointment or break
+ */
+export type AuditAction = 'create' | 'update' | 'delete';
+
+/**
+ * One stored schedule write: who made it, from which device, and the row before and after
+ * (`before` is null for creates, `after` for deletes)
+ */
+export interface AuditEntry {
+  id: string;
+  table_name: 'appointments' | 'breaks';
+  record_id: string;
+  action: AuditAction;
+  actor: string;
+  device: string;
+  before: ScheduleItem | null;
+  after: ScheduleItem | null;
+  created_at: string;
+}
+
+export type NewAuditEntry = Omit<AuditEntry, 'id'>;
+
+/**
+ * How the planner keeps up with changes made on other devices
+ * - realtime: live subscription is connected
+ * - polling: realtime is unavailable, the selected day is refetched periodically
+ * - off: the backend is local to this device, nothing to sync
+ */
+export type SyncMode = 'realtime' | 'polling' | 'off';
+
+/**
+ * An appointment edit rejected because the row was changed on another device
+ * `mine` is the edit applied on top of `theirs` (the stored version)
+ */
+export interface AppointmentConflict {
+  mutationId: string;
+  mine: Appointment;
+  theirs: Appointment;
+}
+
+/**
+ * Appointment fields the user picks between when resolving a conflict
+ * (`client` covers the name and the linked profile, `time` start time and duration together)
+ */
+export type ConflictField = 'client' | 'service' | 'time' | 'notes' | 'status';
+
 /**
  * Form data for creating/editing appointments
  */
@@ -37,6 +403,35 @@ export interface AppointmentFormData {
   start_time: string;
   duration_minutes: number;
   notes?: string;
+  client_id?: string | null; // Set when an existing client was picked from the suggestions
+  service_id?: string | null;
+  recurrence?: RecurrenceRule | null; // Repeat the appointment (new appointments only)
+}
+
+/**
+ * Schedule layout: a single day, the Monday-to-Sunday week or the month around it
+ */
+export type ScheduleViewMode = 'day' | 'week' | 'month';
+
+/**
+ * Appointment totals for one calendar day (local time), computed by the backend
+ */
+export interface DaySummary {
+  date: string; // yyyy-MM-dd
+  appointmentCount: number;
+  bookedMinutes: number;
+  firstStart: string; // ISO 8601 start of the first appointment
+  lastEnd: string; // ISO 8601 end of the last appointment
+}
+
+/**
+ * Visit statistics of one client, computed by the backend
+ */
+export interface ClientVisitSummary {
+  clientId: string;
+  visitCount: number; // Past appointments only
+  lastVisit: string | null; // ISO 8601 start of the latest past appointment
+  usualDurationMinutes: number | null; // Most frequent duration
 }
 
 /**
@@ -54,9 +449,12 @@ export interface TimeSlot {
 export interface DragState {
   itemId: string | null;
   itemType: 'appointment' | 'break' | null;
-  startY: number;
+  startY: number; // Pointer position within the scrolled timeline when the drag started
   startTime: string;
+  durationMinutes: number;
   isDragging: boolean;
+  hasMoved: boolean; // Moved far enough to be a drag rather than a click
+  previewTime: string | null; // Snapped start time under the pointer (ISO)
 }
 
 /**
@@ -76,34 +474,203 @@ export interface ResizeState {
 export interface Database {
   public: {
     Tables: {
+      settings: {
+        Row: {
+          key: string;
+          value: unknown;
+          updated_at: string;
+        };
+        Insert: {
+          key: string;
+          value: unknown;
+          updated_at?: string;
+        };
+        Update: {
+          value?: unknown;
+          updated_at?: string;
+        };
+      };
+      clients: {
+        Row: {
+          id: string;
+          name: string;
+          phone?: string | null;
+          email?: string | null;
+          birthday?: string | null;
+          notes?: string | null;
+          preferred_duration_minutes?: number | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          phone?: string | null;
+          email?: string | null;
+          birthday?: string | null;
+          notes?: string | null;
+          preferred_duration_minutes?: number | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          name?: string;
+          phone?: string | null;
+          email?: string | null;
+          birthday?: string | null;
+          notes?: string | null;
+          preferred_duration_minutes?: number | null;
+          updated_at?: string;
+        };
+      };
+      services: {
+        Row: {
+          id: string;
+          name: string;
+          duration_minutes: number;
+          price: number | null;
+          color: string;
+          buffer_before_minutes: number;
+          buffer_after_minutes: number;
+          is_active: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          duration_minutes: number;
+          price?: number | null;
+          color: string;
+          buffer_before_minutes?: number;
+          buffer_after_minutes?: number;
+          is_active?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          name?: string;
+          duration_minutes?: number;
+          price?: number | null;
+          color?: string;
+          buffer_before_minutes?: number;
+          buffer_after_minutes?: number;
+          is_active?: boolean;
+          updated_at?: string;
+        };
+      };
+      appointment_series: {
+        Row: {
+          id: string;
+          rule: RecurrenceRule;
+          start_time: string;
+          duration_minutes: number;
+          client_name: string;
+          client_id: string | null;
+          service_id: string | null;
+          notes?: string;
+          generated_until: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          rule: RecurrenceRule;
+          start_time: string;
+          duration_minutes: number;
+          client_name: string;
+          client_id?: string | null;
+          service_id?: string | null;
+          notes?: string;
+          generated_until: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          rule?: RecurrenceRule;
+          start_time?: string;
+          duration_minutes?: number;
+          client_name?: string;
+          client_id?: string | null;
+          service_id?: string | null;
+          notes?: string;
+          generated_until?: string;
+          updated_at?: string;
+        };
+      };
+      schedule_templates: {
+        Row: {
+          id: string;
+          name: string;
+          span: 'day' | 'week';
+          appointments: TemplateAppointment[];
+          breaks: TemplateBreak[];
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          span: 'day' | 'week';
+          appointments: TemplateAppointment[];
+          breaks: TemplateBreak[];
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          name?: string;
+          span?: 'day' | 'week';
+          appointments?: TemplateAppointment[];
+          breaks?: TemplateBreak[];
+          updated_at?: string;
+        };
+      };
       appointments: {
         Row: {
           id: string;
           client_name: string;
+          client_id: string | null;
+          service_id: string | null;
+          series_id: string | null;
           start_time: string;
           duration_minutes: number;
           end_time: string;
           notes?: string;
+          status: AppointmentStatus;
+          status_timestamps: Partial<Record<AppointmentStatus, string>>;
+          deleted_at: string | null;
           created_at: string;
           updated_at: string;
         };
         Insert: {
           id?: string;
           client_name: string;
+          client_id?: string | null;
+          service_id?: string | null;
+          series_id?: string | null;
           start_time: string;
           duration_minutes: number;
           end_time: string;
           notes?: string;
+          status?: AppointmentStatus;
+          status_timestamps?: Partial<Record<AppointmentStatus, string>>;
+          deleted_at?: string | null;
           created_at?: string;
           updated_at?: string;
         };
         Update: {
           id?: string;
           client_name?: string;
+          client_id?: string | null;
+          service_id?: string | null;
+          series_id?: string | null;
           start_time?: string;
           duration_minutes?: number;
           end_time?: string;
           notes?: string;
+          status?: AppointmentStatus;
+          status_timestamps?: Partial<Record<AppointmentStatus, string>>;
+          deleted_at?: string | null;
           updated_at?: string;
         };
       };
@@ -113,6 +680,7 @@ export interface Database {
           start_time: string;
           duration_minutes: number;
           end_time: string;
+          is_manual: boolean;
           created_at: string;
           updated_at: string;
         };
@@ -121,6 +689,7 @@ export interface Database {
           start_time: string;
           duration_minutes: number;
           end_time: string;
+          is_manual?: boolean;
           created_at?: string;
           updated_at?: string;
         };
@@ -129,6 +698,59 @@ export interface Database {
           start_time?: string;
           duration_minutes?: number;
           end_time?: string;
+          is_manual?: boolean;
+          updated_at?: string;
+        };
+      };
+      audit_log: {
+        Row: {
+          id: string;
+          table_name: 'appointments' | 'breaks';
+          record_id: string;
+          action: AuditAction;
+          actor: string;
+          device: string;
+          before: ScheduleItem | null;
+          after: ScheduleItem | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          table_name: 'appointments' | 'breaks';
+          record_id: string;
+          action: AuditAction;
+          actor: string;
+          device: string;
+          before?: ScheduleItem | null;
+          after?: ScheduleItem | null;
+          created_at?: string;
+        };
+        Update: Record<string, never>;
+      };
+      time_off: {
+        Row: {
+          id: string;
+          start_time: string;
+          end_time: string;
+          is_full_day: boolean;
+          reason?: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          start_time: string;
+          end_time: string;
+          is_full_day?: boolean;
+          reason?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          start_time?: string;
+          end_time?: string;
+          is_full_day?: boolean;
+          reason?: string;
           updated_at?: string;
         };
       };